@@ -27,110 +27,2353 @@ export declare namespace QooizPlayer {
          * Изображения с этим классом не загружаются в плеер
          */
         readonly imageStopClass?: string;
+        /**
+         * Переходить ли с последнего элемента на первый и обратно при навигации
+         */
+        readonly loop?: boolean;
+        /**
+         * Переключать элементы горизонтальным свайпом по блоку просмотра
+         */
+        readonly swipe?: boolean;
+        /**
+         * Смещение указателя в пикселях, после которого начинается перетаскивание ленты превью
+         */
+        readonly dragThreshold?: number;
+        /**
+         * Длина свайпа в пикселях, после которой происходит переход к соседнему элементу
+         */
+        readonly swipeThreshold?: number;
+        /**
+         * Инерция ленты превью: сколько миллисекунд лента продолжает движение с текущей скоростью после отпускания
+         */
+        readonly dragInertia?: number;
+        /**
+         * Разрешить менять порядок элементов перетаскиванием превью и сочетаниями Ctrl + стрелки
+         */
+        readonly reorderable?: boolean;
+        /**
+         * Сколько миллисекунд нужно удерживать превью, чтобы начать его перетаскивание
+         */
+        readonly reorderDelay?: number;
+        /**
+         * Сервис конвертации документов, которые нельзя показать в браузере (docx, odt, pptx и т.п.):
+         * шаблон ссылки с подстановками {src} и {type} или функция, возвращающая ссылку.
+         * По умолчанию не задан, и такие документы предлагается скачать
+         */
+        readonly documentConverter?: string | ((src: string, type: string) => string | null);
+        /**
+         * Панель управления видео: native - встроенная в браузер, custom - собственная панель плеера
+         */
+        readonly videoControls?: 'native' | 'custom';
+        /**
+         * Непрерывный режим: по окончании воспроизведения переходить к следующему элементу
+         */
+        readonly continuous?: boolean;
+        /**
+         * Сколько секунд показывать обратный отсчет перед переходом к следующему элементу, 0 - переходить сразу
+         */
+        readonly autoplayCountdown?: number;
+        /**
+         * Повтор в непрерывном режиме: none - без повтора, all - весь список, one - текущий элемент
+         */
+        readonly repeat?: 'none' | 'all' | 'one';
+        /**
+         * Воспроизводить элементы в непрерывном режиме в случайном порядке: каждый элемент по одному разу,
+         * а с повтором всего списка (repeat: all) порядок составляется заново на каждый круг
+         */
+        readonly shuffle?: boolean;
+        /**
+         * Продолжать воспроизведение частично просмотренных элементов с места остановки
+         */
+        readonly resume?: boolean;
+        /**
+         * Воспроизводить аудио плейлиста без пауз: следующее аудио заранее загружается и запускается точно
+         * к концу текущего, без обратного отсчета и даже при выключенном непрерывном режиме. По умолчанию включено
+         */
+        readonly gapless?: boolean;
+        /**
+         * Передавать браузеру через Media Session API название и обложку воспроизводимого элемента
+         * и переключать элементы кнопками экрана блокировки и гарнитуры. По умолчанию включено
+         */
+        readonly mediaSession?: boolean;
+        /**
+         * Строить волновую форму аудио без готовой (data-peaks) загрузкой и декодированием файла.
+         * Файл загружается повторно, поэтому декодируются только файлы до AudioRenderer.waveformMaxBytes.
+         * По умолчанию включено
+         */
+        readonly waveform?: boolean;
+        /**
+         * Способ просмотра изображений: native - встроенный с масштабированием и лайтбоксом,
+         * materialize - Materialbox библиотеки Materialize, либо имя зарегистрированного способа
+         */
+        readonly imageViewer?: string;
+        /**
+         * Загружать превью только при появлении в ленте
+         */
+        readonly lazyThumbnails?: boolean;
+        /**
+         * Сколько следующих и предыдущих элементов загружать заранее
+         */
+        readonly preload?: number;
+        /**
+         * Сколько элементов блока просмотра хранить, прежде чем удалять давно показанные, 0 - не удалять
+         */
+        readonly cacheSize?: number;
+        /**
+         * Через сколько миллисекунд считать незагрузившийся фрейм ошибкой, 0 - не ограничивать
+         */
+        readonly loadTimeout?: number;
+        /**
+         * HTML-разметка, отображаемая в пустом плеере. По умолчанию используется изображение разметки
+         * с классом imageStopClass, а если его нет - текстовое сообщение
+         */
+        readonly emptyTemplate?: string;
+        /**
+         * Следить за изображениями разметки и добавлять и удалять элементы плеера вслед за ними
+         */
+        readonly observe?: boolean;
+        /**
+         * Локализация: локаль, собственные тексты и направление ленты
+         */
+        readonly i18n?: IPlayerI18n;
+        /**
+         * Сколько символов названия показывать на превью
+         */
+        readonly titleLength?: number;
+        /**
+         * Отражать выбранный элемент, время видео и страницу PDF в адресе: none - не отражать,
+         * hash - в хэше, query - в параметрах запроса
+         */
+        readonly deepLink?: 'none' | 'hash' | 'query';
+        /**
+         * Имя параметра адреса; по умолчанию используется атрибут id блока плеера, а без него - player, player2 и т. д.
+         */
+        readonly deepLinkKey?: string;
+        /**
+         * Режим редактирования: добавление элементов из файлов кнопкой, перетаскиванием и вставкой
+         */
+        readonly editable?: boolean;
+        /**
+         * Допустимые файлы в формате атрибута accept: MIME-типы, маски вида image/* и расширения
+         */
+        readonly accept?: string;
+        /**
+         * Загрузчик файлов добавленных элементов
+         */
+        readonly uploader?: IPlayerUploader;
+        /**
+         * Имя скрытых полей формы, в которых отражаются ссылки на ресурсы элементов
+         */
+        readonly formField?: string;
+        /**
+         * Расположение ленты превью: горизонтальная лента под блоком просмотра, вертикальная колонка сбоку,
+         * сетка из нескольких рядов, точки вместо превью или без ленты
+         */
+        readonly layout?: 'horizontal' | 'vertical' | 'grid' | 'dots' | 'hidden';
+        /**
+         * Количество рядов превью в сетке
+         */
+        readonly gridRows?: number;
+        /**
+         * Ширина превью (CSS-длина)
+         */
+        readonly thumbnailWidth?: string;
+        /**
+         * Высота превью (CSS-длина)
+         */
+        readonly thumbnailHeight?: string;
     }
     /**
-     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
+     * Загрузчик файла: сообщает прогресс (от 0 до 1) и возвращает ссылку на загруженный файл
+     * или поля элемента, заменяющие поля локального элемента
      */
-    class Player implements IPlayerOptions {
+    type IPlayerUploader = (file: File, progress: (fraction: number) => void) => Promise<string | Partial<IPlayerItem>>;
+    /**
+     * Тексты интерфейса плеера
+     */
+    interface IPlayerMessages {
+        /**
+         * Текст видео, если браузер не поддерживает видео
+         */
+        readonly videoUnavailable: string;
+        /**
+         * Текст аудио, если браузер не поддерживает аудио
+         */
+        readonly audioUnavailable: string;
+        /**
+         * Подпись кнопки увеличения изображения или документа
+         */
+        readonly zoomIn: string;
+        /**
+         * Подпись кнопки уменьшения изображения или документа
+         */
+        readonly zoomOut: string;
+        /**
+         * Подпись кнопки поворота изображения
+         */
+        readonly rotate: string;
+        /**
+         * Подпись кнопки сброса масштаба и поворота
+         */
+        readonly resetZoom: string;
+        /**
+         * Подпись кнопки открытия изображения во весь экран
+         */
+        readonly openLightbox: string;
+        /**
+         * Подпись кнопки перехода к предыдущей странице документа
+         */
+        readonly pdfPrev: string;
+        /**
+         * Подпись кнопки перехода к следующей странице документа
+         */
+        readonly pdfNext: string;
+        /**
+         * Подпись поля номера страницы документа
+         */
+        readonly pdfPage: string;
+        /**
+         * Подсказка в поле поиска по документу
+         */
+        readonly pdfSearch: string;
+        /**
+         * Подпись поля поиска по документу
+         */
+        readonly pdfSearchLabel: string;
+        /**
+         * Текст ошибки открытия документа
+         */
+        readonly pdfError: string;
+        /**
+         * Текст результата поиска по документу без совпадений
+         */
+        readonly pdfNotFound: string;
+        /**
+         * Текст документа, если браузер не может его показать
+         */
+        readonly documentUnavailable: string;
+        /**
+         * Текст ссылки на скачивание документа
+         */
+        readonly documentDownload: string;
+        /**
+         * Подпись индикатора загрузки
+         */
+        readonly loading: string;
+        /**
+         * Текст ошибки загрузки элемента
+         */
+        readonly loadError: string;
+        /**
+         * Текст кнопки повторной загрузки
+         */
+        readonly retry: string;
+        /**
+         * Текст пустого плеера, если не задан параметр empty
+         */
+        readonly empty: string;
+        /**
+         * Подпись кнопки воспроизведения
+         */
+        readonly play: string;
+        /**
+         * Подпись кнопки паузы
+         */
+        readonly pause: string;
+        /**
+         * Подпись ползунка перемотки
+         */
+        readonly seek: string;
+        /**
+         * Подпись кнопки выключения звука
+         */
+        readonly mute: string;
+        /**
+         * Подпись кнопки включения звука
+         */
+        readonly unmute: string;
+        /**
+         * Подпись ползунка громкости
+         */
+        readonly volume: string;
+        /**
+         * Подпись списка скорости воспроизведения
+         */
+        readonly playbackRate: string;
+        /**
+         * Подпись списка субтитров
+         */
+        readonly captions: string;
+        /**
+         * Пункт списка субтитров, отключающий их
+         */
+        readonly captionsOff: string;
+        /**
+         * Подпись списка качества потока
+         */
+        readonly quality: string;
+        /**
+         * Подпись списка звуковых дорожек
+         */
+        readonly audioTrack: string;
+        /**
+         * Обратный отсчет, параметры {seconds} и {title}
+         */
+        readonly autoplayNext: string;
+        /**
+         * Текст кнопки немедленного перехода к следующему элементу
+         */
+        readonly playNow: string;
+        /**
+         * Текст кнопки отмены обратного отсчета
+         */
+        readonly cancel: string;
+        /**
+         * Подпись кнопки перехода к предыдущему элементу
+         */
+        readonly previous: string;
+        /**
+         * Подпись кнопки перехода к следующему элементу
+         */
+        readonly next: string;
+        /**
+         * Подпись кнопки закрытия полноэкранного просмотра
+         */
+        readonly close: string;
+        /**
+         * Подпись кнопки полноэкранного режима
+         */
+        readonly fullscreen: string;
+        /**
+         * Подпись списка миниатюр
+         */
+        readonly itemList: string;
+        /**
+         * Сообщение о перемещении элемента, параметры {title}, {position} и {total}
+         */
+        readonly itemMoved: string;
+        /**
+         * Подсказка значка удаления, параметр {title}
+         */
+        readonly deleteItem: string;
+        /**
+         * Подпись кнопки добавления файлов в режиме редактирования
+         */
+        readonly addFiles: string;
+        /**
+         * Подпись индикатора загрузки файла, параметр {name}
+         */
+        readonly uploading: string;
+        /**
+         * Сообщение об ошибке загрузки файла, параметр {name}
+         */
+        readonly uploadError: string;
+    }
+    /**
+     * Локализация плеера
+     */
+    interface IPlayerI18n {
+        /**
+         * Локаль, например ru или en-US; по умолчанию берется из атрибута lang документа
+         */
+        readonly locale?: string;
+        /**
+         * Тексты, заменяющие тексты локали
+         */
+        readonly messages?: Partial<IPlayerMessages>;
+        /**
+         * Направление ленты превью: ltr, rtl или auto - по направлению текста блока плеера и локали
+         */
+        readonly direction?: 'ltr' | 'rtl' | 'auto';
+    }
+    /**
+     * Наблюдатель за размерами элементов (ResizeObserver)
+     */
+    interface IResizeObserver {
+        observe(target: Element): void;
+        unobserve(target: Element): void;
+        disconnect(): void;
+    }
+    /**
+     * Элемент плеера
+     */
+    interface IPlayerItem {
+        /**
+         * Путь к изображению превью
+         */
+        readonly thumbnail: string;
+        /**
+         * Путь к ресурсу, который представляет превью (видео, аудио, картинка или книга)
+         */
+        readonly src?: string;
+        /**
+         * Название ресурса
+         */
+        readonly title?: string;
+        /**
+         * Тип ресурса: имя рендерера, расширение файла или MIME-тип
+         */
+        readonly type?: string;
+        /**
+         * Имя поля, связанного с ресурсом
+         */
+        readonly name?: string;
+        /**
+         * Произвольные данные элемента
+         */
+        readonly meta?: {
+            [key: string]: any;
+        };
+        /**
+         * Субтитры видео
+         */
+        readonly tracks?: IPlayerTrack[];
+        /**
+         * Источники видео разного качества; если заданы, src можно не указывать
+         */
+        readonly sources?: IPlayerSource[];
+        /**
+         * Исполнитель аудио
+         */
+        readonly artist?: string;
+        /**
+         * Альбом аудио
+         */
+        readonly album?: string;
+        /**
+         * Готовая волновая форма аудио: пиковые значения столбцов от 0 до 1
+         */
+        readonly peaks?: number[];
+    }
+    /**
+     * Субтитры видео
+     */
+    interface IPlayerTrack {
+        /**
+         * Ссылка на файл субтитров в формате WebVTT или SRT
+         */
+        readonly src: string;
+        /**
+         * Код языка субтитров
+         */
+        readonly language: string;
+        /**
+         * Название субтитров
+         */
+        readonly label?: string;
+        /**
+         * Вид дорожки
+         */
+        readonly kind?: 'subtitles' | 'captions';
+        /**
+         * Формат файла, если его нельзя определить по расширению
+         */
+        readonly format?: 'vtt' | 'srt';
+    }
+    /**
+     * Источник видео
+     */
+    interface IPlayerSource {
+        /**
+         * Ссылка на видео
+         */
+        readonly src: string;
+        /**
+         * MIME-тип видео
+         */
+        readonly type?: string;
+        /**
+         * Метка качества, например 720p
+         */
+        readonly quality?: string;
+    }
+    /**
+     * Событие плеера
+     */
+    class PlayerEvent {
+        readonly type: string;
+        readonly playerId: string;
+        readonly item: HTMLSpanElement | null;
+        readonly index: number;
+        readonly cancelable: boolean;
+        /**
+         * Отменено ли действие по умолчанию
+         */
+        protected prevented: boolean;
+        /**
+         * Конструктор
+         *
+         * @param {string} type - тип события
+         * @param {string} playerId - уникальный идентификатор плеера
+         * @param {HTMLSpanElement | null} item - превью, к которому относится событие
+         * @param {number} index - индекс превью в плеере
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
+         */
+        constructor(type: string, playerId: string, item: HTMLSpanElement | null, index: number, cancelable?: boolean);
+        /**
+         * Отменено ли действие по умолчанию
+         *
+         * @returns {boolean}
+         */
+        readonly defaultPrevented: boolean;
+        /**
+         * Отменить действие по умолчанию
+         */
+        preventDefault(): void;
+    }
+    /**
+     * Событие удаления элемента
+     */
+    interface IPlayerDeleteEvent extends PlayerEvent {
+        /**
+         * Ссылка на удаленный ресурс
+         */
+        readonly src: string | undefined;
+        /**
+         * Имя поля, связанного с ресурсом
+         */
+        readonly field: string | undefined;
+    }
+    /**
+     * Событие прокрутки превью
+     */
+    interface IPlayerScrollEvent extends PlayerEvent {
+        /**
+         * Текущее смещение ленты превью
+         */
+        readonly scroll: number;
+    }
+    /**
+     * Событие ошибки загрузки ресурса
+     */
+    interface IPlayerMediaErrorEvent extends PlayerEvent {
+        /**
+         * Элемент блока просмотра, который не удалось загрузить
+         */
+        readonly element: HTMLElement;
+        /**
+         * Исходное событие ошибки
+         */
+        readonly error: Event;
+    }
+    /**
+     * Событие изменения порядка элементов
+     */
+    interface IPlayerReorderEvent extends PlayerEvent {
+        /**
+         * Прежний индекс перемещенного элемента
+         */
+        readonly from: number;
+        /**
+         * Новый порядок элементов: имена полей и ссылки на ресурсы
+         */
+        readonly order: Array<{
+            name: string | undefined;
+            src: string | undefined;
+        }>;
+    }
+    /**
+     * Событие изменения полноэкранного режима
+     */
+    interface IPlayerFullscreenEvent extends PlayerEvent {
+        /**
+         * Находится ли плеер в полноэкранном режиме
+         */
+        readonly fullscreen: boolean;
+        /**
+         * Имитируется ли полноэкранный режим стилями
+         */
+        readonly pseudo: boolean;
+    }
+    /**
+     * Действия Media Session API, которые обрабатывает плеер
+     * (объявлены здесь, так как типы Media Session есть не во всех версиях библиотеки DOM)
+     */
+    type MediaSessionAction = 'play' | 'pause' | 'previoustrack' | 'nexttrack' | 'seekto';
+    /**
+     * Событие загрузки файла элемента
+     */
+    interface IPlayerUploadEvent extends PlayerEvent {
+        /**
+         * Загружаемый файл
+         */
+        readonly file: File;
+        /**
+         * Ссылка на загруженный файл
+         */
+        readonly src?: string;
+        /**
+         * Ошибка загрузки
+         */
+        readonly error?: any;
+    }
+    /**
+     * Соответствие типов событий плеера и их объектов
+     */
+    interface IPlayerEventMap {
+        select: PlayerEvent;
+        beforeSelect: PlayerEvent;
+        add: PlayerEvent;
+        delete: IPlayerDeleteEvent;
+        scroll: IPlayerScrollEvent;
+        mediaError: IPlayerMediaErrorEvent;
+        empty: PlayerEvent;
+        load: PlayerEvent;
+        reorder: IPlayerReorderEvent;
+        fullscreenchange: IPlayerFullscreenEvent;
+        upload: IPlayerUploadEvent;
+        uploadError: IPlayerUploadEvent;
+    }
+    /**
+     * Интерфейс рендерера контента плеера
+     */
+    interface IRenderer {
+        /**
+         * Типы ресурсов, которые отображает рендерер: расширения файлов и MIME-типы (допускается маска вида video/*)
+         */
+        readonly types?: string[];
+        /**
+         * Получить ссылку на ресурс, который отображает превью
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {string}
+         */
+        source(curImage: HTMLSpanElement): string;
+        /**
+         * Создать элемент для отображения ресурса и добавить его в блок просмотра
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLElement | null;
+        /**
+         * Показать ранее созданный элемент
+         *
+         * @param {HTMLElement} element
+         */
+        show(element: HTMLElement): void;
+        /**
+         * Скрыть элемент
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element: HTMLElement): void;
+        /**
+         * Удалить элемент
+         *
+         * @param {HTMLElement} element
+         */
+        destroy(element: HTMLElement): void;
+        /**
+         * Отображает ли элемент ресурс с заданной ссылкой
+         *
+         * @param {HTMLElement} element
+         * @param {string} src - ссылка на ресурс
+         *
+         * @returns {boolean}
+         */
+        match(element: HTMLElement, src: string): boolean;
+        /**
+         * Заранее загрузить ресурс соседнего элемента. Если создан элемент блока просмотра,
+         * он возвращается и остается скрытым до выбора превью
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        preload?(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLElement | null;
+    }
+    /**
+     * Базовый рендерер: элементы показываются и скрываются через display и сопоставляются по атрибуту src
+     */
+    abstract class Renderer implements IRenderer {
+        readonly types: string[];
+        abstract create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLElement | null;
+        source(curImage: HTMLSpanElement): string;
+        show(element: HTMLElement): void;
+        hide(element: HTMLElement): void;
+        destroy(element: HTMLElement): void;
+        match(element: HTMLElement, src: string): boolean;
+    }
+    /**
+     * Адаптер потокового видео (HLS, DASH), например на основе Media Source Extensions
+     */
+    interface IMediaSourceAdapter {
+        /**
+         * Подключить поток к видео
+         *
+         * @param {HTMLVideoElement} video
+         * @param {string} src - ссылка на манифест
+         */
+        attach(video: HTMLVideoElement, src: string): void;
+        /**
+         * Отключить поток от видео и освободить ресурсы
+         *
+         * @param {HTMLVideoElement} video
+         */
+        detach(video: HTMLVideoElement): void;
+        /**
+         * Поддерживается ли адаптер браузером; если нет, используется встроенное воспроизведение
+         *
+         * @returns {boolean}
+         */
+        isSupported?(): boolean;
+    }
+    /**
+     * Рендеринг видео в плеере
+     */
+    class VideoRenderer extends Renderer {
+        readonly types: string[];
+        /**
+         * MIME-типы манифестов потокового видео по форматам
+         */
+        static readonly manifestTypes: {
+            [format: string]: string;
+        };
+        /**
+         * Адаптеры потокового видео по форматам манифестов
+         */
+        protected adapters: {
+            [format: string]: IMediaSourceAdapter;
+        };
+        /**
+         * Адаптеры, подключенные к видео
+         */
+        protected attached: WeakMap<HTMLVideoElement, IMediaSourceAdapter>;
+        /**
+         * Зарегистрировать адаптер потокового видео
+         *
+         * @param {string} format - формат манифеста: m3u8 или mpd
+         * @param {IMediaSourceAdapter} adapter - адаптер
+         */
+        registerAdapter(format: string, adapter: IMediaSourceAdapter): void;
+        /**
+         * Формат манифеста потокового видео по типу или расширению ссылки
+         *
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         *
+         * @returns {string} - m3u8, mpd или пустая строка, если это не манифест
+         */
+        static manifestFormat(src: string, type?: string): string;
+        /**
+         * Назначить видео ссылку: манифесты передаются зарегистрированному адаптеру,
+         * без адаптера или при его неподдержке браузером видео воспроизводится встроенными средствами
+         *
+         * @param {HTMLVideoElement} video
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         */
+        attach(video: HTMLVideoElement, src: string, type?: string): void;
+        /**
+         * Отключить от видео адаптер потокового видео
+         *
+         * @param {HTMLVideoElement} video
+         */
+        detach(video: HTMLVideoElement): void;
+        /**
+         * Создать видео
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLVideoElement | null;
+        /**
+         * Добавить видео источники, поставив первым источник выбранного качества
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerSource[]} sources - источники
+         * @param {string} quality - выбранное качество
+         */
+        static setSources(video: HTMLVideoElement, sources: IPlayerSource[], quality: string): void;
+        /**
+         * Качество источника, который воспроизводит видео
+         *
+         * @param {HTMLVideoElement} video
+         *
+         * @returns {string}
+         */
+        static getQuality(video: HTMLVideoElement): string;
+        /**
+         * Добавить субтитры; субтитры в формате SRT конвертируются в WebVTT
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerTrack} track - субтитры
+         */
+        static addTrack(video: HTMLVideoElement, track: IPlayerTrack): void;
+        /**
+         * Конвертировать субтитры из SRT в WebVTT
+         *
+         * @param {string} srt - субтитры в формате SRT
+         *
+         * @returns {string}
+         */
+        static srtToVtt(srt: string): string;
+        /**
+         * Видео сопоставляется по исходной ссылке, так как источники могут задаваться элементами source
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element: HTMLElement, src: string): boolean;
+        /**
+         * Скрытое видео ставится на паузу
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element: HTMLElement): void;
+        /**
+         * Для соседнего видео заранее создается элемент, который загружает только метаданные (preload=metadata)
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        preload(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLVideoElement | null;
+        /**
+         * При удалении видео отключается адаптер потокового видео и освобождаются сконвертированные субтитры
+         *
+         * @param {HTMLElement} element
+         */
+        destroy(element: HTMLElement): void;
+    }
+    /**
+     * Масштабирование, перемещение и поворот изображения
+     */
+    class ImageZoom {
+        readonly image: HTMLImageElement;
+        /**
+         * Максимальный масштаб
+         */
+        static maxScale: number;
+        /**
+         * Шаг масштабирования кнопками и колесом мыши
+         */
+        static scaleStep: number;
+        /**
+         * Экземпляры по изображениям
+         */
+        protected static instances: WeakMap<HTMLImageElement, ImageZoom>;
+        scale: number;
+        x: number;
+        y: number;
+        rotation: number;
+        /**
+         * Перемещалось ли изображение с момента последнего нажатия
+         */
+        moved: boolean;
+        /**
+         * Нажатые указатели
+         */
+        protected pointers: Map<number, {
+            x: number;
+            y: number;
+        }>;
+        /**
+         * Время последнего касания для определения двойного касания
+         */
+        protected lastTap: number;
+        /**
+         * Экземпляр, управляющий изображением
+         *
+         * @param {HTMLImageElement} image
+         *
+         * @returns {ImageZoom | undefined}
+         */
+        static get(image: HTMLImageElement): ImageZoom | undefined;
+        /**
+         * @param {HTMLImageElement} image - изображение
+         */
+        constructor(image: HTMLImageElement);
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб
+         * @param {number} clientX - горизонтальная координата точки, остающейся на месте
+         * @param {number} clientY - вертикальная координата точки, остающейся на месте
+         */
+        zoom(scale: number, clientX?: number, clientY?: number): void;
+        /**
+         * Повернуть изображение
+         *
+         * @param {number} angle - угол в градусах
+         */
+        rotate(angle?: number): void;
+        /**
+         * Вернуть исходные масштаб, положение и поворот
+         */
+        reset(): void;
+        /**
+         * Применить преобразования к изображению
+         */
+        protected apply(): void;
+    }
+    /**
+     * Способ просмотра изображений
+     */
+    interface IImageViewer {
+        /**
+         * Создать элемент просмотра изображения
+         *
+         * @param {string} src - ссылка на изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src: string, player: Player): HTMLElement;
+    }
+    /**
+     * Встроенный просмотр изображений с масштабированием, перемещением, поворотом и открытием в лайтбоксе
+     */
+    class NativeImageViewer implements IImageViewer {
+        create(src: string, player: Player): HTMLElement;
+    }
+    /**
+     * Просмотр изображений средствами Materialize (Materialbox)
+     */
+    class MaterializeImageViewer implements IImageViewer {
+        create(src: string): HTMLElement;
+    }
+    /**
+     * Рендеринг изображений в плеере
+     */
+    class ImageRenderer extends Renderer {
+        readonly types: string[];
+        /**
+         * Полноразмерное изображение (data-object-src), если его нет - само превью
+         *
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {string}
+         */
+        source(curImage: HTMLSpanElement): string;
+        /**
+         * Способы просмотра изображений по именам
+         */
+        protected viewers: {
+            [name: string]: IImageViewer;
+        };
+        /**
+         * Зарегистрировать способ просмотра изображений
+         *
+         * @param {string} name - имя, указываемое в опции imageViewer плеера
+         * @param {IImageViewer} viewer - способ просмотра
+         */
+        registerViewer(name: string, viewer: IImageViewer): void;
+        /**
+         * Создать изображение
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLElement | null;
+        /**
+         * Изображение сопоставляется по исходной ссылке, так как просмотр может оборачивать его в блок
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element: HTMLElement, src: string): boolean;
+        /**
+         * Соседнее изображение загружается и декодируется заранее без создания элемента блока просмотра
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {null}
+         */
+        preload(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement): null;
+        /**
+         * При скрытии изображения сбрасывается его масштаб
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element: HTMLElement): void;
+    }
+    /**
+     * Просмотрщик документов определенного формата
+     */
+    interface IDocumentViewer {
+        /**
+         * Создать элемент просмотра документа
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(src: string, type: string, player: Player): HTMLElement | null;
+    }
+    /**
+     * Просмотр PDF-документа на canvas с навигацией по страницам, масштабированием и поиском.
+     * Использует библиотеку PDF.js (window.pdfjsLib). О загрузке документа блок сообщает событиями load и error
+     */
+    class PdfDocument {
+        readonly src: string;
+        protected readonly messages: IPlayerMessages;
+        /**
+         * Документы, привязанные к своим элементам
+         */
+        protected static instances: WeakMap<HTMLElement, PdfDocument>;
+        /**
+         * Получить документ по его элементу
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {PdfDocument | null}
+         */
+        static get(element: HTMLElement): PdfDocument | null;
+        /**
+         * Шаг изменения масштаба
+         */
+        zoomStep: number;
+        /**
+         * Блок просмотра документа
+         */
+        readonly element: HTMLDivElement;
+        protected canvas: HTMLCanvasElement;
+        protected pageInput: HTMLInputElement;
+        protected pagesLabel: HTMLSpanElement;
+        protected zoomLabel: HTMLSpanElement;
+        protected status: HTMLSpanElement;
+        /**
+         * Загруженный документ PDF.js
+         */
+        protected document: any;
+        /**
+         * Текущая задача отрисовки страницы PDF.js
+         */
+        protected renderTask: any;
+        /**
+         * Текст страниц для поиска
+         */
+        protected texts: {
+            [page: number]: Promise<string>;
+        };
+        protected currentPage: number;
+        protected scale: number;
+        /**
+         * Конструктор
+         *
+         * @param {string} src - ссылка на документ
+         * @param pdfjs - библиотека PDF.js
+         * @param {IPlayerMessages} messages - тексты интерфейса
+         */
+        constructor(src: string, pdfjs: any, messages?: IPlayerMessages);
+        /**
+         * Текущая страница
+         *
+         * @returns {number}
+         */
+        readonly page: number;
+        /**
+         * Количество страниц документа, 0 - пока документ не загружен
+         *
+         * @returns {number}
+         */
+        readonly pages: number;
+        /**
+         * Перейти к странице
+         *
+         * @param {number} page - номер страницы
+         */
+        goTo(page: number): void;
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб, 1 - исходный размер
+         */
+        zoom(scale: number): void;
+        /**
+         * Найти текст в документе начиная со следующей страницы и перейти к найденной странице
+         *
+         * @param {string} text - искомый текст
+         *
+         * @returns {Promise<number>} - номер найденной страницы или 0
+         */
+        search(text: string): Promise<number>;
+        /**
+         * Получить текст страницы
+         *
+         * @param {number} page - номер страницы
+         *
+         * @returns {Promise<string>}
+         */
+        protected getText(page: number): Promise<string>;
+        /**
+         * Отрисовать текущую страницу
+         */
+        protected render(): void;
+    }
+    /**
+     * Просмотр PDF: на canvas, если подключен PDF.js, иначе встроенным просмотрщиком браузера
+     */
+    class PdfViewer implements IDocumentViewer {
+        /**
+         * Создать элемент просмотра PDF
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src: string, type: string, player: Player): HTMLElement;
+    }
+    /**
+     * Просмотр документов через собственный сервис конвертации (см. опцию плеера documentConverter).
+     * Если сервис не настроен, вместо документа показывается ссылка на его скачивание
+     */
+    class ConverterViewer implements IDocumentViewer {
+        /**
+         * Создать элемент просмотра документа
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src: string, type: string, player: Player): HTMLElement;
+    }
+    /**
+     * Рендеринг книг в плеере
+     */
+    class BookRenderer extends Renderer {
+        readonly types: string[];
+        /**
+         * Просмотрщики документов по форматам
+         */
+        protected viewers: {
+            [type: string]: IDocumentViewer;
+        };
+        /**
+         * Просмотрщик для форматов без собственного просмотрщика
+         */
+        protected defaultViewer: IDocumentViewer;
+        /**
+         * Зарегистрировать просмотрщик формата документов
+         *
+         * @param {string} type - формат документа (расширение файла)
+         * @param {IDocumentViewer} viewer - просмотрщик
+         */
+        registerViewer(type: string, viewer: IDocumentViewer): void;
+        /**
+         * Элемент сопоставляется по исходной ссылке на документ, а не по адресу просмотрщика
+         *
+         * @param {HTMLElement} element
+         * @param {string} src - ссылка на документ
+         *
+         * @returns {boolean}
+         */
+        match(element: HTMLElement, src: string): boolean;
+        /**
+         * Создать блок просмотра книги
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLElement | null;
+    }
+    /**
+     * Рендеринг аудио в плеере: обложка из превью, волновая форма и аудиоэлемент
+     */
+    class AudioRenderer extends Renderer {
+        readonly types: string[];
+        /**
+         * Количество столбцов волновой формы
+         */
+        static waveformBars: number;
+        /**
+         * Цвета волновой формы: воспроизведенная и оставшаяся части
+         */
+        static waveformColors: {
+            played: string;
+            rest: string;
+        };
+        /**
+         * Наибольший размер файла в байтах, который декодируется для построения волновой формы.
+         * Декодированное аудио занимает в памяти во много раз больше исходного файла
+         */
+        static waveformMaxBytes: number;
+        /**
+         * Вычисленные волновые формы по ссылкам на аудио
+         */
+        protected static peaks: Map<string, Promise<number[]>>;
+        /**
+         * Построения волновых форм, отложенные до показа заранее созданного блока аудио
+         */
+        protected pendingWaveforms: WeakMap<HTMLElement, () => void>;
+        /**
+         * Получить волновую форму аудио: пиковые значения столбцов от 0 до 1.
+         * Аудио загружается и декодируется через Web Audio API один раз для каждой ссылки.
+         * Файлы больше waveformMaxBytes, а также файлы неизвестного размера не загружаются
+         *
+         * @param {string} src - ссылка на аудио
+         * @param {number} size - размер файла, если он известен заранее (иначе берется из Content-Length)
+         *
+         * @returns {Promise<number[]>}
+         */
+        static waveform(src: string, size?: number): Promise<number[]>;
+        /**
+         * Пиковые значения столбцов по всем каналам, нормированные к наибольшему
+         *
+         * @param {AudioBuffer} buffer - декодированное аудио
+         * @param {number} bars - количество столбцов
+         *
+         * @returns {number[]}
+         */
+        protected static computePeaks(buffer: AudioBuffer, bars: number): number[];
+        /**
+         * Нарисовать волновую форму
+         *
+         * @param {HTMLCanvasElement} canvas - холст
+         * @param {number[]} peaks - пиковые значения столбцов
+         * @param {number} progress - воспроизведенная доля от 0 до 1
+         */
+        static drawWaveform(canvas: HTMLCanvasElement, peaks: number[], progress?: number): void;
+        /**
+         * Аудио сопоставляется по исходной ссылке, так как элемент блока просмотра - обертка аудиоэлемента
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element: HTMLElement, src: string): boolean;
+        /**
+         * Создать блок аудио
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        create(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLDivElement | null;
+        /**
+         * Создать блок аудио: обложку, холст волновой формы и аудиоэлемент. Построение волновой формы
+         * откладывается до показа блока
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        protected build(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLDivElement | null;
+        /**
+         * Построить отложенную волновую форму блока аудио
+         *
+         * @param {HTMLElement} element - блок аудио
+         */
+        protected loadWaveform(element: HTMLElement): void;
+        /**
+         * Отображать на волновой форме прогресс и перематывать аудио кликом по ней.
+         * Волновая форма берется из элемента (peaks) или, если включена опция плеера waveform, строится
+         * декодированием аудио при показе блока. Без нее, а также если аудио не удалось декодировать
+         * (слишком большой файл, CORS), волновая форма скрывается
+         *
+         * @param {HTMLDivElement} wrapper - блок аудио
+         * @param {HTMLAudioElement} audio - аудиоэлемент
+         * @param {number[] | null} initial - готовые пиковые значения
+         * @param {boolean} decode - строить ли волновую форму декодированием аудио
+         */
+        protected setWaveform(wrapper: HTMLDivElement, audio: HTMLAudioElement, initial: number[] | null, decode: boolean): void;
+        /**
+         * При показе заранее созданного блока строится его волновая форма
+         *
+         * @param {HTMLElement} element
+         */
+        show(element: HTMLElement): void;
+        /**
+         * Скрытое аудио ставится на паузу, кроме заранее запущенного для перехода без паузы (класс gapless)
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element: HTMLElement): void;
+        /**
+         * Для соседнего аудио заранее создается блок, который загружает только метаданные (preload=metadata);
+         * волновая форма строится, только когда блок будет показан
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        preload(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, player: Player): HTMLDivElement | null;
+    }
+    /**
+     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
+     * Тип каждого элемента определяется отдельно, поэтому в одном плеере можно смешивать разные типы.
+     */
+    class Player implements IPlayerOptions {
+        /**
+         * Зарегистрированные рендереры
+         *
+         * @type {Object<string, IRenderer>}
+         */
+        protected static renderers: {
+            [name: string]: IRenderer;
+        };
+        /**
+         * Зарегистрировать рендерер.
+         * Плеер использует рендерер, если у блока плеера есть класс с именем рендерера
+         *
+         * @param {string} name - имя рендерера
+         * @param {IRenderer} renderer - рендерер
+         */
+        static registerRenderer(name: string, renderer: IRenderer): void;
+        /**
+         * Получить зарегистрированный рендерер
+         *
+         * @param {string} name - имя рендерера
+         *
+         * @returns {IRenderer | null}
+         */
+        static getRenderer(name: string): IRenderer | null;
+        /**
+         * Найти рендерер, отображающий ресурсы заданного типа
+         *
+         * @param {string} type - расширение файла или MIME-тип
+         *
+         * @returns {string} - имя рендерера или пустая строка
+         */
+        static findRenderer(type: string): string;
+        /**
+         * Начало рендеринга: скрыть всё, что отображалось ранее
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {HTMLSpanElement[]} images - все превью плеера
+         */
+        protected static renderInit(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, images: HTMLSpanElement[]): void;
+        /**
+         * Параметры конфигурации по умолчанию
+         *
+         * @type {IPlayerOptions}
+         */
+        static defaultOptions: IPlayerOptions;
+        /**
+         * Скорости воспроизведения, доступные на панели управления видео
+         *
+         * @type {number[]}
+         */
+        static playbackRates: number[];
+        /**
+         * Тексты интерфейса по языкам
+         */
+        static messages: {
+            [language: string]: IPlayerMessages;
+        };
+        /**
+         * Языки с письмом справа налево
+         */
+        static rtlLanguages: string[];
+        /**
+         * Обрезать текст до заданного числа символов, не разрывая составные символы (эмодзи, буквы с диакритикой)
+         *
+         * @param {string} text - текст
+         * @param {number} length - максимальное число символов
+         * @param {string} locale - локаль
+         *
+         * @returns {string}
+         */
+        static truncate(text: string, length: number, locale?: string): string;
+        /**
+         * Текст интерфейса с подставленными параметрами
+         *
+         * @param {string} key - ключ текста
+         * @param {Object} params - параметры вида {name}
+         *
+         * @returns {string}
+         */
+        t(key: keyof IPlayerMessages, params?: {
+            [name: string]: string | number;
+        }): string;
+        /**
+         * Форматировать время воспроизведения
+         *
+         * @param {number} time - время в секундах
+         *
+         * @returns {string}
+         */
+        protected static formatTime(time: number): string;
+        /**
+         * Где хранятся стили плеера
+         */
+        readonly styleFilePath: string;
+        /**
+         * Выбирать ли первый элемент после загрузки
+         */
+        readonly activate: boolean;
+        readonly mainWrapperClass: string;
+        readonly imageWrapperClass: string;
+        readonly scrollButtonsWidth: number;
+        readonly scrollButtonsPadding: number;
+        readonly imageStopClass: string;
+        readonly loop: boolean;
+        readonly swipe: boolean;
+        readonly dragThreshold: number;
+        readonly swipeThreshold: number;
+        readonly dragInertia: number;
+        readonly reorderable: boolean;
+        readonly reorderDelay: number;
+        readonly documentConverter: string | ((src: string, type: string) => string | null);
+        readonly videoControls: 'native' | 'custom';
+        continuous: boolean;
+        autoplayCountdown: number;
+        repeat: 'none' | 'all' | 'one';
+        shuffle: boolean;
+        resume: boolean;
+        gapless: boolean;
+        readonly mediaSession: boolean;
+        readonly waveform: boolean;
+        readonly imageViewer: string;
+        readonly lazyThumbnails: boolean;
+        preload: number;
+        cacheSize: number;
+        loadTimeout: number;
+        readonly emptyTemplate: string;
+        readonly observe: boolean;
+        readonly i18n: IPlayerI18n;
+        readonly titleLength: number;
+        /**
+         * Локаль плеера
+         */
+        readonly locale: string;
+        /**
+         * Тексты интерфейса плеера
+         */
+        readonly messages: IPlayerMessages;
+        /**
+         * Располагается ли лента превью справа налево
+         */
+        readonly rtl: boolean;
+        readonly deepLink: 'none' | 'hash' | 'query';
+        readonly deepLinkKey: string;
+        /**
+         * Состояние из адреса, которое применяется при первой загрузке элементов
+         */
+        protected linkState: {
+            item: string;
+            time: number;
+            page: number;
+        } | null;
+        readonly editable: boolean;
+        readonly accept: string;
+        uploader?: IPlayerUploader;
+        readonly formField: string;
+        readonly layout: 'horizontal' | 'vertical' | 'grid' | 'dots' | 'hidden';
+        readonly gridRows: number;
+        readonly thumbnailWidth: string;
+        readonly thumbnailHeight: string;
+        /**
+         * Блок точек для расположения dots
+         */
+        protected dotsElement: HTMLElement | null;
+        /**
+         * Блок с кнопкой добавления файлов
+         */
+        protected editorElement: HTMLDivElement | null;
+        /**
+         * Блок скрытых полей формы
+         */
+        protected fieldsElement: HTMLDivElement | null;
+        /**
+         * Локальные ссылки на файлы добавленных элементов
+         */
+        protected objectUrls: WeakMap<HTMLSpanElement, string>;
+        /**
+         * Наблюдатель за изображениями разметки
+         */
+        protected mutationObserver: MutationObserver | null;
+        /**
+         * Элементы плеера по изображениям разметки в режиме наблюдения
+         */
+        protected sourceImages: Map<HTMLImageElement, HTMLSpanElement>;
+        /**
+         * Таймеры ожидания загрузки фреймов; при уничтожении плеера сбрасываются
+         */
+        protected loadTimers: Map<HTMLElement, number>;
+        /**
+         * Наблюдатель за появлением превью в ленте для их отложенной загрузки
+         */
+        protected thumbnailObserver: IntersectionObserver | null;
+        /**
+         * Элементы блока просмотра в порядке последнего использования
+         */
+        protected recentElements: HTMLElement[];
+        /**
+         * Сохраненные позиции воспроизведения элементов
+         */
+        protected playbackPositions: WeakMap<HTMLSpanElement, number>;
+        /**
+         * Элементы, еще не воспроизведенные в текущем круге случайного порядка; null - круг не начат
+         */
+        protected shuffleQueue: HTMLSpanElement[] | null;
+        /**
+         * Таймер обратного отсчета перед переходом к следующему элементу
+         */
+        protected autoplayTimer: number;
+        /**
+         * Блок обратного отсчета
+         */
+        protected autoplayOverlay: HTMLDivElement | null;
+        /**
+         * За сколько секунд до конца аудио начинать загрузку следующего (опция gapless)
+         */
+        static audioPrimeLead: number;
+        /**
+         * За сколько секунд до конца аудио планировать запуск следующего
+         */
+        static gaplessLead: number;
+        /**
+         * Превью аудио, которое заранее загружается для перехода после текущего
+         */
+        protected primedItem: HTMLSpanElement | null;
+        /**
+         * Блок заранее загружаемого аудио; пока он запущен к концу текущего, у него есть класс gapless
+         */
+        protected primedElement: HTMLElement | null;
+        /**
+         * Таймер запуска заранее загруженного аудио
+         */
+        protected gaplessTimer: number;
+        /**
+         * Собственная панель управления видео
+         */
+        readonly controls: HTMLDivElement | null;
+        /**
+         * Отображаемый элемент блока просмотра
+         */
+        protected currentElement: HTMLElement | null;
+        /**
+         * Громкость и скорость воспроизведения, общие для всех элементов плеера
+         */
+        protected mediaState: {
+            volume: number;
+            muted: boolean;
+            playbackRate: number;
+            captionLanguage: string;
+            quality: string;
+            audioLanguage: string;
+        };
+        /**
+         * Блок выбора субтитров, качества и звуковой дорожки
+         */
+        readonly mediaOptions: HTMLDivElement;
+        readonly animationDuration: number;
+        /**
+         * Уникальный идентификатор плеера
+         */
+        protected readonly uniq: string;
+        /**
+         * Блок просмотра
+         */
+        readonly mainWrapper: HTMLDivElement;
+        /**
+         * Блок превью
+         */
+        readonly imageWrapper: HTMLDivElement;
+        /**
+         * Лента превью, которая сдвигается внутри блока превью
+         */
+        readonly track: HTMLDivElement;
+        /**
+         * Область для озвучивания выбранного элемента экранными дикторами
+         */
+        readonly statusElement: HTMLDivElement;
+        /**
+         * Тип плеера - имя рендерера по умолчанию
+         */
+        protected type: string;
+        /**
+         * На каком элементе загружается плеер
+         */
+        readonly element: HTMLElement;
+        readonly emptyPlayerImage: HTMLImageElement | null;
+        /**
+         * Блок, отображаемый в пустом плеере
+         */
+        readonly emptyElement: HTMLDivElement;
+        /**
+         * Блок ошибки загрузки текущего элемента
+         */
+        readonly errorElement: HTMLDivElement;
+        readonly playerElement: HTMLElement;
+        /**
+         * Текущее смещение ленты превью
+         */
+        protected prevScroll: number;
+        /**
+         * Смещения превью в ленте, последний элемент - общая ширина ленты
+         */
+        protected offsets: number[];
+        /**
+         * Измеренные ширины превью
+         */
+        protected itemSizes: WeakMap<HTMLSpanElement, number>;
+        /**
+         * Ширина еще не измеренного превью
+         */
+        protected estimatedSize: number;
+        /**
+         * Наблюдатель за размерами ленты и превью
+         */
+        protected resizeObserver: IResizeObserver | null;
+        /**
+         * Таймер отрисовки ленты после окончания анимации
+         */
+        protected stripTimer: number;
+        protected images: HTMLSpanElement[];
+        /**
+         * Данные элементов плеера
+         */
+        protected itemsData: WeakMap<HTMLSpanElement, IPlayerItem>;
+        protected position: number;
+        protected fullscreenButtonAdded: boolean;
+        /**
+         * Находился ли плеер в полноэкранном режиме при последней проверке
+         */
+        protected fullscreenActive: boolean;
+        /**
+         * Была ли лента превью только что перетащена (чтобы не срабатывал клик по превью)
+         */
+        protected dragged: boolean;
+        /**
+         * Перетаскивается ли превью для изменения порядка элементов
+         */
+        protected reordering: boolean;
+        /**
+         * Обработчики событий плеера
+         */
+        protected listeners: {
+            [type: string]: Array<(event: PlayerEvent) => void>;
+        };
+        /**
+         * Плееры по элементам, на которых они загружены
+         */
+        protected static instances: WeakMap<HTMLElement, Player>;
+        /**
+         * Количество плееров с синхронизацией адреса, у блоков которых нет id и не задана опция deepLinkKey
+         */
+        protected static unnamedLinks: number;
+        /**
+         * Имя параметра адреса для плеера без id: player, player2, player3 и т. д. в порядке создания
+         *
+         * @returns {string}
+         */
+        protected static unnamedLinkKey(): string;
+        /**
+         * Функции, снимающие обработчики событий документа и окна
+         */
+        protected cleanups: Array<() => void>;
+        /**
+         * Изображения разметки, убранные плеером, и их исходные места
+         */
+        protected detachedMarkup: Array<{
+            image: HTMLImageElement;
+            parent: Node;
+            next: Node | null;
+        }>;
+        /**
+         * Был ли у элемента класс player до загрузки плеера
+         */
+        protected hadPlayerClass: boolean;
+        /**
+         * Уничтожен ли плеер
+         */
+        destroyed: boolean;
+        /**
+         * Плеер, загруженный на элементе
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {Player | null}
+         */
+        static getInstance(element: HTMLElement): Player | null;
+        /**
+         * Загрузить плееры на всех элементах с атрибутом data-player внутри root.
+         * Значение атрибута может содержать JSON с опциями плеера; элементы с некорректным JSON пропускаются,
+         * уже загруженные плееры не создаются повторно
+         *
+         * @param {ParentNode} root - где искать элементы
+         * @param {IPlayerOptions} cnf - объект конфигурации по умолчанию
+         *
+         * @returns {Player[]}
+         */
+        static autoInit(root?: ParentNode, cnf?: IPlayerOptions): Player[];
+        /**
+         * Добавить обработчик события, который будет снят при уничтожении плеера
+         *
+         * @param {EventTarget} target - цель события
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         */
+        protected listen(target: EventTarget, type: string, listener: (event: any) => void): void;
+        /**
+         * Убрать изображение разметки, запомнив его место для восстановления при уничтожении плеера
+         *
+         * @param {HTMLImageElement} image
+         */
+        protected detachMarkup(image: HTMLImageElement): void;
+        /**
+         * Уничтожить плеер: снять обработчики, удалить созданные элементы и медиа, восстановить исходную разметку
+         */
+        destroy(): void;
+        /**
+         * Идет ли пересборка плеера
+         */
+        protected updating: boolean;
+        /**
+         * Добавить обработчик события плеера
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        on<K extends keyof IPlayerEventMap>(type: K, listener: (event: IPlayerEventMap[K]) => void): this;
+        /**
+         * Удалить обработчик события плеера. Без обработчика удаляются все обработчики события
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        off<K extends keyof IPlayerEventMap>(type: K, listener?: (event: IPlayerEventMap[K]) => void): this;
+        /**
+         * Добавить обработчик, который сработает один раз
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        once<K extends keyof IPlayerEventMap>(type: K, listener: (event: IPlayerEventMap[K]) => void): this;
+        /**
+         * Сгенерировать событие плеера.
+         * Кроме обработчиков плеера событие отправляется в DOM на блок плеера с именем вида playerSelect
+         *
+         * @param {string} type - тип события
+         * @param {HTMLSpanElement | null} item - превью
+         * @param {number} index - индекс превью
+         * @param {Object} data - дополнительные данные события
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
+         *
+         * @returns {boolean} - false, если действие по умолчанию было отменено
+         */
+        protected emit(type: keyof IPlayerEventMap, item: HTMLSpanElement | null, index: number, data?: object, cancelable?: boolean): boolean;
+        /**
+         * Показать заглушку и сообщить об опустевшем плеере
+         */
+        protected checkEmpty(): void;
+        /**
+         * Выбрать рендерер по умолчанию по классу блока плеера
+         */
+        protected setRender(): void;
+        /**
+         * Выбрать рендерер для превью: по атрибуту data-type (имя рендерера, расширение или MIME-тип),
+         * затем по расширению файла ресурса, иначе используется рендерер плеера по умолчанию
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {string}
+         */
+        protected resolveRenderer(curImage: HTMLSpanElement): string;
+        /**
+         * Элементы блока просмотра, созданные рендерером
+         *
+         * @param {string} name - имя рендерера, без него возвращаются элементы всех рендереров
+         *
+         * @returns {HTMLElement[]}
+         */
+        protected getRendered(name?: string): HTMLElement[];
+        /**
+         * Отобразить ресурс превью в блоке просмотра
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected render(curImage: HTMLSpanElement): HTMLElement | null;
+        /**
+         * Подготовить созданный рендерером элемент блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} name - имя рендерера
+         */
+        protected registerElement(element: HTMLElement, curImage: HTMLSpanElement, name: string): void;
+        /**
+         * Загружаемая часть элемента блока просмотра: изображение, медиа-элемент или фрейм
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected static loadable(element: HTMLElement): HTMLElement | null;
+        /**
+         * Отслеживать загрузку элемента блока просмотра: пока он загружается, показывается индикатор загрузки,
+         * фрейм, не загрузившийся за loadTimeout, считается ошибкой, а документ PDF.js ждет событий load или error
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        protected watchLoading(element: HTMLElement, curImage: HTMLSpanElement): void;
+        /**
+         * Установить состояние загрузки элемента блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} state - loading, ready или error
+         */
+        protected setLoadState(element: HTMLElement, curImage: HTMLSpanElement, state: 'loading' | 'ready' | 'error'): void;
+        /**
+         * Отметить текущий элемент как недоступный, если рендерер не смог его отобразить
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        protected setFailed(curImage: HTMLSpanElement): void;
+        /**
+         * Показать индикатор загрузки или блок ошибки блока просмотра
+         *
+         * @param {string} state - loading, ready или error
+         */
+        protected showState(state: string): void;
+        /**
+         * Повторить загрузку текущего элемента
+         *
+         * @returns {HTMLElement | null}
+         */
+        retry(): HTMLElement | null;
+        /**
+         * Создать блок пустого плеера
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createEmptyState(): HTMLDivElement;
+        /**
+         * Создать индикатор загрузки и блок ошибки загрузки
+         *
+         * @returns {HTMLDivElement} - блок ошибки
+         */
+        protected createErrorState(): HTMLDivElement;
+        /**
+         * Отметить элемент блока просмотра как использованный последним
+         *
+         * @param {HTMLElement} element
+         */
+        protected touchElement(element: HTMLElement): void;
+        /**
+         * Заранее загрузить ресурсы соседних элементов
+         *
+         * @param {number} index - индекс выбранного элемента
+         */
+        protected preloadAround(index: number): void;
+        /**
+         * Заранее загрузить ресурс элемента средствами его рендерера
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null} - созданный или уже существующий элемент блока просмотра
+         */
+        protected preloadItem(curImage: HTMLSpanElement): HTMLElement | null;
+        /**
+         * Удалить давно показанные элементы блока просмотра сверх размера кэша.
+         * Текущий элемент и заранее загруженные соседи удаляются последними
+         */
+        protected evict(): void;
+        /**
+         * Загрузить изображение превью
+         *
+         * @param {HTMLSpanElement} image - превью
+         */
+        protected loadThumbnail(image: HTMLSpanElement): void;
+        /**
+         * Отложенная загрузка превью при их приближении к видимой части ленты
+         */
+        protected setLazyThumbnails(): void;
+        /**
+         * Запомнить отображаемый элемент блока просмотра
+         *
+         * @param {HTMLElement | null} element
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected setCurrentElement(element: HTMLElement | null): HTMLElement | null;
+        /**
+         * Следить за состоянием медиа-элемента
+         *
+         * @param {HTMLElement} element
+         */
+        protected bindMedia(element: HTMLElement): void;
+        /**
+         * Применить к медиа-элементу громкость и скорость, общие для всего плеера
+         *
+         * @param {HTMLMediaElement} media
+         */
+        protected applyMediaState(media: HTMLMediaElement): void;
+        /**
+         * Отображаемый медиа-элемент (видео или аудио)
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        readonly media: HTMLMediaElement | null;
+        /**
+         * Медиа-элемент элемента блока просмотра: сам элемент или вложенное видео или аудио
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        protected static mediaOf(element: HTMLElement): HTMLMediaElement | null;
+        /**
+         * Начать воспроизведение
+         *
+         * @returns {Promise<void>}
+         */
+        play(): Promise<void>;
+        /**
+         * Приостановить воспроизведение
+         */
+        pause(): void;
+        /**
+         * Перейти к моменту воспроизведения
+         *
+         * @param {number} time - время в секундах
+         */
+        seek(time: number): void;
+        /**
+         * Установить громкость для всех элементов плеера
+         *
+         * @param {number} volume - громкость от 0 до 1
+         */
+        setVolume(volume: number): void;
+        /**
+         * Включить или выключить звук для всех элементов плеера
+         *
+         * @param {boolean} muted
+         */
+        setMuted(muted: boolean): void;
+        /**
+         * Установить скорость воспроизведения для всех элементов плеера
+         *
+         * @param {number} rate - скорость, 1 - обычная
+         */
+        setPlaybackRate(rate: number): void;
+        /**
+         * Создать панель управления видео
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createControls(): HTMLDivElement;
+        /**
+         * Создать блок выбора субтитров, качества и звуковой дорожки
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createMediaOptions(): HTMLDivElement;
+        /**
+         * Заполнить список выбора
+         *
+         * @param {HTMLSelectElement} select
+         * @param {Array<{value : string, label : string}>} choices - варианты
+         * @param {string} value - выбранное значение
+         */
+        protected static fillSelect(select: HTMLSelectElement, choices: Array<{
+            value: string;
+            label: string;
+        }>, value: string): void;
+        /**
+         * Обновить блок выбора субтитров, качества и звуковой дорожки для текущего видео
+         */
+        protected updateMediaOptions(): void;
+        /**
+         * Включить субтитры на заданном языке для всех видео плеера
+         *
+         * @param {string} language - код языка, пустая строка - без субтитров
+         */
+        setCaptionLanguage(language: string): void;
+        /**
+         * Выбрать качество видео для всех видео плеера
+         *
+         * @param {string} quality - метка качества источника, например 720p
+         */
+        setQuality(quality: string): void;
+        /**
+         * Выбрать язык звуковой дорожки для всех видео плеера
+         *
+         * @param {string} language - код языка
+         */
+        setAudioLanguage(language: string): void;
+        /**
+         * Выбранное качество видео
+         *
+         * @returns {string}
+         */
+        readonly quality: string;
+        /**
+         * Обновить панель управления видео
+         */
+        protected updateControls(): void;
+        /**
+         * Запомнить позицию воспроизведения элемента, чтобы продолжить с нее при возврате
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        protected savePosition(item: HTMLSpanElement, media: HTMLMediaElement): void;
+        /**
+         * Продолжить воспроизведение элемента с сохраненной позиции
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        protected restorePosition(item: HTMLSpanElement, media: HTMLMediaElement): void;
+        /**
+         * Перемотать медиа-элемент, как только станет известна его длительность
+         *
+         * @param {HTMLMediaElement} media
+         * @param {number} time - время в секундах
+         */
+        protected static seekWhenReady(media: HTMLMediaElement, time: number): void;
+        /**
+         * Индекс элемента, который воспроизводится после текущего в непрерывном режиме
+         *
+         * @returns {number} - индекс или -1, если воспроизведение нужно остановить
+         */
+        protected nextPlaybackIndex(): number;
+        /**
+         * Перемешать элементы массива
+         *
+         * @param {Array} items - элементы
+         *
+         * @returns {Array} - новый массив в случайном порядке
+         */
+        protected static shuffled<T>(items: T[]): T[];
+        /**
+         * Обработать окончание воспроизведения
+         */
+        protected onMediaEnded(): void;
+        /**
+         * Незадолго до конца аудио выбрать следующий элемент плейлиста и, если это аудио,
+         * начать его полную загрузку, чтобы переход к нему не ждал загрузки
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        protected primeNextAudio(media: HTMLAudioElement): void;
+        /**
+         * Перед самым концом аудио запланировать запуск заранее загруженного следующего так,
+         * чтобы он начался, когда закончится текущее. Элемент с сохраненной позицией (опция resume)
+         * заранее не запускается: он продолжится с места остановки после перехода
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        protected scheduleGapless(media: HTMLAudioElement): void;
         /**
-         * Начало рендеринга
+         * Отменить запланированный запуск следующего аудио и остановить уже запущенное
+         */
+        protected cancelGapless(): void;
+        /**
+         * Перейти к элементу и начать его воспроизведение
          *
-         * @param {HTMLDivElement} mainWrapper
-         * @param {HTMLSpanElement} curImage
-         * @param {string} selector
+         * @param {number} index - индекс элемента
          */
-        protected static renderInit(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement, selector: string): void;
+        protected advance(index: number): void;
         /**
-         * Рендеринг видео в плеере
+         * Показать обратный отсчет до перехода к следующему элементу
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {number} index - индекс следующего элемента
+         */
+        protected startCountdown(index: number): void;
+        /**
+         * Отменить автоматический переход к следующему элементу
+         */
+        cancelAutoplay(): void;
+        /**
+         * Плеер, элементы которого сейчас управляются через Media Session API
+         */
+        protected static mediaSessionOwner: Player | null;
+        /**
+         * Действия Media Session API, которые обрабатывает плеер
+         */
+        protected static mediaSessionActions: MediaSessionAction[];
+        /**
+         * Передать браузеру данные воспроизводимого элемента и обработчики кнопок экрана блокировки
+         */
+        protected updateMediaSession(): void;
+        /**
+         * Убрать данные и обработчики Media Session API, если их установил этот плеер
+         */
+        protected clearMediaSession(): void;
+        /**
+         * Получить ссылку на просмотр документа через сервис конвертации
          *
-         * @returns {HTMLVideoElement | null}
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         *
+         * @returns {string | null}
          */
-        protected static renderVideo(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement): HTMLVideoElement | null;
+        getDocumentUrl(src: string, type: string): string | null;
         /**
-         * Рендеринг изображения в плеере
+         * Открыт ли лайтбокс
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @returns {boolean}
+         */
+        readonly lightboxOpen: boolean;
+        /**
+         * Открыть блок просмотра в лайтбоксе поверх страницы с переходом по тем же элементам
+         */
+        openLightbox(): void;
+        /**
+         * Закрыть лайтбокс
+         */
+        closeLightbox(): void;
+        /**
+         * Управление открытым лайтбоксом с клавиатуры: Escape закрывает, стрелки переключают элементы
+         */
+        protected setLightboxKeyboard(): void;
+        /**
+         * Добавить кнопку полноэкранного режима
+         */
+        addFullScreenButton(): void;
+        /**
+         * Элемент, находящийся в полноэкранном режиме браузера
          *
-         * @returns {HTMLImageElement | null}
+         * @returns {Element | null}
          */
-        protected static renderImage(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement): HTMLImageElement | null;
+        protected static fullscreenElement(): Element | null;
         /**
-         * Рендеринг книги в плеере
+         * Находится ли плеер в полноэкранном режиме, в том числе в CSS-имитации
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @returns {boolean}
+         */
+        readonly fullscreen: boolean;
+        /**
+         * Развернуть плеер (блок просмотра вместе с превью) на весь экран.
+         * Если браузер не поддерживает полноэкранный режим или отказал в нем, режим имитируется стилями
          *
-         * @returns {HTMLIFrameElement | HTMLEmbedElement | null}
+         * @returns {Promise<void>}
          */
-        protected static renderBook(mainWrapper: HTMLDivElement, curImage: HTMLSpanElement): HTMLIFrameElement | HTMLEmbedElement | null;
+        enterFullscreen(): Promise<void>;
         /**
-         * Параметры конфигурации по умолчанию
+         * Выйти из полноэкранного режима
          *
-         * @type {IPlayerOptions}
+         * @returns {Promise<void>}
          */
-        static defaultOptions: IPlayerOptions;
+        exitFullscreen(): Promise<void>;
         /**
-         * Где хранятся стили плеера
+         * Переключить полноэкранный режим
+         *
+         * @returns {Promise<void>}
          */
-        readonly styleFilePath: string;
+        toggleFullscreen(): Promise<void>;
         /**
-         * Выбирать ли первый элемент после загрузки
+         * Включить или выключить CSS-имитацию полноэкранного режима
+         *
+         * @param {boolean} active
          */
-        readonly activate: boolean;
-        readonly mainWrapperClass: string;
-        readonly imageWrapperClass: string;
-        readonly scrollButtonsWidth: number;
-        readonly scrollButtonsPadding: number;
-        readonly imageStopClass: string;
-        readonly animationDuration: number;
+        protected setPseudoFullscreen(active: boolean): void;
         /**
-         * Обработчик добавления новой сущности
+         * Сообщить об изменении полноэкранного режима, если он действительно изменился
          */
-        protected render: (curImage: HTMLElement) => HTMLElement | null;
+        protected onFullscreenChange(): void;
         /**
-         * Уникальный идентификатор плеера
+         * Отслеживание полноэкранного режима браузера и выход из имитации по Escape
          */
-        protected readonly uniq: string;
+        protected setFullscreen(): void;
+        protected setImageClick(): void;
+        protected setDeleteClick(): void;
         /**
-         * Блок просмотра
+         * Удалить элемент по действию пользователя, предварительно перейдя к соседнему
+         *
+         * @param {HTMLSpanElement} element - удаляемый элемент
          */
-        readonly mainWrapper: HTMLDivElement;
+        protected removeItem(element: HTMLSpanElement): void;
         /**
-         * Блок превью
+         * Сделать элемент единственным элементом ленты превью, доступным по клавише Tab
+         *
+         * @param {HTMLSpanElement} item
          */
-        readonly imageWrapper: HTMLDivElement;
+        protected setFocusable(item: HTMLSpanElement): void;
+        /**
+         * Клавиша с учетом направления ленты: в ленте справа налево стрелки влево и вправо меняются местами
+         *
+         * @param {string} key - нажатая клавиша
+         *
+         * @returns {string}
+         */
+        protected logicalKey(key: string): string;
         /**
-         * Тип плеера
+         * Управление лентой превью с клавиатуры
          */
-        protected type: 'video' | 'image' | 'book';
+        protected setKeyboard(): void;
         /**
-         * На каком элементе загружается плеер
+         * Озвучить текст экранными дикторами
+         *
+         * @param {string} text
          */
-        readonly element: HTMLElement;
-        readonly emptyPlayerImage: HTMLImageElement | null;
-        readonly emptyPlayerImageDisplay: string | null;
-        readonly playerElement: HTMLElement;
-        protected prevScroll: number;
-        protected diffWidth: number;
-        protected imagesWidth: number;
-        protected images: HTMLSpanElement[];
-        protected position: number;
-        protected fullscreenButtonAdded: boolean;
-        protected setRender(): void;
-        protected addFullScreenButton(): void;
-        protected setImageClick(): void;
-        protected setDeleteClick(): void;
+        protected announce(text: string): void;
         protected setScroll(): void;
         /**
+         * Пересчитать смещения превью в ленте
+         */
+        protected measure(): void;
+        /**
+         * Вертикальная ли лента превью
+         *
+         * @returns {boolean}
+         */
+        protected readonly vertical: boolean;
+        /**
+         * Количество рядов превью в ленте. В сетке превью идут по столбцам, и смещения хранятся для столбцов
+         *
+         * @returns {number}
+         */
+        protected rows(): number;
+        /**
+         * Размер видимой области ленты вдоль направления прокрутки
+         *
+         * @returns {number}
+         */
+        protected viewSize(): number;
+        /**
+         * Координата указателя вдоль ленты от ее начала
+         *
+         * @param {MouseEvent} e - событие указателя
+         *
+         * @returns {number}
+         */
+        protected pointerOffset(e: MouseEvent): number;
+        /**
+         * Размер превью вдоль ленты: измеренный или, если превью еще не отображалось, оценочный
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {number}
+         */
+        protected itemSize(span: HTMLSpanElement): number;
+        /**
+         * Измерить отображаемое превью
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {boolean} - изменился ли размер превью
+         */
+        protected updateSize(span: HTMLSpanElement): boolean;
+        /**
+         * Максимальное смещение ленты превью
+         *
+         * @returns {number}
+         */
+        protected maxScroll(): number;
+        /**
+         * Индекс превью, которое находится на заданном смещении ленты
+         *
+         * @param {number} scroll - смещение
+         *
+         * @returns {number}
+         */
+        protected indexAt(scroll: number): number;
+        /**
+         * Отрисовать ленту превью: в документе находятся только превью рядом с видимой областью,
+         * а также текущее и доступное по Tab превью
+         *
+         * @param {number} from - начальное смещение ленты
+         * @param {number} to - конечное смещение ленты, если лента прокручивается
+         */
+        protected renderStrip(from?: number, to?: number): void;
+        /**
+         * Сдвинуть ленту превью
+         *
+         * @param {number} scroll - новое смещение
+         * @param {number} duration - длительность анимации
+         */
+        protected translateStrip(scroll: number, duration: number): void;
+        /**
+         * Обработать изменение размеров ленты или превью
+         *
+         * @param {Element[]} targets - элементы, размеры которых изменились
+         */
+        protected resizeStrip(targets: Element[]): void;
+        /**
+         * Перетаскивание ленты превью указателем с инерцией и доводкой до ближайшего превью
+         */
+        protected setDrag(): void;
+        /**
+         * Следить за размерами ленты и превью
+         */
+        protected setResize(): void;
+        /**
+         * Изменение порядка элементов перетаскиванием превью.
+         * Перетаскивание начинается, если удерживать превью reorderDelay миллисекунд, не сдвигая указатель
+         */
+        protected setReorder(): void;
+        /**
+         * Индекс превью под указателем
          *
-         * @param {number} index
+         * @param {MouseEvent} e - событие указателя
          *
          * @returns {number}
          */
+        protected indexAtPointer(e: MouseEvent): number;
+        /**
+         * Переместить элемент плеера
+         *
+         * @param {number} from - индекс перемещаемого элемента
+         * @param {number} to - новый индекс элемента
+         */
+        moveItem(from: number, to: number): void;
+        /**
+         * Переставить элемент в ленте без отправки события
+         *
+         * @param {number} from - текущий индекс элемента
+         * @param {number} to - новый индекс элемента
+         */
+        protected relocate(from: number, to: number): void;
+        /**
+         * Переход к соседнему элементу горизонтальным свайпом по блоку просмотра
+         */
+        protected setSwipe(): void;
+        /**
+         * Прокрутить ленту превью так, чтобы элемент был виден целиком
+         *
+         * @param {number} index - индекс элемента
+         */
+        protected ensureVisible(index: number): void;
+        /**
+         * Прокрутить ленту превью к элементу
+         *
+         * @param {number} index - индекс элемента
+         *
+         * @returns {number} - новое смещение ленты
+         */
         scrollTo(index: number): number | undefined;
         /**
          * Конструктор
@@ -140,9 +2383,154 @@ export declare namespace QooizPlayer {
          */
         constructor(element: HTMLElement, cnf?: IPlayerOptions);
         /**
-         * Обновить плеер
+         * Преобразовать изображение разметки в элемент плеера
+         *
+         * @param {HTMLImageElement} image - изображение
+         * @param {string} sourceName - ссылка на альтернативный ресурс
+         *
+         * @returns {IPlayerItem}
+         */
+        static imageToItem(image: HTMLImageElement, sourceName?: string): IPlayerItem;
+        /**
+         * Разобрать JSON из атрибута разметки; пустое или некорректное значение игнорируется
+         *
+         * @param {string} value - значение атрибута
+         *
+         * @returns {any}
+         */
+        protected static parseJson(value?: string): any;
+        /**
+         * Обновить плеер: загрузить в плеер изображения из разметки его блока
          */
         update(): void;
+        /**
+         * Изображения разметки, которые сейчас должны быть элементами плеера
+         *
+         * @returns {HTMLImageElement[]}
+         */
+        protected markupImages(): HTMLImageElement[];
+        /**
+         * Сверить элементы плеера с изображениями разметки: новые изображения добавляются на соответствующие места,
+         * элементы удаленных изображений удаляются без событий удаления, остальные элементы и выбор не меняются.
+         * Изображения остаются в разметке скрытыми
+         */
+        sync(): void;
+        /**
+         * Следить за изображениями разметки и синхронизировать с ними элементы плеера
+         */
+        protected setObserve(): void;
+        /**
+         * Выбрать элемент после загрузки: указанный в адресе, иначе первый, если включена активация
+         */
+        protected selectInitial(): void;
+        /**
+         * Параметры адреса, в которых хранится состояние плеера. Из хэша берутся только параметры плеера,
+         * остальное его содержимое (например, якорь) не разбирается
+         *
+         * @returns {URLSearchParams}
+         */
+        protected linkParams(): URLSearchParams;
+        /**
+         * Является ли часть хэша параметром состояния этого плеера
+         *
+         * @param {string} part - часть хэша между символами &
+         *
+         * @returns {boolean}
+         */
+        protected isLinkPart(part: string): boolean;
+        /**
+         * Прочитать состояние плеера из адреса
+         *
+         * @returns {{item : string, time : number, page : number} | null}
+         */
+        protected readLink(): {
+            item: string;
+            time: number;
+            page: number;
+        } | null;
+        /**
+         * Выбрать элемент из адреса и перейти к указанным в нем времени видео и странице PDF
+         *
+         * @param {{item : string, time : number, page : number}} state - состояние из адреса
+         *
+         * @returns {boolean} - найден ли элемент
+         */
+        protected applyLink(state: {
+            item: string;
+            time: number;
+            page: number;
+        }): boolean;
+        /**
+         * Записать в адрес выбранный элемент (имя поля или номер), время видео и страницу PDF
+         */
+        protected writeLink(): void;
+        /**
+         * Синхронизация состояния плеера с адресом
+         */
+        protected setDeepLink(): void;
+        /**
+         * Заменить содержимое плеера списком элементов.
+         * Прежние элементы удаляются без событий удаления, по окончании отправляется событие load
+         *
+         * @param {IPlayerItem[]} items - элементы плеера
+         */
+        load(items: IPlayerItem[]): void;
+        /**
+         * Элементы плеера
+         *
+         * @returns {IPlayerItem[]}
+         */
+        readonly items: IPlayerItem[];
+        /**
+         * Получить данные элемента плеера
+         *
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {IPlayerItem | null}
+         */
+        getItem(item: number | HTMLSpanElement): IPlayerItem | null;
+        /**
+         * Представление плеера для JSON.stringify - список элементов
+         *
+         * @returns {IPlayerItem[]}
+         */
+        toJSON(): IPlayerItem[];
+        /**
+         * Текущий элемент плеера
+         *
+         * @returns {HTMLSpanElement | null}
+         */
+        readonly current: HTMLSpanElement | null;
+        /**
+         * Индекс текущего элемента плеера или -1, если ничего не выбрано
+         *
+         * @returns {number}
+         */
+        readonly currentIndex: number;
+        /**
+         * Выбрать элемент плеера
+         *
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {HTMLElement | null} - отображаемый элемент блока просмотра
+         */
+        select(item: number | HTMLSpanElement): HTMLElement | null;
+        /**
+         * Перейти к следующему элементу
+         *
+         * @param {boolean} loop - переходить ли с последнего элемента на первый
+         *
+         * @returns {HTMLElement | null}
+         */
+        next(loop?: boolean): HTMLElement | null;
+        /**
+         * Перейти к предыдущему элементу
+         *
+         * @param {boolean} loop - переходить ли с первого элемента на последний
+         *
+         * @returns {HTMLElement | null}
+         */
+        prev(loop?: boolean): HTMLElement | null;
         /**
          * Геттер для уникального идентификатора плеера
          *
@@ -150,18 +2538,102 @@ export declare namespace QooizPlayer {
          */
         readonly id: string;
         /**
-         * Добавить изображение в плеер
+         * Наибольшая сторона создаваемых превью в пикселях
+         */
+        static thumbnailSize: number;
+        /**
+         * Нарисовать источник на холсте, уменьшив его до размера превью, и получить data URL
          *
-         * @param {HTMLImageElement} image - изображение
-         * @param {boolean} isActivate - активировать добавляемое изображение
-         * @param {string} sourceName - ссылка на альтернативный ресурс
+         * @param {CanvasImageSource} source - изображение, видео или холст
+         * @param {number} width - исходная ширина
+         * @param {number} height - исходная высота
+         *
+         * @returns {string}
+         */
+        protected static drawThumbnail(source: CanvasImageSource, width: number, height: number): string;
+        /**
+         * Превью-заглушка с расширением файла для форматов, из которых нельзя получить изображение
+         *
+         * @param {string} name - имя файла
+         *
+         * @returns {string}
+         */
+        protected static placeholderThumbnail(name: string): string;
+        /**
+         * Создать превью файла: уменьшенное изображение, кадр видео, волновая форма аудио или первая страница PDF (если загружен PDF.js)
+         *
+         * @param {File} file - файл
+         * @param {string} src - ссылка на файл (object URL)
+         *
+         * @returns {Promise<string>} - data URL превью
+         */
+        static createThumbnail(file: File, src: string): Promise<string>;
+        /**
+         * Добавить элементы из файлов: превью создаются в браузере, а файлы передаются загрузчику (опция uploader).
+         * Без загрузчика элементы ссылаются на локальные копии файлов
+         *
+         * @param {FileList | File[]} files - файлы
+         *
+         * @returns {Promise<HTMLSpanElement[]>} - превью добавленных элементов
+         */
+        addFiles(files: FileList | File[]): Promise<HTMLSpanElement[]>;
+        /**
+         * Подходит ли файл под опцию accept
+         *
+         * @param {File} file
+         *
+         * @returns {boolean}
+         */
+        protected acceptsFile(file: File): boolean;
+        /**
+         * Загрузить файл элемента загрузчиком, показывая прогресс на превью
+         *
+         * @param {HTMLSpanElement} span - превью
+         * @param {File} file - файл
+         *
+         * @returns {Promise<void>}
+         */
+        protected upload(span: HTMLSpanElement, file: File): Promise<void>;
+        /**
+         * Отразить список элементов в скрытых полях формы (опция formField).
+         * Элементы, которые еще загружаются или не загрузились, а также добавленные из файлов без загрузчика,
+         * в форму не попадают: их ссылки действуют только на этой странице
+         */
+        protected updateFields(): void;
+        /**
+         * Применить расположение ленты превью и размеры превью
+         */
+        protected setLayout(): void;
+        /**
+         * Обновить точки расположения dots: по одной на элемент, текущая отмечена
+         */
+        protected updateDots(): void;
+        /**
+         * Режим редактирования: кнопка выбора файлов, перетаскивание файлов на плеер и вставка из буфера обмена
+         */
+        protected setEditMode(): void;
+        /**
+         * Добавить элемент в плеер
+         *
+         * @param {IPlayerItem | HTMLImageElement} item - элемент или изображение разметки
+         * @param {boolean} isActivate - активировать добавляемый элемент
+         * @param {string} sourceName - ссылка на альтернативный ресурс (только для изображений)
+         *
+         * @returns {HTMLSpanElement | null} - превью добавленного элемента
+         */
+        addItem(item: IPlayerItem | HTMLImageElement, isActivate?: boolean, sourceName?: string): HTMLSpanElement | null;
+        /**
+         * Уничтожить элементы блока просмотра, отображающие ресурс превью
+         *
+         * @param {HTMLSpanElement} element - превью
          */
-        addItem(image: HTMLImageElement, isActivate?: boolean, sourceName?: string): void;
+        protected destroyRendered(element: HTMLSpanElement): void;
         /**
          * Удалить пару изображение - ресурс из плеера
          *
          * @param {HTMLSpanElement} element - удаляемый элемент
+         * @param {boolean} silent - не отправлять события удаления
          */
-        deleteItem(element: HTMLSpanElement): void;
+        deleteItem(element: HTMLSpanElement, silent?: boolean): void;
     }
 }
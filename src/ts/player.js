@@ -3,415 +3,4612 @@ import { Utils } from "../../../good-funcs.js/dist/js/GoodFuncs.js";
 export var QooizPlayer;
 (function (QooizPlayer) {
     /**
-     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
+     * Событие плеера
      */
-    class Player {
+    class PlayerEvent {
         /**
          * Конструктор
          *
-         * @param {HTMLElement} element - на каком элементе загружается плеер
-         * @param {IPlayerOptions} cnf - объект конфигурации
+         * @param {string} type - тип события
+         * @param {string} playerId - уникальный идентификатор плеера
+         * @param {HTMLSpanElement | null} item - превью, к которому относится событие
+         * @param {number} index - индекс превью в плеере
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
          */
-        constructor(element, cnf = {}) {
-            this.animationDuration = 400;
+        constructor(type, playerId, item, index, cancelable = false) {
+            this.type = type;
+            this.playerId = playerId;
+            this.item = item;
+            this.index = index;
+            this.cancelable = cancelable;
             /**
-             * Уникальный идентификатор плеера
+             * Отменено ли действие по умолчанию
              */
-            this.uniq = Utils.GoodFuncs.getRandomString(12);
-            this.prevScroll = 0;
-            this.diffWidth = 0;
-            this.imagesWidth = 0;
-            this.images = [];
-            this.position = 0;
-            this.fullscreenButtonAdded = false;
-            this.playerElement = element;
-            this.styleFilePath = (cnf.styleFilePath || Player.defaultOptions.styleFilePath);
-            this.activate = !element.classList.contains('no-active');
-            this.mainWrapperClass = (cnf.mainWrapperClass || Player.defaultOptions.mainWrapperClass);
-            this.imageWrapperClass = (cnf.imageWrapperClass || Player.defaultOptions.imageWrapperClass);
-            this.scrollButtonsWidth = (cnf.scrollButtonsWidth || Player.defaultOptions.scrollButtonsWidth);
-            this.scrollButtonsPadding
-                = (cnf.scrollButtonsPadding || Player.defaultOptions.scrollButtonsPadding);
-            this.imageStopClass = (cnf.imageStopClass || Player.defaultOptions.imageStopClass);
-            this.emptyPlayerImage = element.querySelector(`img.${this.imageStopClass}`);
-            this.emptyPlayerImageDisplay = this.emptyPlayerImage ? this.emptyPlayerImage.style.display : null;
-            element.classList.add('player');
-            element.insertAdjacentHTML('beforeend', `<div class="${this.mainWrapperClass}"></div>`);
-            element.insertAdjacentHTML('beforeend', `<div class="${this.imageWrapperClass}"></div>`);
-            this.imageWrapper = element.querySelector(`.${this.imageWrapperClass}`);
-            this.mainWrapper = element.querySelector(`.${this.mainWrapperClass}`);
-            this.imageWrapper.classList.add(this.uniq);
-            this.setRender();
-            this.setImageClick();
-            this.setDeleteClick();
-            this.setScroll();
-            this.update();
+            this.prevented = false;
+        }
+        /**
+         * Отменено ли действие по умолчанию
+         *
+         * @returns {boolean}
+         */
+        get defaultPrevented() {
+            return this.prevented;
+        }
+        /**
+         * Отменить действие по умолчанию
+         */
+        preventDefault() {
+            this.cancelable && (this.prevented = true);
+        }
+    }
+    QooizPlayer.PlayerEvent = PlayerEvent;
+    /**
+     * Базовый рендерер: элементы показываются и скрываются через display и сопоставляются по атрибуту src
+     */
+    class Renderer {
+        constructor() {
+            this.types = [];
+        }
+        source(curImage) {
+            return curImage.dataset.objectSrc || '';
+        }
+        show(element) {
+            element.style.display = 'block';
+        }
+        hide(element) {
+            element.style.display = 'none';
+        }
+        destroy(element) {
+            element.remove();
+        }
+        match(element, src) {
+            return element.getAttribute('src') === src;
+        }
+    }
+    QooizPlayer.Renderer = Renderer;
+    /**
+     * Рендеринг видео в плеере
+     */
+    class VideoRenderer extends Renderer {
+        constructor() {
+            super(...arguments);
+            this.types = [
+                'mp4',
+                'webm',
+                'ogv',
+                'mov',
+                'm4v',
+                'm3u8',
+                'mpd',
+                'application/vnd.apple.mpegurl',
+                'application/x-mpegurl',
+                'application/dash+xml',
+                'video/*'
+            ];
+            /**
+             * Адаптеры потокового видео по форматам манифестов
+             */
+            this.adapters = {};
+            /**
+             * Адаптеры, подключенные к видео
+             */
+            this.attached = new WeakMap();
+        }
+        /**
+         * Зарегистрировать адаптер потокового видео
+         *
+         * @param {string} format - формат манифеста: m3u8 или mpd
+         * @param {IMediaSourceAdapter} adapter - адаптер
+         */
+        registerAdapter(format, adapter) {
+            this.adapters[format] = adapter;
+        }
+        /**
+         * Формат манифеста потокового видео по типу или расширению ссылки
+         *
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         *
+         * @returns {string} - m3u8, mpd или пустая строка, если это не манифест
+         */
+        static manifestFormat(src, type) {
+            const srcMatches = src.split(/[?#]/)[0].match(/\.([^./]+)$/), lowerType = (type || '').toLowerCase();
+            for (let format in VideoRenderer.manifestTypes) {
+                if (lowerType === format
+                    || lowerType === VideoRenderer.manifestTypes[format]
+                    || (format === 'm3u8' && lowerType === 'application/x-mpegurl')
+                    || (srcMatches && srcMatches[1].toLowerCase() === format)) {
+                    return format;
+                }
+            }
+            return '';
+        }
+        /**
+         * Назначить видео ссылку: манифесты передаются зарегистрированному адаптеру,
+         * без адаптера или при его неподдержке браузером видео воспроизводится встроенными средствами
+         *
+         * @param {HTMLVideoElement} video
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         */
+        attach(video, src, type) {
+            this.detach(video);
+            const adapter = this.adapters[VideoRenderer.manifestFormat(src, type)];
+            if (adapter && (!adapter.isSupported || adapter.isSupported())) {
+                adapter.attach(video, src);
+                this.attached.set(video, adapter);
+                return;
+            }
+            video.src = src;
+        }
+        /**
+         * Отключить от видео адаптер потокового видео
+         *
+         * @param {HTMLVideoElement} video
+         */
+        detach(video) {
+            const adapter = this.attached.get(video);
+            if (adapter) {
+                adapter.detach(video);
+                this.attached.delete(video);
+            }
+        }
+        /**
+         * Создать видео
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        create(mainWrapper, curImage, player) {
+            let videoSrc = this.source(curImage), imageSrc = curImage.dataset.src;
+            if (!videoSrc) {
+                return null;
+            }
+            const item = player.getItem(curImage), sources = item && item.sources ? item.sources : [];
+            let video = Utils.GoodFuncs.createElementWithAttrs('video', {
+                poster: imageSrc,
+                preload: 'metadata',
+                controlsList: 'nodownload',
+                text: player.t('videoUnavailable')
+            });
+            video.controls = player.videoControls === 'native';
+            video.dataset.src = videoSrc;
+            if (sources.length) {
+                VideoRenderer.setSources(video, sources, player.quality);
+            }
+            else {
+                this.attach(video, videoSrc, curImage.dataset.type);
+            }
+            (item && item.tracks || []).forEach(function (track) {
+                VideoRenderer.addTrack(video, track);
+            });
+            mainWrapper.insertAdjacentElement('beforeend', video);
+            return video;
+        }
+        /**
+         * Добавить видео источники, поставив первым источник выбранного качества
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerSource[]} sources - источники
+         * @param {string} quality - выбранное качество
+         */
+        static setSources(video, sources, quality) {
+            video.querySelectorAll('source').forEach(function (source) {
+                source.remove();
+            });
+            sources.slice().sort(function (a, b) {
+                return Number(b.quality === quality) - Number(a.quality === quality);
+            }).forEach(function (source) {
+                const element = document.createElement('source');
+                element.src = source.src;
+                source.type && (element.type = source.type);
+                source.quality && (element.dataset.quality = source.quality);
+                video.appendChild(element);
+            });
+        }
+        /**
+         * Качество источника, который воспроизводит видео
+         *
+         * @param {HTMLVideoElement} video
+         *
+         * @returns {string}
+         */
+        static getQuality(video) {
+            const sources = Array.from(video.querySelectorAll('source')), source = sources.find(source => source.src === video.currentSrc) || sources[0];
+            return source && source.dataset.quality || '';
+        }
+        /**
+         * Добавить субтитры; субтитры в формате SRT конвертируются в WebVTT
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerTrack} track - субтитры
+         */
+        static addTrack(video, track) {
+            const element = document.createElement('track'), isSrt = track.format ? track.format === 'srt' : /\.srt$/i.test(track.src.split(/[?#]/)[0]);
+            element.kind = track.kind || 'subtitles';
+            element.srclang = track.language;
+            element.label = track.label || track.language;
+            video.appendChild(element);
+            if (!isSrt) {
+                element.src = track.src;
+                return;
+            }
+            fetch(track.src).then(function (response) {
+                if (!response.ok) {
+                    throw new Error(response.statusText);
+                }
+                return response.text();
+            }).then(function (srt) {
+                element.src = URL.createObjectURL(new Blob([VideoRenderer.srtToVtt(srt)], { type: 'text/vtt' }));
+            }).catch(function () {
+                // недоступные субтитры не предлагаются для выбора
+                element.remove();
+            });
+        }
+        /**
+         * Конвертировать субтитры из SRT в WebVTT
+         *
+         * @param {string} srt - субтитры в формате SRT
+         *
+         * @returns {string}
+         */
+        static srtToVtt(srt) {
+            return 'WEBVTT\n\n' + srt
+                .replace(/^\uFEFF/, '')
+                .replace(/\r\n?/g, '\n')
+                .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+        }
+        /**
+         * Видео сопоставляется по исходной ссылке, так как источники могут задаваться элементами source
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element, src) {
+            return element.dataset.src === src;
+        }
+        /**
+         * Скрытое видео ставится на паузу
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element) {
+            element.pause();
+            super.hide(element);
+        }
+        /**
+         * Для соседнего видео заранее создается элемент, который загружает только метаданные (preload=metadata)
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        preload(mainWrapper, curImage, player) {
+            return this.create(mainWrapper, curImage, player);
+        }
+        /**
+         * При удалении видео отключается адаптер потокового видео и освобождаются сконвертированные субтитры
+         *
+         * @param {HTMLElement} element
+         */
+        destroy(element) {
+            this.detach(element);
+            element.querySelectorAll('track').forEach(function (track) {
+                track.src.indexOf('blob:') === 0 && URL.revokeObjectURL(track.src);
+            });
+            super.destroy(element);
+        }
+    }
+    /**
+     * MIME-типы манифестов потокового видео по форматам
+     */
+    VideoRenderer.manifestTypes = {
+        m3u8: 'application/vnd.apple.mpegurl',
+        mpd: 'application/dash+xml'
+    };
+    QooizPlayer.VideoRenderer = VideoRenderer;
+    /**
+     * Масштабирование, перемещение и поворот изображения
+     */
+    class ImageZoom {
+        /**
+         * @param {HTMLImageElement} image - изображение
+         */
+        constructor(image) {
+            this.image = image;
+            this.scale = 1;
+            this.x = 0;
+            this.y = 0;
+            this.rotation = 0;
+            /**
+             * Перемещалось ли изображение с момента последнего нажатия
+             */
+            this.moved = false;
+            /**
+             * Нажатые указатели
+             */
+            this.pointers = new Map();
+            /**
+             * Время последнего касания для определения двойного касания
+             */
+            this.lastTap = 0;
+            const self = this;
+            ImageZoom.instances.set(image, this);
+            image.classList.add('zoomable');
+            image.draggable = false;
+            image.addEventListener('wheel', function (e) {
+                e.preventDefault();
+                self.zoom(self.scale * (e.deltaY < 0 ? ImageZoom.scaleStep : 1 / ImageZoom.scaleStep), e.clientX, e.clientY);
+            });
+            image.addEventListener('dblclick', function () {
+                self.reset();
+            });
+            image.addEventListener('pointerdown', function (e) {
+                if (!self.pointers.size) {
+                    self.moved = false;
+                }
+                self.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+                if (self.scale > 1 || self.pointers.size > 1) {
+                    e.stopPropagation();
+                    image.setPointerCapture(e.pointerId);
+                }
+            });
+            image.addEventListener('pointermove', function (e) {
+                const last = self.pointers.get(e.pointerId);
+                if (!last) {
+                    return;
+                }
+                if (self.pointers.size > 1) {
+                    const other = Array.from(self.pointers.entries()).find(entry => entry[0] !== e.pointerId);
+                    if (other) {
+                        const before = Math.hypot(last.x - other[1].x, last.y - other[1].y), after = Math.hypot(e.clientX - other[1].x, e.clientY - other[1].y);
+                        before && self.zoom(self.scale * after / before, (e.clientX + other[1].x) / 2, (e.clientY + other[1].y) / 2);
+                    }
+                    self.moved = true;
+                }
+                else if (self.scale > 1) {
+                    self.x += e.clientX - last.x;
+                    self.y += e.clientY - last.y;
+                    self.moved = true;
+                    self.apply();
+                }
+                self.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            });
+            const release = function (e) {
+                if (!self.pointers.delete(e.pointerId)) {
+                    return;
+                }
+                if (self.moved || self.scale > 1) {
+                    e.stopPropagation();
+                }
+                if (e.type === 'pointerup' && e.pointerType !== 'mouse' && !self.moved) {
+                    const now = Date.now();
+                    now - self.lastTap < 300 && self.reset();
+                    self.lastTap = now;
+                }
+            };
+            image.addEventListener('pointerup', release);
+            image.addEventListener('pointercancel', release);
+        }
+        /**
+         * Экземпляр, управляющий изображением
+         *
+         * @param {HTMLImageElement} image
+         *
+         * @returns {ImageZoom | undefined}
+         */
+        static get(image) {
+            return ImageZoom.instances.get(image);
+        }
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб
+         * @param {number} clientX - горизонтальная координата точки, остающейся на месте
+         * @param {number} clientY - вертикальная координата точки, остающейся на месте
+         */
+        zoom(scale, clientX, clientY) {
+            scale = Math.min(Math.max(scale, 1), ImageZoom.maxScale);
+            if (scale === 1) {
+                this.x = this.y = 0;
+            }
+            else if (clientX !== undefined && clientY !== undefined) {
+                const rect = this.image.getBoundingClientRect(), dx = clientX - (rect.left + rect.width / 2 - this.x), dy = clientY - (rect.top + rect.height / 2 - this.y);
+                this.x = dx - (dx - this.x) * scale / this.scale;
+                this.y = dy - (dy - this.y) * scale / this.scale;
+            }
+            this.scale = scale;
+            this.apply();
+        }
+        /**
+         * Повернуть изображение
+         *
+         * @param {number} angle - угол в градусах
+         */
+        rotate(angle = 90) {
+            this.rotation = (this.rotation + angle) % 360;
+            this.apply();
+        }
+        /**
+         * Вернуть исходные масштаб, положение и поворот
+         */
+        reset() {
+            this.scale = 1;
+            this.x = this.y = this.rotation = 0;
+            this.apply();
+        }
+        /**
+         * Применить преобразования к изображению
+         */
+        apply() {
+            this.image.style.transform = `translate(${this.x}px, ${this.y}px) scale(${this.scale}) rotate(${this.rotation}deg)`;
+            this.image.classList.toggle('zoomed', this.scale > 1);
+        }
+    }
+    /**
+     * Максимальный масштаб
+     */
+    ImageZoom.maxScale = 8;
+    /**
+     * Шаг масштабирования кнопками и колесом мыши
+     */
+    ImageZoom.scaleStep = 1.25;
+    /**
+     * Экземпляры по изображениям
+     */
+    ImageZoom.instances = new WeakMap();
+    QooizPlayer.ImageZoom = ImageZoom;
+    /**
+     * Встроенный просмотр изображений с масштабированием, перемещением, поворотом и открытием в лайтбоксе
+     */
+    class NativeImageViewer {
+        create(src, player) {
+            const viewer = document.createElement('div'), image = Utils.GoodFuncs.createElementWithAttrs('img', {
+                class: 'responsive-img',
+                src: src
+            }), zoom = new ImageZoom(image);
+            viewer.classList.add('image-viewer');
+            viewer.appendChild(image);
+            viewer.insertAdjacentHTML('beforeend', `
+                <div class="image-toolbar">
+                    <button type="button" class="zoom-out material-icons" aria-label="${player.t('zoomOut')}">zoom_out</button>
+                    <button type="button" class="zoom-in material-icons" aria-label="${player.t('zoomIn')}">zoom_in</button>
+                    <button type="button" class="rotate material-icons" aria-label="${player.t('rotate')}">rotate_right</button>
+                    <button type="button" class="reset material-icons" aria-label="${player.t('resetZoom')}">crop_free</button>
+                    <button type="button" class="lightbox-toggle material-icons" aria-label="${player.t('openLightbox')}">fullscreen</button>
+                </div>
+            `);
+            viewer.querySelector('.zoom-out').addEventListener('click', function () {
+                zoom.zoom(zoom.scale / ImageZoom.scaleStep);
+            });
+            viewer.querySelector('.zoom-in').addEventListener('click', function () {
+                zoom.zoom(zoom.scale * ImageZoom.scaleStep);
+            });
+            viewer.querySelector('.rotate').addEventListener('click', function () {
+                zoom.rotate();
+            });
+            viewer.querySelector('.reset').addEventListener('click', function () {
+                zoom.reset();
+            });
+            viewer.querySelector('.lightbox-toggle').addEventListener('click', function () {
+                player.lightboxOpen ? player.closeLightbox() : player.openLightbox();
+            });
+            image.addEventListener('click', function () {
+                zoom.moved || zoom.scale > 1 || player.lightboxOpen || player.openLightbox();
+            });
+            return viewer;
+        }
+    }
+    QooizPlayer.NativeImageViewer = NativeImageViewer;
+    /**
+     * Просмотр изображений средствами Materialize (Materialbox)
+     */
+    class MaterializeImageViewer {
+        create(src) {
+            let image = Utils.GoodFuncs.createElementWithAttrs('img', {
+                class: 'materialboxed responsive-img',
+                src: src
+            });
+            if (window['M'] !== undefined) {
+                M.Materialbox.init(image);
+            }
+            return image;
+        }
+    }
+    QooizPlayer.MaterializeImageViewer = MaterializeImageViewer;
+    /**
+     * Рендеринг изображений в плеере
+     */
+    class ImageRenderer extends Renderer {
+        constructor() {
+            super(...arguments);
+            this.types = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'image/*'];
+            /**
+             * Способы просмотра изображений по именам
+             */
+            this.viewers = {
+                native: new NativeImageViewer(),
+                materialize: new MaterializeImageViewer()
+            };
+        }
+        /**
+         * Полноразмерное изображение (data-object-src), если его нет - само превью
+         *
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {string}
+         */
+        source(curImage) {
+            return curImage.dataset.objectSrc || curImage.dataset.src || '';
+        }
+        /**
+         * Зарегистрировать способ просмотра изображений
+         *
+         * @param {string} name - имя, указываемое в опции imageViewer плеера
+         * @param {IImageViewer} viewer - способ просмотра
+         */
+        registerViewer(name, viewer) {
+            this.viewers[name] = viewer;
+        }
+        /**
+         * Создать изображение
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper, curImage, player) {
+            const src = this.source(curImage);
+            if (!src) {
+                return null;
+            }
+            const image = (this.viewers[player.imageViewer] || this.viewers.native).create(src, player);
+            image.dataset.src = src;
+            mainWrapper.insertAdjacentElement('beforeend', image);
+            return image;
+        }
+        /**
+         * Изображение сопоставляется по исходной ссылке, так как просмотр может оборачивать его в блок
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element, src) {
+            return element.dataset.src === src;
+        }
+        /**
+         * Соседнее изображение загружается и декодируется заранее без создания элемента блока просмотра
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {null}
+         */
+        preload(mainWrapper, curImage) {
+            const src = this.source(curImage);
+            if (src) {
+                const image = new Image();
+                image.src = src;
+                image.decode && image.decode().catch(function () { });
+            }
+            return null;
+        }
+        /**
+         * При скрытии изображения сбрасывается его масштаб
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element) {
+            const image = element instanceof HTMLImageElement ? element : element.querySelector('img'), zoom = image ? ImageZoom.get(image) : undefined;
+            zoom && zoom.reset();
+            super.hide(element);
+        }
+    }
+    QooizPlayer.ImageRenderer = ImageRenderer;
+    /**
+     * Просмотр PDF-документа на canvas с навигацией по страницам, масштабированием и поиском.
+     * Использует библиотеку PDF.js (window.pdfjsLib). О загрузке документа блок сообщает событиями load и error
+     */
+    class PdfDocument {
+        /**
+         * Конструктор
+         *
+         * @param {string} src - ссылка на документ
+         * @param pdfjs - библиотека PDF.js
+         * @param {IPlayerMessages} messages - тексты интерфейса
+         */
+        constructor(src, pdfjs, messages = Player.messages.ru) {
+            this.src = src;
+            this.messages = messages;
+            /**
+             * Шаг изменения масштаба
+             */
+            this.zoomStep = 0.25;
+            /**
+             * Загруженный документ PDF.js
+             */
+            this.document = null;
+            /**
+             * Текущая задача отрисовки страницы PDF.js
+             */
+            this.renderTask = null;
+            /**
+             * Текст страниц для поиска
+             */
+            this.texts = {};
+            this.currentPage = 1;
+            this.scale = 1;
+            const self = this;
+            this.element = document.createElement('div');
+            this.element.classList.add('pdf-viewer');
+            this.element.insertAdjacentHTML('beforeend', `
+                <div class="pdf-toolbar">
+                    <button type="button" class="pdf-prev" aria-label="${messages.pdfPrev}">&lsaquo;</button>
+                    <input type="number" class="pdf-page" min="1" value="1" aria-label="${messages.pdfPage}">
+                    <span class="pdf-pages"></span>
+                    <button type="button" class="pdf-next" aria-label="${messages.pdfNext}">&rsaquo;</button>
+                    <button type="button" class="pdf-zoom-out" aria-label="${messages.zoomOut}">&minus;</button>
+                    <span class="pdf-zoom"></span>
+                    <button type="button" class="pdf-zoom-in" aria-label="${messages.zoomIn}">+</button>
+                    <input type="search" class="pdf-search" placeholder="${messages.pdfSearch}" aria-label="${messages.pdfSearchLabel}">
+                    <span class="pdf-status" role="status"></span>
+                </div>
+                <div class="pdf-canvas"><canvas></canvas></div>
+            `);
+            this.canvas = this.element.querySelector('canvas');
+            this.pageInput = this.element.querySelector('.pdf-page');
+            this.pagesLabel = this.element.querySelector('.pdf-pages');
+            this.zoomLabel = this.element.querySelector('.pdf-zoom');
+            this.status = this.element.querySelector('.pdf-status');
+            this.element.querySelector('.pdf-prev').addEventListener('click', function () {
+                self.goTo(self.currentPage - 1);
+            });
+            this.element.querySelector('.pdf-next').addEventListener('click', function () {
+                self.goTo(self.currentPage + 1);
+            });
+            this.element.querySelector('.pdf-zoom-out').addEventListener('click', function () {
+                self.zoom(self.scale - self.zoomStep);
+            });
+            this.element.querySelector('.pdf-zoom-in').addEventListener('click', function () {
+                self.zoom(self.scale + self.zoomStep);
+            });
+            this.pageInput.addEventListener('change', function () {
+                self.goTo(parseInt(this.value, 10) || 1);
+            });
+            this.element.querySelector('.pdf-search').addEventListener('keydown', function (e) {
+                if (e.key === 'Enter') {
+                    e.preventDefault();
+                    self.search(this.value);
+                }
+            });
+            PdfDocument.instances.set(this.element, this);
+            const task = pdfjs.getDocument(src);
+            (task.promise || task).then(function (pdf) {
+                self.document = pdf;
+                self.pageInput.max = pdf.numPages.toString();
+                self.pagesLabel.textContent = `/ ${pdf.numPages}`;
+                self.render();
+                self.element.dispatchEvent(new Event('load'));
+            }, function () {
+                self.status.textContent = self.messages.pdfError;
+                self.element.dispatchEvent(new Event('error'));
+            });
+        }
+        /**
+         * Получить документ по его элементу
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {PdfDocument | null}
+         */
+        static get(element) {
+            return PdfDocument.instances.get(element) || null;
+        }
+        /**
+         * Текущая страница
+         *
+         * @returns {number}
+         */
+        get page() {
+            return this.currentPage;
+        }
+        /**
+         * Количество страниц документа, 0 - пока документ не загружен
+         *
+         * @returns {number}
+         */
+        get pages() {
+            return this.document ? this.document.numPages : 0;
+        }
+        /**
+         * Перейти к странице
+         *
+         * @param {number} page - номер страницы
+         */
+        goTo(page) {
+            page = Math.max(1, this.pages ? Math.min(page, this.pages) : page);
+            if (page === this.currentPage && this.renderTask) {
+                return;
+            }
+            this.currentPage = page;
+            this.render();
+            this.element.dispatchEvent(new CustomEvent('pdfpagechange', { detail: { page: page }, bubbles: true }));
+        }
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб, 1 - исходный размер
+         */
+        zoom(scale) {
+            this.scale = Math.max(this.zoomStep, Math.min(scale, 5));
+            this.render();
+        }
+        /**
+         * Найти текст в документе начиная со следующей страницы и перейти к найденной странице
+         *
+         * @param {string} text - искомый текст
+         *
+         * @returns {Promise<number>} - номер найденной страницы или 0
+         */
+        search(text) {
+            const self = this, needle = text.trim().toLowerCase(), pages = this.pages;
+            if (!needle || !pages) {
+                return Promise.resolve(0);
+            }
+            const find = function (step) {
+                if (step > pages) {
+                    self.status.textContent = self.messages.pdfNotFound;
+                    return Promise.resolve(0);
+                }
+                const page = (self.currentPage + step - 1) % pages + 1;
+                return self.getText(page).then(function (pageText) {
+                    if (pageText.toLowerCase().indexOf(needle) === -1) {
+                        return find(step + 1);
+                    }
+                    self.status.textContent = '';
+                    self.goTo(page);
+                    return page;
+                }, function () {
+                    // текст страницы не загрузился, поиск продолжается со следующей
+                    return find(step + 1);
+                });
+            };
+            return find(1);
+        }
+        /**
+         * Получить текст страницы
+         *
+         * @param {number} page - номер страницы
+         *
+         * @returns {Promise<string>}
+         */
+        getText(page) {
+            const self = this;
+            if (!this.texts[page]) {
+                this.texts[page] = this.document.getPage(page).then(function (pdfPage) {
+                    return pdfPage.getTextContent();
+                }).then(function (content) {
+                    return content.items.map(function (item) {
+                        return item.str;
+                    }).join(' ');
+                }).catch(function (error) {
+                    delete self.texts[page];
+                    throw error;
+                });
+            }
+            return this.texts[page];
+        }
+        /**
+         * Отрисовать текущую страницу
+         */
+        render() {
+            const self = this;
+            this.pageInput.value = this.currentPage.toString();
+            this.zoomLabel.textContent = `${Math.round(this.scale * 100)}%`;
+            if (!this.document) {
+                return;
+            }
+            this.renderTask && this.renderTask.cancel();
+            this.renderTask = null;
+            const failed = function (task) {
+                if (self.renderTask !== task) {
+                    return;
+                }
+                self.renderTask = null;
+                self.status.textContent = self.messages.pdfError;
+            };
+            this.document.getPage(this.currentPage).then(function (page) {
+                const ratio = window.devicePixelRatio || 1, viewport = page.getViewport({ scale: self.scale * ratio }), context = self.canvas.getContext('2d');
+                self.canvas.width = viewport.width;
+                self.canvas.height = viewport.height;
+                self.canvas.style.width = `${viewport.width / ratio}px`;
+                self.canvas.style.height = `${viewport.height / ratio}px`;
+                const task = page.render({ canvasContext: context, viewport: viewport });
+                self.renderTask = task;
+                self.status.textContent === self.messages.pdfError && (self.status.textContent = '');
+                (task.promise || task).then(null, function (error) {
+                    // отмена отрисовки переходом на другую страницу ошибкой не считается
+                    error && error.name === 'RenderingCancelledException' || failed(task);
+                });
+            }, function () {
+                failed(null);
+            });
+        }
+    }
+    /**
+     * Документы, привязанные к своим элементам
+     */
+    PdfDocument.instances = new WeakMap();
+    QooizPlayer.PdfDocument = PdfDocument;
+    /**
+     * Просмотр PDF: на canvas, если подключен PDF.js, иначе встроенным просмотрщиком браузера
+     */
+    class PdfViewer {
+        /**
+         * Создать элемент просмотра PDF
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src, type, player) {
+            if (window['pdfjsLib'] !== undefined) {
+                return new PdfDocument(src, window['pdfjsLib'], player.messages).element;
+            }
+            const book = document.createElement('iframe');
+            book.setAttribute('src', src);
+            book.allowFullscreen = true;
+            return book;
+        }
+    }
+    QooizPlayer.PdfViewer = PdfViewer;
+    /**
+     * Просмотр документов через собственный сервис конвертации (см. опцию плеера documentConverter).
+     * Если сервис не настроен, вместо документа показывается ссылка на его скачивание
+     */
+    class ConverterViewer {
+        /**
+         * Создать элемент просмотра документа
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src, type, player) {
+            const url = player.getDocumentUrl(src, type);
+            if (url) {
+                const book = document.createElement('iframe');
+                book.setAttribute('src', url);
+                book.allowFullscreen = true;
+                return book;
+            }
+            const unavailable = document.createElement('div'), message = document.createElement('p'), link = document.createElement('a');
+            unavailable.classList.add('document-unavailable');
+            message.textContent = player.t('documentUnavailable');
+            link.href = src;
+            link.download = '';
+            link.textContent = player.t('documentDownload');
+            unavailable.append(message, link);
+            return unavailable;
+        }
+    }
+    QooizPlayer.ConverterViewer = ConverterViewer;
+    /**
+     * Рендеринг книг в плеере
+     */
+    class BookRenderer extends Renderer {
+        constructor() {
+            super(...arguments);
+            this.types = [
+                'pdf',
+                'doc',
+                'docx',
+                'odt',
+                'rtf',
+                'txt',
+                'ppt',
+                'pptx',
+                'odp',
+                'xls',
+                'xlsx',
+                'ods',
+                'application/pdf',
+                'application/msword',
+                'application/vnd.*',
+                'text/*'
+            ];
+            /**
+             * Просмотрщики документов по форматам
+             */
+            this.viewers = {
+                pdf: new PdfViewer()
+            };
+            /**
+             * Просмотрщик для форматов без собственного просмотрщика
+             */
+            this.defaultViewer = new ConverterViewer();
+        }
+        /**
+         * Зарегистрировать просмотрщик формата документов
+         *
+         * @param {string} type - формат документа (расширение файла)
+         * @param {IDocumentViewer} viewer - просмотрщик
+         */
+        registerViewer(type, viewer) {
+            this.viewers[type] = viewer;
+        }
+        /**
+         * Элемент сопоставляется по исходной ссылке на документ, а не по адресу просмотрщика
+         *
+         * @param {HTMLElement} element
+         * @param {string} src - ссылка на документ
+         *
+         * @returns {boolean}
+         */
+        match(element, src) {
+            return element.dataset.src === src;
+        }
+        /**
+         * Создать блок просмотра книги
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper, curImage, player) {
+            let bookSrc = this.source(curImage), bookSrcMatches = bookSrc.split(/[?#]/)[0].match(/.+?\.([^./]+)$/), bookType = (curImage.dataset.type || '').toLowerCase();
+            if (bookType === 'application/pdf') {
+                bookType = 'pdf';
+            }
+            else if (!bookType || bookType === 'book' || bookType.indexOf('/') !== -1) {
+                bookType = bookSrcMatches ? bookSrcMatches[1].toLowerCase() : '';
+            }
+            if (!bookSrc || !bookType) {
+                return null;
+            }
+            const book = (this.viewers[bookType] || this.defaultViewer).create(bookSrc, bookType, player);
+            if (!book) {
+                return null;
+            }
+            book.dataset.src = bookSrc;
+            mainWrapper.insertAdjacentElement('beforeend', book);
+            return book;
+        }
+    }
+    QooizPlayer.BookRenderer = BookRenderer;
+    /**
+     * Рендеринг аудио в плеере: обложка из превью, волновая форма и аудиоэлемент
+     */
+    class AudioRenderer extends Renderer {
+        constructor() {
+            super(...arguments);
+            this.types = [
+                'mp3',
+                'm4a',
+                'aac',
+                'oga',
+                'ogg',
+                'opus',
+                'wav',
+                'flac',
+                'weba',
+                'audio/*'
+            ];
+            /**
+             * Построения волновых форм, отложенные до показа заранее созданного блока аудио
+             */
+            this.pendingWaveforms = new WeakMap();
+        }
+        /**
+         * Получить волновую форму аудио: пиковые значения столбцов от 0 до 1.
+         * Аудио загружается и декодируется через Web Audio API один раз для каждой ссылки.
+         * Файлы больше waveformMaxBytes, а также файлы неизвестного размера не загружаются
+         *
+         * @param {string} src - ссылка на аудио
+         * @param {number} size - размер файла, если он известен заранее (иначе берется из Content-Length)
+         *
+         * @returns {Promise<number[]>}
+         */
+        static waveform(src, size) {
+            const cached = AudioRenderer.peaks.get(src);
+            if (cached) {
+                return cached;
+            }
+            const AudioContextClass = window['AudioContext'] || window['webkitAudioContext'];
+            if (!AudioContextClass) {
+                return Promise.reject(new Error('Web Audio API is not supported'));
+            }
+            if (size !== undefined && size > AudioRenderer.waveformMaxBytes) {
+                return Promise.reject(new Error('File is too large'));
+            }
+            const controller = window['AbortController'] ? new AbortController() : null;
+            const peaks = fetch(src, controller ? { signal: controller.signal } : {}).then(function (response) {
+                const length = size !== undefined ? size : parseInt(response.headers.get('Content-Length') || '', 10);
+                if (!response.ok || !(length <= AudioRenderer.waveformMaxBytes)) {
+                    controller && controller.abort();
+                    throw new Error(response.ok ? 'File is too large' : response.statusText);
+                }
+                return response.arrayBuffer();
+            }).then(function (data) {
+                const context = new AudioContextClass();
+                return new Promise(function (resolve, reject) {
+                    context.decodeAudioData(data, resolve, reject);
+                }).then(function (buffer) {
+                    context.close();
+                    return AudioRenderer.computePeaks(buffer, AudioRenderer.waveformBars);
+                }, function (error) {
+                    context.close();
+                    throw error;
+                });
+            });
+            peaks.catch(function () {
+                AudioRenderer.peaks.delete(src);
+            });
+            AudioRenderer.peaks.set(src, peaks);
+            return peaks;
+        }
+        /**
+         * Пиковые значения столбцов по всем каналам, нормированные к наибольшему
+         *
+         * @param {AudioBuffer} buffer - декодированное аудио
+         * @param {number} bars - количество столбцов
+         *
+         * @returns {number[]}
+         */
+        static computePeaks(buffer, bars) {
+            const size = Math.max(1, Math.floor(buffer.length / bars)), peaks = new Array(bars).fill(0);
+            for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+                const data = buffer.getChannelData(channel);
+                for (let bar = 0; bar < bars; bar++) {
+                    const end = Math.min((bar + 1) * size, data.length);
+                    for (let i = bar * size; i < end; i++) {
+                        const value = Math.abs(data[i]);
+                        value > peaks[bar] && (peaks[bar] = value);
+                    }
+                }
+            }
+            const max = Math.max.apply(null, peaks) || 1;
+            return peaks.map(peak => peak / max);
+        }
+        /**
+         * Нарисовать волновую форму
+         *
+         * @param {HTMLCanvasElement} canvas - холст
+         * @param {number[]} peaks - пиковые значения столбцов
+         * @param {number} progress - воспроизведенная доля от 0 до 1
+         */
+        static drawWaveform(canvas, peaks, progress = 0) {
+            const context = canvas.getContext('2d'), width = canvas.width, height = canvas.height, step = width / peaks.length;
+            context.clearRect(0, 0, width, height);
+            peaks.forEach(function (peak, index) {
+                const barHeight = Math.max(1, peak * height);
+                context.fillStyle = (index + 0.5) / peaks.length <= progress
+                    ? AudioRenderer.waveformColors.played
+                    : AudioRenderer.waveformColors.rest;
+                context.fillRect(index * step, (height - barHeight) / 2, Math.max(1, step * 0.7), barHeight);
+            });
+        }
+        /**
+         * Аудио сопоставляется по исходной ссылке, так как элемент блока просмотра - обертка аудиоэлемента
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        match(element, src) {
+            return element.dataset.src === src;
+        }
+        /**
+         * Создать блок аудио
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        create(mainWrapper, curImage, player) {
+            const wrapper = this.build(mainWrapper, curImage, player);
+            wrapper && this.loadWaveform(wrapper);
+            return wrapper;
+        }
+        /**
+         * Создать блок аудио: обложку, холст волновой формы и аудиоэлемент. Построение волновой формы
+         * откладывается до показа блока
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        build(mainWrapper, curImage, player) {
+            const audioSrc = this.source(curImage), item = player.getItem(curImage);
+            if (!audioSrc) {
+                return null;
+            }
+            const wrapper = document.createElement('div'), cover = document.createElement('div'), canvas = document.createElement('canvas'), audio = Utils.GoodFuncs.createElementWithAttrs('audio', {
+                preload: 'metadata',
+                controlsList: 'nodownload',
+                text: player.t('audioUnavailable')
+            });
+            wrapper.classList.add('audio-player');
+            wrapper.dataset.src = audioSrc;
+            cover.classList.add('audio-cover');
+            curImage.dataset.src && (cover.style.backgroundImage = `url("${curImage.dataset.src}")`);
+            canvas.classList.add('waveform');
+            canvas.width = AudioRenderer.waveformBars * 4;
+            canvas.height = 64;
+            canvas.setAttribute('role', 'presentation');
+            audio.controls = player.videoControls === 'native';
+            audio.src = audioSrc;
+            wrapper.append(cover, canvas, audio);
+            mainWrapper.insertAdjacentElement('beforeend', wrapper);
+            this.setWaveform(wrapper, audio, item && Array.isArray(item.peaks) ? item.peaks : null, player.waveform);
+            return wrapper;
+        }
+        /**
+         * Построить отложенную волновую форму блока аудио
+         *
+         * @param {HTMLElement} element - блок аудио
+         */
+        loadWaveform(element) {
+            const load = this.pendingWaveforms.get(element);
+            if (load) {
+                this.pendingWaveforms.delete(element);
+                load();
+            }
+        }
+        /**
+         * Отображать на волновой форме прогресс и перематывать аудио кликом по ней.
+         * Волновая форма берется из элемента (peaks) или, если включена опция плеера waveform, строится
+         * декодированием аудио при показе блока. Без нее, а также если аудио не удалось декодировать
+         * (слишком большой файл, CORS), волновая форма скрывается
+         *
+         * @param {HTMLDivElement} wrapper - блок аудио
+         * @param {HTMLAudioElement} audio - аудиоэлемент
+         * @param {number[] | null} initial - готовые пиковые значения
+         * @param {boolean} decode - строить ли волновую форму декодированием аудио
+         */
+        setWaveform(wrapper, audio, initial, decode) {
+            const canvas = wrapper.querySelector('canvas');
+            let peaks = initial || [];
+            const draw = function () {
+                peaks.length && AudioRenderer.drawWaveform(canvas, peaks, isFinite(audio.duration) && audio.duration ? audio.currentTime / audio.duration : 0);
+            };
+            if (peaks.length) {
+                draw();
+            }
+            else if (decode) {
+                this.pendingWaveforms.set(wrapper, function () {
+                    AudioRenderer.waveform(audio.src).then(function (result) {
+                        peaks = result;
+                        draw();
+                    }, function () {
+                        canvas.hidden = true;
+                    });
+                });
+            }
+            else {
+                canvas.hidden = true;
+            }
+            audio.addEventListener('timeupdate', draw);
+            audio.addEventListener('seeked', draw);
+            canvas.addEventListener('click', function (e) {
+                const rect = canvas.getBoundingClientRect();
+                if (isFinite(audio.duration) && rect.width) {
+                    audio.currentTime = (e.clientX - rect.left) / rect.width * audio.duration;
+                }
+            });
+        }
+        /**
+         * При показе заранее созданного блока строится его волновая форма
+         *
+         * @param {HTMLElement} element
+         */
+        show(element) {
+            super.show(element);
+            this.loadWaveform(element);
+        }
+        /**
+         * Скрытое аудио ставится на паузу, кроме заранее запущенного для перехода без паузы (класс gapless)
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element) {
+            const audio = element.querySelector('audio');
+            audio && !element.classList.contains('gapless') && audio.pause();
+            super.hide(element);
+        }
+        /**
+         * Для соседнего аудио заранее создается блок, который загружает только метаданные (preload=metadata);
+         * волновая форма строится, только когда блок будет показан
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        preload(mainWrapper, curImage, player) {
+            return this.build(mainWrapper, curImage, player);
+        }
+    }
+    /**
+     * Количество столбцов волновой формы
+     */
+    AudioRenderer.waveformBars = 200;
+    /**
+     * Цвета волновой формы: воспроизведенная и оставшаяся части
+     */
+    AudioRenderer.waveformColors = {
+        played: '#26a69a',
+        rest: 'rgba(255, 255, 255, 0.5)'
+    };
+    /**
+     * Наибольший размер файла в байтах, который декодируется для построения волновой формы.
+     * Декодированное аудио занимает в памяти во много раз больше исходного файла
+     */
+    AudioRenderer.waveformMaxBytes = 10 * 1024 * 1024;
+    /**
+     * Вычисленные волновые формы по ссылкам на аудио
+     */
+    AudioRenderer.peaks = new Map();
+    QooizPlayer.AudioRenderer = AudioRenderer;
+    /**
+     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
+     * Тип каждого элемента определяется отдельно, поэтому в одном плеере можно смешивать разные типы.
+     */
+    class Player {
+        /**
+         * Конструктор
+         *
+         * @param {HTMLElement} element - на каком элементе загружается плеер
+         * @param {IPlayerOptions} cnf - объект конфигурации
+         */
+        constructor(element, cnf = {}) {
+            /**
+             * Состояние из адреса, которое применяется при первой загрузке элементов
+             */
+            this.linkState = null;
+            /**
+             * Блок точек для расположения dots
+             */
+            this.dotsElement = null;
+            /**
+             * Блок с кнопкой добавления файлов
+             */
+            this.editorElement = null;
+            /**
+             * Блок скрытых полей формы
+             */
+            this.fieldsElement = null;
+            /**
+             * Локальные ссылки на файлы добавленных элементов
+             */
+            this.objectUrls = new WeakMap();
+            /**
+             * Наблюдатель за изображениями разметки
+             */
+            this.mutationObserver = null;
+            /**
+             * Элементы плеера по изображениям разметки в режиме наблюдения
+             */
+            this.sourceImages = new Map();
+            /**
+             * Таймеры ожидания загрузки фреймов; при уничтожении плеера сбрасываются
+             */
+            this.loadTimers = new Map();
+            /**
+             * Наблюдатель за появлением превью в ленте для их отложенной загрузки
+             */
+            this.thumbnailObserver = null;
+            /**
+             * Элементы блока просмотра в порядке последнего использования
+             */
+            this.recentElements = [];
+            /**
+             * Сохраненные позиции воспроизведения элементов
+             */
+            this.playbackPositions = new WeakMap();
+            /**
+             * Элементы, еще не воспроизведенные в текущем круге случайного порядка; null - круг не начат
+             */
+            this.shuffleQueue = null;
+            /**
+             * Таймер обратного отсчета перед переходом к следующему элементу
+             */
+            this.autoplayTimer = 0;
+            /**
+             * Блок обратного отсчета
+             */
+            this.autoplayOverlay = null;
+            /**
+             * Превью аудио, которое заранее загружается для перехода после текущего
+             */
+            this.primedItem = null;
+            /**
+             * Блок заранее загружаемого аудио; пока он запущен к концу текущего, у него есть класс gapless
+             */
+            this.primedElement = null;
+            /**
+             * Таймер запуска заранее загруженного аудио
+             */
+            this.gaplessTimer = 0;
+            /**
+             * Собственная панель управления видео
+             */
+            this.controls = null;
+            /**
+             * Отображаемый элемент блока просмотра
+             */
+            this.currentElement = null;
+            /**
+             * Громкость и скорость воспроизведения, общие для всех элементов плеера
+             */
+            this.mediaState = {
+                volume: 1,
+                muted: false,
+                playbackRate: 1,
+                captionLanguage: '',
+                quality: '',
+                audioLanguage: ''
+            };
+            this.animationDuration = 400;
+            /**
+             * Уникальный идентификатор плеера
+             */
+            this.uniq = Utils.GoodFuncs.getRandomString(12);
+            /**
+             * Тип плеера - имя рендерера по умолчанию
+             */
+            this.type = '';
+            /**
+             * Текущее смещение ленты превью
+             */
+            this.prevScroll = 0;
+            /**
+             * Смещения превью в ленте, последний элемент - общая ширина ленты
+             */
+            this.offsets = [0];
+            /**
+             * Измеренные ширины превью
+             */
+            this.itemSizes = new WeakMap();
+            /**
+             * Ширина еще не измеренного превью
+             */
+            this.estimatedSize = 0;
+            /**
+             * Наблюдатель за размерами ленты и превью
+             */
+            this.resizeObserver = null;
+            /**
+             * Таймер отрисовки ленты после окончания анимации
+             */
+            this.stripTimer = 0;
+            this.images = [];
+            /**
+             * Данные элементов плеера
+             */
+            this.itemsData = new WeakMap();
+            this.position = 0;
+            this.fullscreenButtonAdded = false;
+            /**
+             * Находился ли плеер в полноэкранном режиме при последней проверке
+             */
+            this.fullscreenActive = false;
+            /**
+             * Была ли лента превью только что перетащена (чтобы не срабатывал клик по превью)
+             */
+            this.dragged = false;
+            /**
+             * Перетаскивается ли превью для изменения порядка элементов
+             */
+            this.reordering = false;
+            /**
+             * Обработчики событий плеера
+             */
+            this.listeners = {};
+            /**
+             * Функции, снимающие обработчики событий документа и окна
+             */
+            this.cleanups = [];
+            /**
+             * Изображения разметки, убранные плеером, и их исходные места
+             */
+            this.detachedMarkup = [];
+            /**
+             * Был ли у элемента класс player до загрузки плеера
+             */
+            this.hadPlayerClass = false;
+            /**
+             * Уничтожен ли плеер
+             */
+            this.destroyed = false;
+            /**
+             * Идет ли пересборка плеера
+             */
+            this.updating = false;
+            const instance = Player.instances.get(element);
+            if (instance) {
+                return instance;
+            }
+            Player.instances.set(element, this);
+            this.playerElement = element;
+            this.hadPlayerClass = element.classList.contains('player');
+            this.styleFilePath = (cnf.styleFilePath || Player.defaultOptions.styleFilePath);
+            this.activate = !element.classList.contains('no-active');
+            this.mainWrapperClass = (cnf.mainWrapperClass || Player.defaultOptions.mainWrapperClass);
+            this.imageWrapperClass = (cnf.imageWrapperClass || Player.defaultOptions.imageWrapperClass);
+            this.scrollButtonsWidth = (cnf.scrollButtonsWidth || Player.defaultOptions.scrollButtonsWidth);
+            this.scrollButtonsPadding
+                = (cnf.scrollButtonsPadding || Player.defaultOptions.scrollButtonsPadding);
+            this.imageStopClass = (cnf.imageStopClass || Player.defaultOptions.imageStopClass);
+            this.loop = (cnf.loop || Player.defaultOptions.loop);
+            this.swipe = (cnf.swipe !== undefined ? cnf.swipe : Player.defaultOptions.swipe);
+            this.dragThreshold = (cnf.dragThreshold || Player.defaultOptions.dragThreshold);
+            this.swipeThreshold = (cnf.swipeThreshold || Player.defaultOptions.swipeThreshold);
+            this.dragInertia
+                = (cnf.dragInertia !== undefined ? cnf.dragInertia : Player.defaultOptions.dragInertia);
+            this.reorderable = (cnf.reorderable || Player.defaultOptions.reorderable);
+            this.reorderDelay = (cnf.reorderDelay || Player.defaultOptions.reorderDelay);
+            this.documentConverter = cnf.documentConverter || Player.defaultOptions.documentConverter || '';
+            this.videoControls = (cnf.videoControls || Player.defaultOptions.videoControls);
+            this.continuous = (cnf.continuous || Player.defaultOptions.continuous);
+            this.autoplayCountdown = (cnf.autoplayCountdown || Player.defaultOptions.autoplayCountdown);
+            this.repeat = (cnf.repeat || Player.defaultOptions.repeat);
+            this.shuffle = (cnf.shuffle || Player.defaultOptions.shuffle);
+            this.resume = (cnf.resume || Player.defaultOptions.resume);
+            this.gapless = (cnf.gapless !== undefined ? cnf.gapless : Player.defaultOptions.gapless);
+            this.mediaSession = (cnf.mediaSession !== undefined ? cnf.mediaSession : Player.defaultOptions.mediaSession);
+            this.waveform = (cnf.waveform !== undefined ? cnf.waveform : Player.defaultOptions.waveform);
+            this.imageViewer = (cnf.imageViewer || Player.defaultOptions.imageViewer);
+            this.lazyThumbnails = (cnf.lazyThumbnails !== undefined ? cnf.lazyThumbnails : Player.defaultOptions.lazyThumbnails);
+            this.preload = (cnf.preload !== undefined ? cnf.preload : Player.defaultOptions.preload);
+            this.cacheSize = (cnf.cacheSize !== undefined ? cnf.cacheSize : Player.defaultOptions.cacheSize);
+            this.loadTimeout
+                = (cnf.loadTimeout !== undefined ? cnf.loadTimeout : Player.defaultOptions.loadTimeout);
+            this.emptyTemplate = (cnf.emptyTemplate || Player.defaultOptions.emptyTemplate);
+            this.observe = (cnf.observe || Player.defaultOptions.observe);
+            this.i18n = (cnf.i18n || Player.defaultOptions.i18n);
+            this.titleLength = (cnf.titleLength || Player.defaultOptions.titleLength);
+            this.locale = this.i18n.locale || document.documentElement.lang || 'ru';
+            const language = this.locale.split('-')[0].toLowerCase();
+            this.messages = Object.assign({}, Player.messages[language] || Player.messages.ru, this.i18n.messages);
+            this.rtl = this.i18n.direction === 'rtl' || (this.i18n.direction !== 'ltr'
+                && (window.getComputedStyle(element).direction === 'rtl' || Player.rtlLanguages.indexOf(language) !== -1));
+            this.emptyPlayerImage = element.querySelector(`img.${this.imageStopClass}`);
+            this.deepLink = (cnf.deepLink || Player.defaultOptions.deepLink);
+            this.deepLinkKey = cnf.deepLinkKey || element.id || (this.deepLink === 'none' ? 'player' : Player.unnamedLinkKey());
+            this.editable = (cnf.editable || Player.defaultOptions.editable);
+            this.accept = (cnf.accept !== undefined ? cnf.accept : Player.defaultOptions.accept);
+            this.uploader = cnf.uploader;
+            this.formField = (cnf.formField || Player.defaultOptions.formField);
+            this.layout = (cnf.layout || Player.defaultOptions.layout);
+            this.gridRows = Math.max(1, (cnf.gridRows || Player.defaultOptions.gridRows));
+            this.thumbnailWidth = (cnf.thumbnailWidth || Player.defaultOptions.thumbnailWidth);
+            this.thumbnailHeight = (cnf.thumbnailHeight || Player.defaultOptions.thumbnailHeight);
+            element.classList.add('player');
+            this.rtl && element.classList.add('rtl');
+            element.insertAdjacentHTML('beforeend', `<div class="${this.mainWrapperClass}"></div>`);
+            element.insertAdjacentHTML('beforeend', `<div class="${this.imageWrapperClass}"><div class="track"></div></div>`);
+            this.imageWrapper = element.querySelector(`.${this.imageWrapperClass}`);
+            this.mainWrapper = element.querySelector(`.${this.mainWrapperClass}`);
+            this.track = this.imageWrapper.querySelector('.track');
+            if (this.videoControls === 'custom') {
+                this.controls = this.createControls();
+            }
+            this.mediaOptions = this.createMediaOptions();
+            this.updateControls();
+            this.emptyElement = this.createEmptyState();
+            this.errorElement = this.createErrorState();
+            this.imageWrapper.classList.add(this.uniq);
+            this.imageWrapper.setAttribute('role', 'listbox');
+            this.imageWrapper.setAttribute('aria-orientation', this.vertical ? 'vertical' : 'horizontal');
+            this.imageWrapper.setAttribute('aria-label', this.t('itemList'));
+            this.statusElement = Utils.GoodFuncs.createElementWithAttrs('div', {
+                'class': 'player-status',
+                'role': 'status',
+                'aria-live': 'polite'
+            });
+            element.appendChild(this.statusElement);
+            this.setRender();
+            this.setImageClick();
+            this.setDeleteClick();
+            this.setKeyboard();
+            this.setScroll();
+            this.setDrag();
+            this.setReorder();
+            this.setSwipe();
+            this.setResize();
+            this.setLightboxKeyboard();
+            this.setFullscreen();
+            this.setLazyThumbnails();
+            this.setEditMode();
+            this.setLayout();
+            this.setDeepLink();
+            this.update();
+            this.setObserve();
+        }
+        /**
+         * Зарегистрировать рендерер.
+         * Плеер использует рендерер, если у блока плеера есть класс с именем рендерера
+         *
+         * @param {string} name - имя рендерера
+         * @param {IRenderer} renderer - рендерер
+         */
+        static registerRenderer(name, renderer) {
+            Player.renderers[name] = renderer;
+        }
+        /**
+         * Получить зарегистрированный рендерер
+         *
+         * @param {string} name - имя рендерера
+         *
+         * @returns {IRenderer | null}
+         */
+        static getRenderer(name) {
+            return Player.renderers[name] || null;
+        }
+        /**
+         * Найти рендерер, отображающий ресурсы заданного типа
+         *
+         * @param {string} type - расширение файла или MIME-тип
+         *
+         * @returns {string} - имя рендерера или пустая строка
+         */
+        static findRenderer(type) {
+            type = type.toLowerCase();
+            if (!type) {
+                return '';
+            }
+            for (let name of Object.keys(Player.renderers)) {
+                const supported = (Player.renderers[name].types || []).some(function (rendererType) {
+                    return rendererType === type
+                        || (rendererType.endsWith('/*') && type.startsWith(rendererType.slice(0, -1)));
+                });
+                if (supported) {
+                    return name;
+                }
+            }
+            return '';
+        }
+        /**
+         * Начало рендеринга: скрыть всё, что отображалось ранее
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {HTMLSpanElement[]} images - все превью плеера
+         */
+        static renderInit(mainWrapper, curImage, images) {
+            if (curImage.classList.contains('current')) {
+                return;
+            }
+            Array.from(mainWrapper.children).forEach(function (element) {
+                const renderer = Player.getRenderer(element.dataset.renderer || '');
+                renderer && renderer.hide(element);
+            });
+            images.forEach(function (imageSpan) {
+                imageSpan.classList.remove('current');
+                imageSpan.setAttribute('aria-selected', 'false');
+            });
+            curImage.classList.add('current');
+            curImage.setAttribute('aria-selected', 'true');
+        }
+        /**
+         * Обрезать текст до заданного числа символов, не разрывая составные символы (эмодзи, буквы с диакритикой)
+         *
+         * @param {string} text - текст
+         * @param {number} length - максимальное число символов
+         * @param {string} locale - локаль
+         *
+         * @returns {string}
+         */
+        static truncate(text, length, locale = '') {
+            const Segmenter = Intl['Segmenter'], graphemes = Segmenter
+                ? Array.from(new Segmenter(locale || undefined, { granularity: 'grapheme' }).segment(text), (part) => part.segment)
+                : Array.from(text);
+            return graphemes.length > length ? graphemes.slice(0, length).join('').replace(/\s+$/, '') + '…' : text;
+        }
+        /**
+         * Текст интерфейса с подставленными параметрами
+         *
+         * @param {string} key - ключ текста
+         * @param {Object} params - параметры вида {name}
+         *
+         * @returns {string}
+         */
+        t(key, params = {}) {
+            return this.messages[key].replace(/{(\w+)}/g, function (match, name) {
+                return params[name] !== undefined ? String(params[name]) : match;
+            });
+        }
+        /**
+         * Форматировать время воспроизведения
+         *
+         * @param {number} time - время в секундах
+         *
+         * @returns {string}
+         */
+        static formatTime(time) {
+            const seconds = Math.floor(time % 60), minutes = Math.floor(time / 60) % 60, hours = Math.floor(time / 3600);
+            return (hours ? `${hours}:${minutes < 10 ? '0' : ''}` : '') + `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+        }
+        /**
+         * Имя параметра адреса для плеера без id: player, player2, player3 и т. д. в порядке создания
+         *
+         * @returns {string}
+         */
+        static unnamedLinkKey() {
+            Player.unnamedLinks++;
+            return Player.unnamedLinks > 1 ? `player${Player.unnamedLinks}` : 'player';
+        }
+        /**
+         * Плеер, загруженный на элементе
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {Player | null}
+         */
+        static getInstance(element) {
+            return Player.instances.get(element) || null;
+        }
+        /**
+         * Загрузить плееры на всех элементах с атрибутом data-player внутри root.
+         * Значение атрибута может содержать JSON с опциями плеера; элементы с некорректным JSON пропускаются,
+         * уже загруженные плееры не создаются повторно
+         *
+         * @param {ParentNode} root - где искать элементы
+         * @param {IPlayerOptions} cnf - объект конфигурации по умолчанию
+         *
+         * @returns {Player[]}
+         */
+        static autoInit(root = document, cnf = {}) {
+            const elements = Array.from(root.querySelectorAll('[data-player]'));
+            if (root instanceof HTMLElement && root.matches('[data-player]')) {
+                elements.unshift(root);
+            }
+            return elements.reduce(function (players, element) {
+                const options = element.dataset.player ? Player.parseJson(element.dataset.player) : {};
+                if (options) {
+                    players.push(Player.getInstance(element) || new Player(element, Object.assign({}, cnf, options)));
+                }
+                return players;
+            }, []);
+        }
+        /**
+         * Добавить обработчик события, который будет снят при уничтожении плеера
+         *
+         * @param {EventTarget} target - цель события
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         */
+        listen(target, type, listener) {
+            target.addEventListener(type, listener);
+            this.cleanups.push(function () {
+                target.removeEventListener(type, listener);
+            });
+        }
+        /**
+         * Убрать изображение разметки, запомнив его место для восстановления при уничтожении плеера
+         *
+         * @param {HTMLImageElement} image
+         */
+        detachMarkup(image) {
+            if (image.parentNode) {
+                this.detachedMarkup.push({ image: image, parent: image.parentNode, next: image.nextSibling });
+                image.remove();
+            }
+        }
+        /**
+         * Уничтожить плеер: снять обработчики, удалить созданные элементы и медиа, восстановить исходную разметку
+         */
+        destroy() {
+            if (this.destroyed) {
+                return;
+            }
+            const self = this;
+            this.destroyed = true;
+            this.cancelAutoplay();
+            this.cancelGapless();
+            this.closeLightbox();
+            this.playerElement.classList.contains('pseudo-fullscreen')
+                ? this.setPseudoFullscreen(false)
+                : this.exitFullscreen().catch(function () { });
+            clearTimeout(this.stripTimer);
+            this.loadTimers.forEach(timer => clearTimeout(timer));
+            this.loadTimers.clear();
+            this.resizeObserver && this.resizeObserver.disconnect();
+            this.thumbnailObserver && this.thumbnailObserver.disconnect();
+            this.mutationObserver && this.mutationObserver.disconnect();
+            this.sourceImages.forEach(function (span, image) {
+                image.classList.remove('player-source');
+            });
+            this.sourceImages.clear();
+            this.cleanups.forEach(cleanup => cleanup());
+            this.cleanups = [];
+            this.getRendered().forEach(function (element) {
+                const renderer = Player.getRenderer(element.dataset.renderer || ''), media = Player.mediaOf(element);
+                if (media) {
+                    media.pause();
+                    media.removeAttribute('src');
+                    media.load();
+                }
+                renderer ? renderer.destroy(element) : element.remove();
+            });
+            this.clearMediaSession();
+            this.currentElement = null;
+            this.images = [];
+            this.listeners = {};
+            this.mainWrapper.remove();
+            this.imageWrapper.remove();
+            this.statusElement.remove();
+            this.dotsElement && this.dotsElement.remove();
+            this.editorElement && this.editorElement.remove();
+            this.fieldsElement && this.fieldsElement.remove();
+            this.detachedMarkup.reverse().forEach(function (markup) {
+                markup.parent.insertBefore(markup.image, markup.next && markup.next.parentNode === markup.parent ? markup.next : null);
+            });
+            this.detachedMarkup = [];
+            ['empty', 'rtl', 'drop-active', 'fullscreen-active', 'pseudo-fullscreen', 'layout-' + this.layout].forEach(function (className) {
+                self.playerElement.classList.remove(className);
+            });
+            ['--thumbnail-width', '--thumbnail-height', '--grid-rows'].forEach(function (property) {
+                self.playerElement.style.removeProperty(property);
+            });
+            this.hadPlayerClass || this.playerElement.classList.remove('player');
+            Player.instances.delete(this.playerElement);
+        }
+        /**
+         * Добавить обработчик события плеера
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        on(type, listener) {
+            (this.listeners[type] = this.listeners[type] || []).push(listener);
+            return this;
+        }
+        /**
+         * Удалить обработчик события плеера. Без обработчика удаляются все обработчики события
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        off(type, listener) {
+            if (!listener) {
+                delete this.listeners[type];
+                return this;
+            }
+            this.listeners[type] = (this.listeners[type] || []).filter(function (handler) {
+                return handler !== listener && handler['listener'] !== listener;
+            });
+            return this;
+        }
+        /**
+         * Добавить обработчик, который сработает один раз
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        once(type, listener) {
+            const self = this, handler = function (event) {
+                self.off(type, handler);
+                listener.call(self, event);
+            };
+            handler['listener'] = listener;
+            return this.on(type, handler);
+        }
+        /**
+         * Сгенерировать событие плеера.
+         * Кроме обработчиков плеера событие отправляется в DOM на блок плеера с именем вида playerSelect
+         *
+         * @param {string} type - тип события
+         * @param {HTMLSpanElement | null} item - превью
+         * @param {number} index - индекс превью
+         * @param {Object} data - дополнительные данные события
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
+         *
+         * @returns {boolean} - false, если действие по умолчанию было отменено
+         */
+        emit(type, item, index, data = {}, cancelable = false) {
+            const event = Object.assign(new PlayerEvent(type, this.id, item, index, cancelable), data);
+            for (let listener of (this.listeners[type] || []).slice()) {
+                listener.call(this, event);
+            }
+            const domEvent = new CustomEvent('player' + type.charAt(0).toUpperCase() + type.slice(1), {
+                detail: event,
+                bubbles: true,
+                cancelable: cancelable
+            });
+            if (!this.playerElement.dispatchEvent(domEvent)) {
+                event.preventDefault();
+            }
+            return !event.defaultPrevented;
+        }
+        /**
+         * Показать заглушку и сообщить об опустевшем плеере
+         */
+        checkEmpty() {
+            if (this.updating || this.images.length) {
+                return;
+            }
+            this.playerElement.classList.add('empty');
+            this.showState('ready');
+            this.emit('empty', null, -1);
+        }
+        /**
+         * Выбрать рендерер по умолчанию по классу блока плеера
+         */
+        setRender() {
+            for (let name of Object.keys(Player.renderers)) {
+                if (this.playerElement.classList.contains(name)) {
+                    this.type = name;
+                    return;
+                }
+            }
+        }
+        /**
+         * Выбрать рендерер для превью: по атрибуту data-type (имя рендерера, расширение или MIME-тип),
+         * затем по расширению файла ресурса, иначе используется рендерер плеера по умолчанию
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {string}
+         */
+        resolveRenderer(curImage) {
+            const type = (curImage.dataset.type || '').toLowerCase();
+            if (Player.getRenderer(type)) {
+                return type;
+            }
+            const src = (curImage.dataset.objectSrc || curImage.dataset.src || '').split(/[?#]/)[0], srcMatches = src.match(/\.([^./]+)$/);
+            return Player.findRenderer(type)
+                || Player.findRenderer(srcMatches ? srcMatches[1] : '')
+                || this.type;
+        }
+        /**
+         * Элементы блока просмотра, созданные рендерером
+         *
+         * @param {string} name - имя рендерера, без него возвращаются элементы всех рендереров
+         *
+         * @returns {HTMLElement[]}
+         */
+        getRendered(name) {
+            return Array.from(this.mainWrapper.children).filter(function (element) {
+                return name === undefined ? element.dataset.renderer !== undefined : element.dataset.renderer === name;
+            });
+        }
+        /**
+         * Отобразить ресурс превью в блоке просмотра
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null}
+         */
+        render(curImage) {
+            const name = curImage.dataset.renderer || '', renderer = Player.getRenderer(name);
+            if (!renderer) {
+                return null;
+            }
+            Player.renderInit(this.mainWrapper, curImage, this.images);
+            const src = renderer.source(curImage);
+            if (!src) {
+                this.setCurrentElement(null);
+                this.setFailed(curImage);
+                return null;
+            }
+            for (let element of this.getRendered(name)) {
+                if (renderer.match(element, src)) {
+                    renderer.show(element);
+                    this.touchElement(element);
+                    return this.setCurrentElement(element);
+                }
+            }
+            const element = renderer.create(this.mainWrapper, curImage, this);
+            element && this.registerElement(element, curImage, name);
+            this.setCurrentElement(element);
+            element || this.setFailed(curImage);
+            return element;
+        }
+        /**
+         * Подготовить созданный рендерером элемент блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} name - имя рендерера
+         */
+        registerElement(element, curImage, name) {
+            const self = this;
+            element.dataset.renderer = name;
+            element.addEventListener('error', function (e) {
+                const target = e.target;
+                if (target instanceof HTMLTrackElement
+                    || (target instanceof HTMLSourceElement
+                        && target.parentElement.networkState !== HTMLMediaElement.NETWORK_NO_SOURCE)) {
+                    return;
+                }
+                self.setLoadState(element, curImage, 'error');
+                self.emit('mediaError', curImage, self.images.indexOf(curImage), { element: element, error: e });
+            }, true);
+            this.bindMedia(element);
+            this.touchElement(element);
+            this.watchLoading(element, curImage);
+        }
+        /**
+         * Загружаемая часть элемента блока просмотра: изображение, медиа-элемент или фрейм
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLElement | null}
+         */
+        static loadable(element) {
+            const selector = 'img, video, audio, iframe';
+            return element.matches(selector) ? element : element.querySelector(selector);
+        }
+        /**
+         * Отслеживать загрузку элемента блока просмотра: пока он загружается, показывается индикатор загрузки,
+         * фрейм, не загрузившийся за loadTimeout, считается ошибкой, а документ PDF.js ждет событий load или error
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        watchLoading(element, curImage) {
+            const self = this, target = Player.loadable(element), pdf = PdfDocument.get(element);
+            if ((!target && !(pdf && !pdf.pages))
+                || (target instanceof HTMLImageElement && target.complete && target.naturalWidth > 0)
+                || (target instanceof HTMLMediaElement && target.readyState >= HTMLMediaElement.HAVE_METADATA)) {
+                this.setLoadState(element, curImage, 'ready');
+                return;
+            }
+            this.setLoadState(element, curImage, 'loading');
+            ['load', 'loadedmetadata', 'playing', 'canplay'].forEach(function (type) {
+                element.addEventListener(type, function () {
+                    element.dataset.state !== 'error' && self.setLoadState(element, curImage, 'ready');
+                }, true);
+            });
+            target instanceof HTMLMediaElement && target.addEventListener('waiting', function () {
+                self.setLoadState(element, curImage, 'loading');
+            });
+            if (target instanceof HTMLIFrameElement && this.loadTimeout > 0) {
+                this.loadTimers.set(element, window.setTimeout(function () {
+                    self.loadTimers.delete(element);
+                    if (element.dataset.state !== 'loading') {
+                        return;
+                    }
+                    self.setLoadState(element, curImage, 'error');
+                    self.emit('mediaError', curImage, self.images.indexOf(curImage), { element: element, error: new Event('timeout') });
+                }, this.loadTimeout));
+            }
+        }
+        /**
+         * Установить состояние загрузки элемента блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} state - loading, ready или error
+         */
+        setLoadState(element, curImage, state) {
+            element.dataset.state = state;
+            curImage.classList.toggle('failed', state === 'error');
+            if (state !== 'loading') {
+                clearTimeout(this.loadTimers.get(element));
+                this.loadTimers.delete(element);
+            }
+            if (element === this.currentElement) {
+                this.showState(state);
+                state === 'error' && this.announce(this.t('loadError'));
+            }
+        }
+        /**
+         * Отметить текущий элемент как недоступный, если рендерер не смог его отобразить
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        setFailed(curImage) {
+            curImage.classList.add('failed');
+            this.showState('error');
+        }
+        /**
+         * Показать индикатор загрузки или блок ошибки блока просмотра
+         *
+         * @param {string} state - loading, ready или error
+         */
+        showState(state) {
+            this.mainWrapper.classList.toggle('loading', state === 'loading');
+            this.mainWrapper.classList.toggle('failed', state === 'error');
+        }
+        /**
+         * Повторить загрузку текущего элемента
+         *
+         * @returns {HTMLElement | null}
+         */
+        retry() {
+            const current = this.current, element = this.currentElement;
+            if (!current) {
+                return null;
+            }
+            current.classList.remove('failed');
+            if (element) {
+                const renderer = Player.getRenderer(element.dataset.renderer || '');
+                renderer ? renderer.destroy(element) : element.remove();
+            }
+            return this.render(current);
+        }
+        /**
+         * Создать блок пустого плеера
+         *
+         * @returns {HTMLDivElement}
+         */
+        createEmptyState() {
+            const empty = document.createElement('div');
+            empty.classList.add('player-empty');
+            if (this.emptyTemplate) {
+                empty.innerHTML = this.emptyTemplate;
+            }
+            else if (this.emptyPlayerImage) {
+                this.detachMarkup(this.emptyPlayerImage);
+                empty.appendChild(this.emptyPlayerImage);
+            }
+            else {
+                empty.textContent = this.t('empty');
+            }
+            this.mainWrapper.appendChild(empty);
+            return empty;
+        }
+        /**
+         * Создать индикатор загрузки и блок ошибки загрузки
+         *
+         * @returns {HTMLDivElement} - блок ошибки
+         */
+        createErrorState() {
+            const self = this, error = document.createElement('div');
+            this.mainWrapper.insertAdjacentHTML('beforeend', `<div class="player-spinner" role="progressbar" aria-label="${this.t('loading')}"></div>`);
+            error.classList.add('media-error');
+            error.setAttribute('role', 'alert');
+            error.insertAdjacentHTML('beforeend', `
+                <span class="message">${this.t('loadError')}</span>
+                <button type="button" class="retry">${this.t('retry')}</button>
+            `);
+            error.querySelector('.retry').addEventListener('click', function () {
+                self.retry();
+            });
+            this.mainWrapper.appendChild(error);
+            return error;
+        }
+        /**
+         * Отметить элемент блока просмотра как использованный последним
+         *
+         * @param {HTMLElement} element
+         */
+        touchElement(element) {
+            this.recentElements = this.recentElements.filter(recent => recent !== element && recent.isConnected);
+            this.recentElements.push(element);
+        }
+        /**
+         * Заранее загрузить ресурсы соседних элементов
+         *
+         * @param {number} index - индекс выбранного элемента
+         */
+        preloadAround(index) {
+            const count = this.images.length;
+            for (let step = 1; step <= this.preload; step++) {
+                for (let neighbour of [index + step, index - step]) {
+                    if (this.loop) {
+                        neighbour = (neighbour % count + count) % count;
+                    }
+                    const image = this.images[neighbour];
+                    if (image && neighbour !== index) {
+                        this.loadThumbnail(image);
+                        this.preloadItem(image);
+                    }
+                }
+            }
+        }
+        /**
+         * Заранее загрузить ресурс элемента средствами его рендерера
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null} - созданный или уже существующий элемент блока просмотра
+         */
+        preloadItem(curImage) {
+            const name = curImage.dataset.renderer || '', renderer = Player.getRenderer(name), src = renderer ? renderer.source(curImage) : '';
+            if (!renderer || !renderer.preload || !src) {
+                return null;
+            }
+            for (let element of this.getRendered(name)) {
+                if (renderer.match(element, src)) {
+                    this.touchElement(element);
+                    return element;
+                }
+            }
+            const element = renderer.preload(this.mainWrapper, curImage, this);
+            if (element) {
+                renderer.hide(element);
+                this.registerElement(element, curImage, name);
+            }
+            return element;
+        }
+        /**
+         * Удалить давно показанные элементы блока просмотра сверх размера кэша.
+         * Текущий элемент и заранее загруженные соседи удаляются последними
+         */
+        evict() {
+            if (this.cacheSize <= 0) {
+                return;
+            }
+            const limit = Math.max(this.cacheSize, 1 + this.preload * 2);
+            this.recentElements = this.recentElements.filter(recent => recent.isConnected);
+            while (this.recentElements.length > limit) {
+                const element = this.recentElements[0] === this.currentElement
+                    ? this.recentElements.splice(1, 1)[0]
+                    : this.recentElements.shift(), renderer = Player.getRenderer(element.dataset.renderer || '');
+                renderer ? renderer.destroy(element) : element.remove();
+            }
+        }
+        /**
+         * Загрузить изображение превью
+         *
+         * @param {HTMLSpanElement} image - превью
+         */
+        loadThumbnail(image) {
+            if (!image.classList.contains('lazy')) {
+                return;
+            }
+            image.classList.remove('lazy');
+            image.style.backgroundImage = `url("${image.dataset.src}")`;
+            this.thumbnailObserver && this.thumbnailObserver.unobserve(image);
+        }
+        /**
+         * Отложенная загрузка превью при их приближении к видимой части ленты
+         */
+        setLazyThumbnails() {
+            if (!this.lazyThumbnails || !window['IntersectionObserver']) {
+                return;
+            }
+            const self = this;
+            this.thumbnailObserver = new IntersectionObserver(function (entries) {
+                entries.forEach(function (entry) {
+                    entry.isIntersecting && self.loadThumbnail(entry.target);
+                });
+            }, {
+                root: this.imageWrapper,
+                rootMargin: this.vertical ? '50% 0px' : '0px 50%'
+            });
+        }
+        /**
+         * Запомнить отображаемый элемент блока просмотра
+         *
+         * @param {HTMLElement | null} element
+         *
+         * @returns {HTMLElement | null}
+         */
+        setCurrentElement(element) {
+            this.currentElement = element;
+            this.showState(element ? element.dataset.state || 'ready' : 'ready');
+            const media = this.media, current = this.current;
+            if (media) {
+                this.applyMediaState(media);
+                current && this.restorePosition(current, media);
+            }
+            this.updateControls();
+            return element;
+        }
+        /**
+         * Следить за состоянием медиа-элемента
+         *
+         * @param {HTMLElement} element
+         */
+        bindMedia(element) {
+            const self = this, media = Player.mediaOf(element);
+            if (!media) {
+                return;
+            }
+            media.addEventListener('play', function () {
+                this === self.media && self.updateMediaSession();
+            });
+            media.addEventListener('volumechange', function () {
+                if (this === self.media) {
+                    self.mediaState.volume = this.volume;
+                    self.mediaState.muted = this.muted;
+                    self.updateControls();
+                }
+            });
+            media.addEventListener('ratechange', function () {
+                if (this === self.media) {
+                    self.mediaState.playbackRate = this.playbackRate;
+                    self.updateControls();
+                }
+            });
+            ['play', 'pause', 'timeupdate', 'durationchange'].forEach(function (type) {
+                media.addEventListener(type, function () {
+                    this === self.media && self.updateControls();
+                });
+            });
+            if (media instanceof HTMLAudioElement) {
+                media.addEventListener('timeupdate', function () {
+                    if (this === self.media) {
+                        self.primeNextAudio(this);
+                        self.scheduleGapless(this);
+                    }
+                });
+                // при окончании аудио событие pause приходит перед ended, запуск следующего при этом не отменяется
+                media.addEventListener('pause', function () {
+                    this === self.media && !this.ended && self.cancelGapless();
+                });
+                media.addEventListener('seeking', function () {
+                    this === self.media && self.cancelGapless();
+                });
+            }
+            media.addEventListener('ended', function () {
+                this === self.media && self.onMediaEnded();
+            });
+        }
+        /**
+         * Применить к медиа-элементу громкость и скорость, общие для всего плеера
+         *
+         * @param {HTMLMediaElement} media
+         */
+        applyMediaState(media) {
+            const state = this.mediaState, current = this.current, item = current ? this.getItem(current) : null;
+            media.volume = state.volume;
+            media.muted = state.muted;
+            media.defaultPlaybackRate = state.playbackRate;
+            media.playbackRate = state.playbackRate;
+            Array.from(media.textTracks).forEach(function (track) {
+                track.mode = state.captionLanguage && track.language === state.captionLanguage ? 'showing' : 'disabled';
+            });
+            if (media['audioTracks'] && state.audioLanguage) {
+                const audioTracks = Array.from(media['audioTracks']);
+                if (audioTracks.some(track => track.language === state.audioLanguage)) {
+                    audioTracks.forEach(function (track) {
+                        track.enabled = track.language === state.audioLanguage;
+                    });
+                }
+            }
+            if (media instanceof HTMLVideoElement
+                && item && item.sources
+                && state.quality
+                && item.sources.some(source => source.quality === state.quality)
+                && VideoRenderer.getQuality(media) !== state.quality) {
+                const time = media.currentTime, paused = media.paused;
+                VideoRenderer.setSources(media, item.sources, state.quality);
+                media.load();
+                media.addEventListener('loadedmetadata', function restore() {
+                    media.removeEventListener('loadedmetadata', restore);
+                    media.currentTime = time;
+                    paused || media.play().catch(function () { });
+                });
+            }
+        }
+        /**
+         * Отображаемый медиа-элемент (видео или аудио)
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        get media() {
+            return this.currentElement ? Player.mediaOf(this.currentElement) : null;
+        }
+        /**
+         * Медиа-элемент элемента блока просмотра: сам элемент или вложенное видео или аудио
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        static mediaOf(element) {
+            return element instanceof HTMLMediaElement ? element : element.querySelector('video, audio');
+        }
+        /**
+         * Начать воспроизведение
+         *
+         * @returns {Promise<void>}
+         */
+        play() {
+            const media = this.media;
+            return media ? media.play() : Promise.resolve();
+        }
+        /**
+         * Приостановить воспроизведение
+         */
+        pause() {
+            const media = this.media;
+            media && media.pause();
+        }
+        /**
+         * Перейти к моменту воспроизведения
+         *
+         * @param {number} time - время в секундах
+         */
+        seek(time) {
+            const media = this.media;
+            if (!media) {
+                return;
+            }
+            media.currentTime = Math.max(0, isFinite(media.duration) ? Math.min(time, media.duration) : time);
+        }
+        /**
+         * Установить громкость для всех элементов плеера
+         *
+         * @param {number} volume - громкость от 0 до 1
+         */
+        setVolume(volume) {
+            this.mediaState.volume = Math.max(0, Math.min(volume, 1));
+            this.mediaState.muted = false;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Включить или выключить звук для всех элементов плеера
+         *
+         * @param {boolean} muted
+         */
+        setMuted(muted) {
+            this.mediaState.muted = muted;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Установить скорость воспроизведения для всех элементов плеера
+         *
+         * @param {number} rate - скорость, 1 - обычная
+         */
+        setPlaybackRate(rate) {
+            this.mediaState.playbackRate = rate;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Создать панель управления видео
+         *
+         * @returns {HTMLDivElement}
+         */
+        createControls() {
+            const self = this, controls = document.createElement('div');
+            controls.classList.add('video-controls');
+            controls.insertAdjacentHTML('beforeend', `
+                <button type="button" class="play material-icons" aria-label="${this.t('play')}">play_arrow</button>
+                <input type="range" class="seek" min="0" max="0" step="0.1" value="0" aria-label="${this.t('seek')}">
+                <span class="time">0:00 / 0:00</span>
+                <button type="button" class="mute material-icons" aria-label="${this.t('mute')}">volume_up</button>
+                <input type="range" class="volume" min="0" max="1" step="0.05" value="1" aria-label="${this.t('volume')}">
+                <select class="rate" aria-label="${this.t('playbackRate')}">
+                    ${Player.playbackRates.map(rate => `<option value="${rate}">${rate}×</option>`).join('')}
+                </select>
+            `);
+            controls.querySelector('.play').addEventListener('click', function () {
+                const media = self.media;
+                media && (media.paused ? self.play() : self.pause());
+            });
+            controls.querySelector('.seek').addEventListener('input', function () {
+                self.seek(parseFloat(this.value));
+            });
+            controls.querySelector('.mute').addEventListener('click', function () {
+                self.setMuted(!self.mediaState.muted);
+            });
+            controls.querySelector('.volume').addEventListener('input', function () {
+                self.setVolume(parseFloat(this.value));
+            });
+            controls.querySelector('.rate').addEventListener('change', function () {
+                self.setPlaybackRate(parseFloat(this.value));
+            });
+            this.mainWrapper.appendChild(controls);
+            return controls;
+        }
+        /**
+         * Создать блок выбора субтитров, качества и звуковой дорожки
+         *
+         * @returns {HTMLDivElement}
+         */
+        createMediaOptions() {
+            const self = this, options = document.createElement('div');
+            options.classList.add('media-options');
+            options.insertAdjacentHTML('beforeend', `
+                <select class="captions" aria-label="${this.t('captions')}"></select>
+                <select class="quality" aria-label="${this.t('quality')}"></select>
+                <select class="audio" aria-label="${this.t('audioTrack')}"></select>
+            `);
+            options.querySelector('.captions').addEventListener('change', function () {
+                self.setCaptionLanguage(this.value);
+            });
+            options.querySelector('.quality').addEventListener('change', function () {
+                self.setQuality(this.value);
+            });
+            options.querySelector('.audio').addEventListener('change', function () {
+                self.setAudioLanguage(this.value);
+            });
+            (this.controls || this.mainWrapper).appendChild(options);
+            return options;
+        }
+        /**
+         * Заполнить список выбора
+         *
+         * @param {HTMLSelectElement} select
+         * @param {Array<{value : string, label : string}>} choices - варианты
+         * @param {string} value - выбранное значение
+         */
+        static fillSelect(select, choices, value) {
+            select.textContent = '';
+            choices.forEach(function (choice) {
+                const option = document.createElement('option');
+                option.value = choice.value;
+                option.textContent = choice.label;
+                select.appendChild(option);
+            });
+            select.value = value;
+            select.style.display = choices.length > 1 ? '' : 'none';
+        }
+        /**
+         * Обновить блок выбора субтитров, качества и звуковой дорожки для текущего видео
+         */
+        updateMediaOptions() {
+            const media = this.media, current = this.current, item = current ? this.getItem(current) : null;
+            this.mediaOptions.style.display = media instanceof HTMLVideoElement ? '' : 'none';
+            if (!media || !item) {
+                return;
+            }
+            Player.fillSelect(this.mediaOptions.querySelector('.captions'), (item.tracks || []).length
+                ? [{ value: '', label: this.t('captionsOff') }].concat((item.tracks || []).map(function (track) {
+                    return { value: track.language, label: track.label || track.language };
+                }))
+                : [], this.mediaState.captionLanguage);
+            Player.fillSelect(this.mediaOptions.querySelector('.quality'), (item.sources || []).filter(source => source.quality).map(function (source) {
+                return { value: source.quality, label: source.quality };
+            }), VideoRenderer.getQuality(media));
+            const audioTracks = media['audioTracks'] ? Array.from(media['audioTracks']) : [];
+            Player.fillSelect(this.mediaOptions.querySelector('.audio'), audioTracks.map(function (track) {
+                return { value: track.language, label: track.label || track.language };
+            }), (audioTracks.find(track => track.enabled) || { language: '' }).language);
+        }
+        /**
+         * Включить субтитры на заданном языке для всех видео плеера
+         *
+         * @param {string} language - код языка, пустая строка - без субтитров
+         */
+        setCaptionLanguage(language) {
+            this.mediaState.captionLanguage = language;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Выбрать качество видео для всех видео плеера
+         *
+         * @param {string} quality - метка качества источника, например 720p
+         */
+        setQuality(quality) {
+            this.mediaState.quality = quality;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Выбрать язык звуковой дорожки для всех видео плеера
+         *
+         * @param {string} language - код языка
+         */
+        setAudioLanguage(language) {
+            this.mediaState.audioLanguage = language;
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+        /**
+         * Выбранное качество видео
+         *
+         * @returns {string}
+         */
+        get quality() {
+            return this.mediaState.quality;
+        }
+        /**
+         * Обновить панель управления видео
+         */
+        updateControls() {
+            this.updateMediaOptions();
+            if (!this.controls) {
+                return;
+            }
+            const media = this.media;
+            this.controls.style.display = media ? '' : 'none';
+            if (!media) {
+                return;
+            }
+            const play = this.controls.querySelector('.play'), seek = this.controls.querySelector('.seek'), mute = this.controls.querySelector('.mute'), duration = isFinite(media.duration) ? media.duration : 0;
+            play.textContent = media.paused ? 'play_arrow' : 'pause';
+            play.setAttribute('aria-label', this.t(media.paused ? 'play' : 'pause'));
+            seek.max = duration.toString();
+            seek.value = media.currentTime.toString();
+            this.controls.querySelector('.time').textContent
+                = `${Player.formatTime(media.currentTime)} / ${Player.formatTime(duration)}`;
+            mute.textContent = this.mediaState.muted || !this.mediaState.volume ? 'volume_off' : 'volume_up';
+            mute.setAttribute('aria-label', this.t(this.mediaState.muted ? 'unmute' : 'mute'));
+            this.controls.querySelector('.volume').value
+                = (this.mediaState.muted ? 0 : this.mediaState.volume).toString();
+            this.controls.querySelector('.rate').value = this.mediaState.playbackRate.toString();
+        }
+        /**
+         * Запомнить позицию воспроизведения элемента, чтобы продолжить с нее при возврате
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        savePosition(item, media) {
+            if (!this.resume) {
+                return;
+            }
+            if (media.ended || media.currentTime < 1) {
+                this.playbackPositions.delete(item);
+                return;
+            }
+            this.playbackPositions.set(item, media.currentTime);
+        }
+        /**
+         * Продолжить воспроизведение элемента с сохраненной позиции
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        restorePosition(item, media) {
+            const time = this.playbackPositions.get(item);
+            if (!this.resume || time === undefined) {
+                return;
+            }
+            // позиция восстанавливается один раз: повторный выбор текущего элемента не перематывает его назад
+            this.playbackPositions.delete(item);
+            Player.seekWhenReady(media, time);
+        }
+        /**
+         * Перемотать медиа-элемент, как только станет известна его длительность
+         *
+         * @param {HTMLMediaElement} media
+         * @param {number} time - время в секундах
+         */
+        static seekWhenReady(media, time) {
+            if (media.readyState >= 1) {
+                media.currentTime = time;
+                return;
+            }
+            media.addEventListener('loadedmetadata', function restore() {
+                media.removeEventListener('loadedmetadata', restore);
+                media.currentTime = time;
+            });
+        }
+        /**
+         * Индекс элемента, который воспроизводится после текущего в непрерывном режиме
+         *
+         * @returns {number} - индекс или -1, если воспроизведение нужно остановить
+         */
+        nextPlaybackIndex() {
+            const index = this.currentIndex, count = this.images.length;
+            if (this.repeat === 'one') {
+                return index;
+            }
+            if (this.shuffle && count > 1) {
+                const self = this, current = this.current;
+                let queue = (this.shuffleQueue || []).filter(function (image) {
+                    return image !== current && self.images.indexOf(image) !== -1;
+                });
+                if (!this.shuffleQueue || (!queue.length && this.repeat === 'all')) {
+                    queue = Player.shuffled(this.images.filter(image => image !== current));
+                }
+                this.shuffleQueue = queue;
+                return queue.length ? this.images.indexOf(queue[0]) : -1;
+            }
+            if (index + 1 < count) {
+                return index + 1;
+            }
+            return this.repeat === 'all' && count ? 0 : -1;
+        }
+        /**
+         * Перемешать элементы массива
+         *
+         * @param {Array} items - элементы
+         *
+         * @returns {Array} - новый массив в случайном порядке
+         */
+        static shuffled(items) {
+            const result = items.slice();
+            for (let i = result.length - 1; i > 0; i--) {
+                const j = Math.floor(Math.random() * (i + 1));
+                [result[i], result[j]] = [result[j], result[i]];
+            }
+            return result;
+        }
+        /**
+         * Обработать окончание воспроизведения
+         */
+        onMediaEnded() {
+            const current = this.current;
+            current && this.playbackPositions.delete(current);
+            const primed = this.primedItem ? this.images.indexOf(this.primedItem) : -1, index = primed !== -1 ? primed : this.nextPlaybackIndex(), next = this.images[index];
+            if (this.gapless
+                && index !== this.currentIndex
+                && this.media instanceof HTMLAudioElement
+                && next && next.dataset.renderer === 'audio') {
+                const started = this.primedElement
+                    && this.primedElement.classList.contains('gapless') ? this.primedElement : null;
+                if (!started) {
+                    this.advance(index);
+                    return;
+                }
+                // следующее аудио уже играет: оно только выбирается, а скрытие остальных блоков его не останавливает
+                this.primedElement = null;
+                this.cancelAutoplay();
+                this.select(index);
+                started.classList.remove('gapless');
+                this.updateMediaSession();
+                return;
+            }
+            if (index === -1) {
+                this.shuffleQueue = null;
+            }
+            if (!this.continuous || index === -1) {
+                return;
+            }
+            if (index === this.currentIndex) {
+                this.seek(0);
+                this.play().catch(function () { });
+                return;
+            }
+            this.autoplayCountdown ? this.startCountdown(index) : this.advance(index);
+        }
+        /**
+         * Незадолго до конца аудио выбрать следующий элемент плейлиста и, если это аудио,
+         * начать его полную загрузку, чтобы переход к нему не ждал загрузки
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        primeNextAudio(media) {
+            if (!this.gapless
+                || this.primedItem
+                || !isFinite(media.duration)
+                || media.duration - media.currentTime > Player.audioPrimeLead) {
+                return;
+            }
+            const index = this.nextPlaybackIndex(), next = this.images[index];
+            if (index === this.currentIndex || !next || next.dataset.renderer !== 'audio') {
+                return;
+            }
+            this.primedItem = next;
+            const element = this.preloadItem(next), audio = element ? Player.mediaOf(element) : null;
+            this.primedElement = audio ? element : null;
+            if (audio && audio.readyState < HTMLMediaElement.HAVE_ENOUGH_DATA) {
+                audio.preload = 'auto';
+                audio.load();
+            }
+        }
+        /**
+         * Перед самым концом аудио запланировать запуск заранее загруженного следующего так,
+         * чтобы он начался, когда закончится текущее. Элемент с сохраненной позицией (опция resume)
+         * заранее не запускается: он продолжится с места остановки после перехода
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        scheduleGapless(media) {
+            const self = this, element = this.primedElement, item = this.primedItem;
+            if (!element
+                || !item
+                || this.gaplessTimer
+                || element.classList.contains('gapless')
+                || media.paused
+                || !isFinite(media.duration)
+                || this.playbackPositions.has(item)) {
+                return;
+            }
+            const remaining = (media.duration - media.currentTime) / (media.playbackRate || 1);
+            if (remaining > Player.gaplessLead) {
+                return;
+            }
+            this.gaplessTimer = window.setTimeout(function () {
+                const audio = Player.mediaOf(element);
+                self.gaplessTimer = 0;
+                if (!audio
+                    || self.primedElement !== element
+                    || !element.isConnected
+                    || self.media !== media
+                    || media.paused && !media.ended) {
+                    return;
+                }
+                element.classList.add('gapless');
+                audio.currentTime = 0;
+                self.applyMediaState(audio);
+                audio.play().catch(function () {
+                    // браузер запретил воспроизведение: переход произойдет обычным образом
+                    element.classList.remove('gapless');
+                });
+            }, Math.max(0, remaining * 1000));
+        }
+        /**
+         * Отменить запланированный запуск следующего аудио и остановить уже запущенное
+         */
+        cancelGapless() {
+            clearTimeout(this.gaplessTimer);
+            this.gaplessTimer = 0;
+            const element = this.primedElement, audio = element ? Player.mediaOf(element) : null;
+            if (element && audio && element.classList.contains('gapless')) {
+                element.classList.remove('gapless');
+                audio.pause();
+                audio.currentTime = 0;
+            }
+        }
+        /**
+         * Перейти к элементу и начать его воспроизведение
+         *
+         * @param {number} index - индекс элемента
+         */
+        advance(index) {
+            this.cancelAutoplay();
+            if (this.select(index)) {
+                this.play().catch(function () {
+                    // браузер запретил автовоспроизведение
+                });
+            }
+        }
+        /**
+         * Показать обратный отсчет до перехода к следующему элементу
+         *
+         * @param {number} index - индекс следующего элемента
+         */
+        startCountdown(index) {
+            const self = this, item = this.images[index], overlay = document.createElement('div'), message = document.createElement('p'), playNow = document.createElement('button'), cancel = document.createElement('button');
+            let seconds = this.autoplayCountdown;
+            this.cancelAutoplay();
+            const update = function () {
+                message.textContent = self.t('autoplayNext', { seconds: seconds, title: item.title });
+            };
+            overlay.classList.add('autoplay-overlay');
+            overlay.setAttribute('role', 'alert');
+            playNow.type = cancel.type = 'button';
+            playNow.classList.add('autoplay-now');
+            playNow.textContent = this.t('playNow');
+            cancel.classList.add('autoplay-cancel');
+            cancel.textContent = this.t('cancel');
+            overlay.append(message, playNow, cancel);
+            update();
+            playNow.addEventListener('click', function () {
+                self.advance(index);
+            });
+            cancel.addEventListener('click', function () {
+                self.cancelAutoplay();
+            });
+            this.mainWrapper.appendChild(overlay);
+            this.autoplayOverlay = overlay;
+            this.autoplayTimer = setInterval(function () {
+                seconds--;
+                seconds > 0 ? update() : self.advance(index);
+            }, 1000);
+        }
+        /**
+         * Отменить автоматический переход к следующему элементу
+         */
+        cancelAutoplay() {
+            clearInterval(this.autoplayTimer);
+            this.autoplayTimer = 0;
+            this.autoplayOverlay && this.autoplayOverlay.remove();
+            this.autoplayOverlay = null;
+        }
+        /**
+         * Передать браузеру данные воспроизводимого элемента и обработчики кнопок экрана блокировки
+         */
+        updateMediaSession() {
+            const self = this, session = navigator['mediaSession'], current = this.current;
+            if (!this.mediaSession || !session || !current) {
+                return;
+            }
+            const item = this.getItem(current), MediaMetadataClass = window['MediaMetadata'];
+            if (MediaMetadataClass) {
+                session.metadata = new MediaMetadataClass({
+                    title: item && item.title || current.title,
+                    artist: item && item.artist || '',
+                    album: item && item.album || '',
+                    artwork: current.dataset.src ? [{ src: new URL(current.dataset.src, document.baseURI).href }] : []
+                });
+            }
+            const handlers = {
+                play: function () {
+                    self.play().catch(function () { });
+                },
+                pause: function () {
+                    self.pause();
+                },
+                previoustrack: function () {
+                    self.prev() && self.play().catch(function () { });
+                },
+                nexttrack: function () {
+                    self.next() && self.play().catch(function () { });
+                },
+                seekto: function (details) {
+                    self.seek(details.seekTime);
+                }
+            };
+            Player.mediaSessionActions.forEach(function (action) {
+                try {
+                    session.setActionHandler(action, handlers[action]);
+                }
+                catch (e) {
+                    // действие не поддерживается браузером
+                }
+            });
+            Player.mediaSessionOwner = this;
+        }
+        /**
+         * Убрать данные и обработчики Media Session API, если их установил этот плеер
+         */
+        clearMediaSession() {
+            const session = navigator['mediaSession'];
+            if (!session || Player.mediaSessionOwner !== this) {
+                return;
+            }
+            session.metadata = null;
+            Player.mediaSessionActions.forEach(function (action) {
+                try {
+                    session.setActionHandler(action, null);
+                }
+                catch (e) {
+                    // действие не поддерживается браузером
+                }
+            });
+            Player.mediaSessionOwner = null;
+        }
+        /**
+         * Получить ссылку на просмотр документа через сервис конвертации
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         *
+         * @returns {string | null}
+         */
+        getDocumentUrl(src, type) {
+            if (typeof this.documentConverter === 'function') {
+                return this.documentConverter(src, type);
+            }
+            if (!this.documentConverter) {
+                return null;
+            }
+            return this.documentConverter
+                .replace(/{src}/g, encodeURIComponent(new URL(src, document.location.href).href))
+                .replace(/{type}/g, encodeURIComponent(type));
+        }
+        /**
+         * Открыт ли лайтбокс
+         *
+         * @returns {boolean}
+         */
+        get lightboxOpen() {
+            return this.mainWrapper.classList.contains('lightbox');
+        }
+        /**
+         * Открыть блок просмотра в лайтбоксе поверх страницы с переходом по тем же элементам
+         */
+        openLightbox() {
+            if (this.lightboxOpen) {
+                return;
+            }
+            if (!this.mainWrapper.querySelector('.lightbox-controls')) {
+                const self = this, controls = document.createElement('div');
+                controls.classList.add('lightbox-controls');
+                controls.insertAdjacentHTML('beforeend', `
+                    <button type="button" class="lightbox-prev material-icons" aria-label="${this.t('previous')}">chevron_left</button>
+                    <button type="button" class="lightbox-next material-icons" aria-label="${this.t('next')}">chevron_right</button>
+                    <button type="button" class="lightbox-close material-icons" aria-label="${this.t('close')}">close</button>
+                `);
+                controls.querySelector('.lightbox-prev').addEventListener('click', function () {
+                    self.prev();
+                });
+                controls.querySelector('.lightbox-next').addEventListener('click', function () {
+                    self.next();
+                });
+                controls.querySelector('.lightbox-close').addEventListener('click', function () {
+                    self.closeLightbox();
+                });
+                this.mainWrapper.appendChild(controls);
+            }
+            this.mainWrapper.classList.add('lightbox');
+            this.mainWrapper.setAttribute('role', 'dialog');
+            this.mainWrapper.setAttribute('aria-modal', 'true');
+            document.body.classList.add('player-lightbox-open');
+        }
+        /**
+         * Закрыть лайтбокс
+         */
+        closeLightbox() {
+            if (!this.lightboxOpen) {
+                return;
+            }
+            this.mainWrapper.classList.remove('lightbox');
+            this.mainWrapper.removeAttribute('role');
+            this.mainWrapper.removeAttribute('aria-modal');
+            document.querySelector('.player .lightbox') || document.body.classList.remove('player-lightbox-open');
+        }
+        /**
+         * Управление открытым лайтбоксом с клавиатуры: Escape закрывает, стрелки переключают элементы
+         */
+        setLightboxKeyboard() {
+            const self = this;
+            this.listen(document, 'keydown', function (e) {
+                if (!self.lightboxOpen || e.defaultPrevented) {
+                    return;
+                }
+                switch (self.logicalKey(e.key)) {
+                    case 'Escape':
+                        self.closeLightbox();
+                        break;
+                    case 'ArrowLeft':
+                        self.prev();
+                        break;
+                    case 'ArrowRight':
+                        self.next();
+                        break;
+                    default:
+                        return;
+                }
+                e.preventDefault();
+            });
+        }
+        /**
+         * Добавить кнопку полноэкранного режима
+         */
+        addFullScreenButton() {
+            if (!this.fullscreenButtonAdded) {
+                const self = this;
+                let button = document.createElement('button');
+                button.classList.add('fullscreen');
+                button.type = 'button';
+                button.setAttribute('aria-label', this.t('fullscreen'));
+                this.mainWrapper.append(button);
+                button.addEventListener('click', function () {
+                    self.toggleFullscreen();
+                });
+                this.fullscreenButtonAdded = true;
+            }
+        }
+        /**
+         * Элемент, находящийся в полноэкранном режиме браузера
+         *
+         * @returns {Element | null}
+         */
+        static fullscreenElement() {
+            return document.fullscreenElement || document['webkitFullscreenElement'] || document['mozFullScreenElement'] || null;
+        }
+        /**
+         * Находится ли плеер в полноэкранном режиме, в том числе в CSS-имитации
+         *
+         * @returns {boolean}
+         */
+        get fullscreen() {
+            return Player.fullscreenElement() === this.playerElement
+                || this.playerElement.classList.contains('pseudo-fullscreen');
+        }
+        /**
+         * Развернуть плеер (блок просмотра вместе с превью) на весь экран.
+         * Если браузер не поддерживает полноэкранный режим или отказал в нем, режим имитируется стилями
+         *
+         * @returns {Promise<void>}
+         */
+        enterFullscreen() {
+            if (this.fullscreen) {
+                return Promise.resolve();
+            }
+            const self = this, element = this.playerElement, request = element.requestFullscreen
+                || element['webkitRequestFullscreen']
+                || element['mozRequestFullScreen'];
+            if (!request) {
+                this.setPseudoFullscreen(true);
+                return Promise.resolve();
+            }
+            return Promise.resolve(request.call(element)).catch(function () {
+                self.setPseudoFullscreen(true);
+            });
+        }
+        /**
+         * Выйти из полноэкранного режима
+         *
+         * @returns {Promise<void>}
+         */
+        exitFullscreen() {
+            if (this.playerElement.classList.contains('pseudo-fullscreen')) {
+                this.setPseudoFullscreen(false);
+                return Promise.resolve();
+            }
+            if (Player.fullscreenElement() !== this.playerElement) {
+                return Promise.resolve();
+            }
+            const exit = document.exitFullscreen
+                || document['webkitExitFullscreen']
+                || document['mozCancelFullScreen'];
+            return Promise.resolve(exit ? exit.call(document) : undefined);
+        }
+        /**
+         * Переключить полноэкранный режим
+         *
+         * @returns {Promise<void>}
+         */
+        toggleFullscreen() {
+            return this.fullscreen ? this.exitFullscreen() : this.enterFullscreen();
+        }
+        /**
+         * Включить или выключить CSS-имитацию полноэкранного режима
+         *
+         * @param {boolean} active
+         */
+        setPseudoFullscreen(active) {
+            this.playerElement.classList.toggle('pseudo-fullscreen', active);
+            active
+                ? document.body.classList.add('player-fullscreen-open')
+                : document.querySelector('.player.pseudo-fullscreen') || document.body.classList.remove('player-fullscreen-open');
+            this.onFullscreenChange();
+        }
+        /**
+         * Сообщить об изменении полноэкранного режима, если он действительно изменился
+         */
+        onFullscreenChange() {
+            const fullscreen = this.fullscreen;
+            if (fullscreen === this.fullscreenActive) {
+                return;
+            }
+            this.fullscreenActive = fullscreen;
+            this.playerElement.classList.toggle('fullscreen-active', fullscreen);
+            const current = this.current;
+            this.emit('fullscreenchange', current, current ? this.images.indexOf(current) : -1, {
+                fullscreen: fullscreen,
+                pseudo: this.playerElement.classList.contains('pseudo-fullscreen')
+            });
+        }
+        /**
+         * Отслеживание полноэкранного режима браузера и выход из имитации по Escape
+         */
+        setFullscreen() {
+            const self = this;
+            ['fullscreenchange', 'webkitfullscreenchange', 'mozfullscreenchange'].forEach(function (type) {
+                self.listen(document, type, function () {
+                    self.onFullscreenChange();
+                });
+            });
+            this.listen(document, 'keydown', function (e) {
+                if (e.key !== 'Escape' || e.defaultPrevented || !self.playerElement.classList.contains('pseudo-fullscreen')) {
+                    return;
+                }
+                e.preventDefault();
+                self.exitFullscreen();
+            });
+            this.addFullScreenButton();
+        }
+        setImageClick() {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e) {
+                let target = e.target;
+                if (!target.matches('.img')) {
+                    return;
+                }
+                e.stopPropagation();
+                self.select(target);
+            });
+        }
+        setDeleteClick() {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e) {
+                e.stopPropagation();
+                let target = e.target;
+                if (!target.matches('.img > i')) {
+                    return;
+                }
+                self.removeItem(target.parentNode);
+            });
+        }
+        /**
+         * Удалить элемент по действию пользователя, предварительно перейдя к соседнему
+         *
+         * @param {HTMLSpanElement} element - удаляемый элемент
+         */
+        removeItem(element) {
+            const index = this.images.indexOf(element);
+            if (this.images[index + 1] !== undefined) {
+                this.select(index + 1);
+            }
+            else if (this.images[index - 1]) {
+                this.select(index - 1);
+            }
+            this.deleteItem(element);
+        }
+        /**
+         * Сделать элемент единственным элементом ленты превью, доступным по клавише Tab
+         *
+         * @param {HTMLSpanElement} item
+         */
+        setFocusable(item) {
+            this.images.forEach(function (image) {
+                image.tabIndex = image === item ? 0 : -1;
+            });
+        }
+        /**
+         * Клавиша с учетом направления ленты: в ленте справа налево стрелки влево и вправо меняются местами
+         *
+         * @param {string} key - нажатая клавиша
+         *
+         * @returns {string}
+         */
+        logicalKey(key) {
+            if (!this.rtl) {
+                return key;
+            }
+            return key === 'ArrowLeft' ? 'ArrowRight' : key === 'ArrowRight' ? 'ArrowLeft' : key;
+        }
+        /**
+         * Управление лентой превью с клавиатуры
+         */
+        setKeyboard() {
+            const self = this;
+            this.imageWrapper.addEventListener('keydown', function (e) {
+                const target = e.target;
+                if (!target.matches('.img')) {
+                    return;
+                }
+                let index = self.images.indexOf(target);
+                switch (self.logicalKey(e.key)) {
+                    case 'ArrowRight':
+                        index = Math.min(index + self.rows(), self.images.length - 1);
+                        break;
+                    case 'ArrowDown':
+                        index = Math.min(index + 1, self.images.length - 1);
+                        break;
+                    case 'ArrowLeft':
+                        index = Math.max(index - self.rows(), 0);
+                        break;
+                    case 'ArrowUp':
+                        index = Math.max(index - 1, 0);
+                        break;
+                    case 'Home':
+                        index = 0;
+                        break;
+                    case 'End':
+                        index = self.images.length - 1;
+                        break;
+                    case 'Enter':
+                    case ' ':
+                        e.preventDefault();
+                        self.select(target);
+                        return;
+                    case 'Delete':
+                        e.preventDefault();
+                        self.removeItem(target);
+                        self.current && self.current.focus();
+                        return;
+                    default:
+                        return;
+                }
+                e.preventDefault();
+                if (e.ctrlKey && self.reorderable) {
+                    const from = self.images.indexOf(target);
+                    if (from !== index) {
+                        self.moveItem(from, index);
+                        self.announce(self.t('itemMoved', {
+                            title: target.getAttribute('aria-label') || '',
+                            position: index + 1,
+                            total: self.images.length
+                        }));
+                    }
+                    self.ensureVisible(index);
+                    self.renderStrip();
+                    target.focus();
+                    return;
+                }
+                const item = self.images[index];
+                if (item) {
+                    self.setFocusable(item);
+                    self.ensureVisible(index);
+                    self.renderStrip();
+                    item.focus();
+                }
+            });
+        }
+        /**
+         * Озвучить текст экранными дикторами
+         *
+         * @param {string} text
+         */
+        announce(text) {
+            this.statusElement.textContent = text;
+        }
+        setScroll() {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e) {
+                if (!e.target.matches('.' + self.imageWrapperClass)) {
+                    return;
+                }
+                let offset = e['detail'] && e['detail']['offset'] !== undefined
+                    ? e.detail['offset']
+                    : self.pointerOffset(e);
+                if (!self.images.length || self.maxScroll() <= 0) {
+                    return;
+                }
+                if (offset <= self.scrollButtonsWidth) {
+                    if (self.prevScroll > 0) {
+                        self.scrollTo(self.indexAt(self.prevScroll - 1));
+                    }
+                }
+                else if (offset >= self.viewSize() - self.scrollButtonsWidth) {
+                    if (self.prevScroll < self.maxScroll()) {
+                        self.scrollTo(self.indexAt(self.prevScroll) + 1);
+                    }
+                }
+            });
+            this.imageWrapper.addEventListener('wheel', function (e) {
+                e.preventDefault();
+                if (this['disabled']) {
+                    return;
+                }
+                if (e.deltaY < 0) {
+                    this.dispatchEvent(new CustomEvent('click', { detail: { offset: 0 } }));
+                    return;
+                }
+                this.dispatchEvent(new CustomEvent('click', { detail: { offset: self.viewSize() } }));
+            });
+        }
+        /**
+         * Пересчитать смещения превью в ленте
+         */
+        measure() {
+            const self = this, rows = this.rows();
+            let offset = 0, column = 0;
+            this.offsets = this.images.map(function (span, index) {
+                if (index && index % rows === 0) {
+                    offset += column;
+                    column = 0;
+                }
+                column = Math.max(column, self.itemSize(span));
+                return offset;
+            });
+            this.offsets.push(offset + column);
+        }
+        /**
+         * Вертикальная ли лента превью
+         *
+         * @returns {boolean}
+         */
+        get vertical() {
+            return this.layout === 'vertical';
+        }
+        /**
+         * Количество рядов превью в ленте. В сетке превью идут по столбцам, и смещения хранятся для столбцов
+         *
+         * @returns {number}
+         */
+        rows() {
+            return this.layout === 'grid' ? this.gridRows : 1;
+        }
+        /**
+         * Размер видимой области ленты вдоль направления прокрутки
+         *
+         * @returns {number}
+         */
+        viewSize() {
+            return this.vertical ? this.imageWrapper.clientHeight : this.imageWrapper.clientWidth;
+        }
+        /**
+         * Координата указателя вдоль ленты от ее начала
+         *
+         * @param {MouseEvent} e - событие указателя
+         *
+         * @returns {number}
+         */
+        pointerOffset(e) {
+            const rect = this.imageWrapper.getBoundingClientRect();
+            if (this.vertical) {
+                return e.clientY - rect.top;
+            }
+            return this.rtl ? rect.right - e.clientX : e.clientX - rect.left;
+        }
+        /**
+         * Размер превью вдоль ленты: измеренный или, если превью еще не отображалось, оценочный
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {number}
+         */
+        itemSize(span) {
+            const size = this.itemSizes.get(span);
+            return size !== undefined ? size : this.estimatedSize;
+        }
+        /**
+         * Измерить отображаемое превью
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {boolean} - изменился ли размер превью
+         */
+        updateSize(span) {
+            const size = this.vertical ? span.offsetHeight : span.offsetWidth;
+            if (!size) {
+                return false;
+            }
+            this.estimatedSize = size;
+            if (this.itemSizes.get(span) === size) {
+                return false;
+            }
+            this.itemSizes.set(span, size);
+            return true;
+        }
+        /**
+         * Максимальное смещение ленты превью
+         *
+         * @returns {number}
+         */
+        maxScroll() {
+            return Math.max(0, (this.offsets[this.images.length] || 0) - this.viewSize());
+        }
+        /**
+         * Индекс превью, которое находится на заданном смещении ленты
+         *
+         * @param {number} scroll - смещение
+         *
+         * @returns {number}
+         */
+        indexAt(scroll) {
+            let index = 0;
+            while (index < this.images.length - 1 && this.offsets[index + 1] <= scroll) {
+                index++;
+            }
+            return index;
+        }
+        /**
+         * Отрисовать ленту превью: в документе находятся только превью рядом с видимой областью,
+         * а также текущее и доступное по Tab превью
+         *
+         * @param {number} from - начальное смещение ленты
+         * @param {number} to - конечное смещение ленты, если лента прокручивается
+         */
+        renderStrip(from = this.prevScroll, to = from) {
+            if (this.updating) {
+                return;
+            }
+            const self = this, viewSize = this.viewSize(), rows = this.rows(), start = Math.min(from, to) - viewSize, end = Math.max(from, to) + viewSize * 2;
+            let resized = false;
+            if (!this.estimatedSize && this.images.length) {
+                const first = this.images[0];
+                if (first.parentElement !== this.track) {
+                    this.track.appendChild(first);
+                    this.resizeObserver && this.resizeObserver.observe(first);
+                }
+                this.updateSize(first);
+            }
+            this.measure();
+            this.images.forEach(function (span, index) {
+                const offset = self.offsets[index], isNear = self.estimatedSize
+                    ? offset + self.itemSize(span) >= start && offset <= end
+                    : index === 0, isPinned = span.classList.contains('current')
+                    || span.classList.contains('dragging')
+                    || span.tabIndex === 0
+                    || span === document.activeElement;
+                if (!isNear && !isPinned) {
+                    if (span.parentElement === self.track) {
+                        self.resizeObserver && self.resizeObserver.unobserve(span);
+                        span.remove();
+                    }
+                    return;
+                }
+                if (span.parentElement !== self.track) {
+                    self.track.appendChild(span);
+                    self.resizeObserver && self.resizeObserver.observe(span);
+                    resized = self.updateSize(span) || resized;
+                }
+            });
+            resized && this.measure();
+            Array.from(this.track.children).forEach(function (span) {
+                const index = self.images.indexOf(span);
+                if (self.vertical) {
+                    span.style.top = self.offsets[index] + 'px';
+                }
+                else {
+                    span.style[self.rtl ? 'right' : 'left'] = self.offsets[index] + 'px';
+                    rows > 1 && (span.style.top = `calc(var(--thumbnail-height) * ${index % rows})`);
+                }
+                span.setAttribute('aria-posinset', (index + 1).toString());
+                span.setAttribute('aria-setsize', self.images.length.toString());
+            });
+            this.updateDots();
+        }
+        /**
+         * Сдвинуть ленту превью
+         *
+         * @param {number} scroll - новое смещение
+         * @param {number} duration - длительность анимации
+         */
+        translateStrip(scroll, duration) {
+            const self = this;
+            this.renderStrip(this.prevScroll, scroll);
+            this.track.style.transition = duration ? `transform ${duration}ms` : 'none';
+            this.track.style.transform = this.vertical
+                ? `translateY(${-scroll}px)`
+                : `translateX(${this.rtl ? scroll : -scroll}px)`;
+            this.prevScroll = scroll;
+            if (this.stripTimer) {
+                clearTimeout(this.stripTimer);
+                this.stripTimer = 0;
+            }
+            if (duration) {
+                this.stripTimer = setTimeout(function () {
+                    self.stripTimer = 0;
+                    self.renderStrip();
+                }, duration);
+            }
+        }
+        /**
+         * Обработать изменение размеров ленты или превью
+         *
+         * @param {Element[]} targets - элементы, размеры которых изменились
+         */
+        resizeStrip(targets) {
+            const self = this;
+            targets.forEach(function (target) {
+                target !== self.imageWrapper && self.updateSize(target);
+            });
+            this.renderStrip();
+            if (this.prevScroll > this.maxScroll()) {
+                this.translateStrip(this.maxScroll(), 0);
+            }
+        }
+        /**
+         * Перетаскивание ленты превью указателем с инерцией и доводкой до ближайшего превью
+         */
+        setDrag() {
+            const self = this;
+            let pointerId = null, start = 0, startScroll = 0, last = 0, lastTime = 0, velocity = 0;
+            this.imageWrapper.addEventListener('pointerdown', function (e) {
+                if (pointerId !== null || !e.isPrimary || e.button !== 0 || e.target.matches('.img > i')) {
+                    return;
+                }
+                pointerId = e.pointerId;
+                start = last = self.pointerOffset(e);
+                lastTime = e.timeStamp;
+                startScroll = self.prevScroll;
+                velocity = 0;
+                self.dragged = false;
+            });
+            this.imageWrapper.addEventListener('pointermove', function (e) {
+                if (e.pointerId !== pointerId || self.reordering || self.maxScroll() <= 0) {
+                    return;
+                }
+                const offset = self.pointerOffset(e), diff = offset - start;
+                if (!self.dragged) {
+                    if (Math.abs(diff) < self.dragThreshold) {
+                        return;
+                    }
+                    self.dragged = true;
+                    self.imageWrapper.setPointerCapture(e.pointerId);
+                }
+                if (e.timeStamp > lastTime) {
+                    velocity = (offset - last) / (e.timeStamp - lastTime);
+                }
+                last = offset;
+                lastTime = e.timeStamp;
+                self.translateStrip(Math.max(0, Math.min(startScroll - diff, self.maxScroll())), 0);
+            });
+            const release = function (e) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+                pointerId = null;
+                if (!self.dragged || self.reordering) {
+                    return;
+                }
+                const target = Math.max(0, Math.min(self.prevScroll - velocity * self.dragInertia, self.maxScroll()));
+                let position = self.indexAt(target);
+                if (self.images[position + 1] && self.offsets[position + 1] - target < target - self.offsets[position]) {
+                    position++;
+                }
+                self.scrollTo(position);
+            };
+            this.imageWrapper.addEventListener('pointerup', release);
+            this.imageWrapper.addEventListener('pointercancel', release);
+            this.imageWrapper.addEventListener('click', function (e) {
+                if (self.dragged) {
+                    self.dragged = false;
+                    e.stopPropagation();
+                }
+            }, true);
+        }
+        /**
+         * Следить за размерами ленты и превью
+         */
+        setResize() {
+            const self = this;
+            if (window['ResizeObserver'] === undefined) {
+                this.listen(window, 'resize', function () {
+                    self.resizeStrip(self.images);
+                });
+                return;
+            }
+            this.resizeObserver = new window['ResizeObserver'](function (entries) {
+                self.resizeStrip(entries.map(entry => entry.target));
+            });
+            this.resizeObserver.observe(this.imageWrapper);
+        }
+        /**
+         * Изменение порядка элементов перетаскиванием превью.
+         * Перетаскивание начинается, если удерживать превью reorderDelay миллисекунд, не сдвигая указатель
+         */
+        setReorder() {
+            const self = this;
+            let pointerId = null, timer = 0, item = null, dropTarget = null, startX = 0, startY = 0;
+            const reset = function () {
+                clearTimeout(timer);
+                pointerId = null;
+                self.reordering = false;
+                if (item) {
+                    item.classList.remove('dragging');
+                    item.style.transform = '';
+                    item = null;
+                }
+                dropTarget && dropTarget.classList.remove('drop-target');
+                dropTarget = null;
+            };
+            this.imageWrapper.addEventListener('pointerdown', function (e) {
+                const target = e.target;
+                if (!self.reorderable || pointerId !== null || !e.isPrimary || e.button !== 0 || !target.matches('.img')) {
+                    return;
+                }
+                pointerId = e.pointerId;
+                startX = e.clientX;
+                startY = e.clientY;
+                timer = setTimeout(function () {
+                    item = target;
+                    self.reordering = true;
+                    self.dragged = true;
+                    self.imageWrapper.setPointerCapture(e.pointerId);
+                    item.classList.add('dragging');
+                }, self.reorderDelay);
+            });
+            this.imageWrapper.addEventListener('pointermove', function (e) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+                if (!item) {
+                    if (Math.abs(e.clientX - startX) >= self.dragThreshold || Math.abs(e.clientY - startY) >= self.dragThreshold) {
+                        clearTimeout(timer);
+                        pointerId = null;
+                    }
+                    return;
+                }
+                item.style.transform = self.vertical
+                    ? `translateY(${e.clientY - startY}px)`
+                    : `translate(${e.clientX - startX}px, ${self.rows() > 1 ? e.clientY - startY : 0}px)`;
+                const target = self.images[self.indexAtPointer(e)];
+                if (target !== dropTarget) {
+                    dropTarget && dropTarget.classList.remove('drop-target');
+                    dropTarget = target !== item ? target : null;
+                    dropTarget && dropTarget.classList.add('drop-target');
+                }
+            });
+            this.imageWrapper.addEventListener('pointerup', function (e) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+                const from = item ? self.images.indexOf(item) : -1, to = dropTarget ? self.images.indexOf(dropTarget) : -1;
+                reset();
+                if (from !== -1 && to !== -1) {
+                    self.moveItem(from, to);
+                }
+            });
+            this.imageWrapper.addEventListener('pointercancel', function (e) {
+                e.pointerId === pointerId && reset();
+            });
+        }
+        /**
+         * Индекс превью под указателем
+         *
+         * @param {MouseEvent} e - событие указателя
+         *
+         * @returns {number}
+         */
+        indexAtPointer(e) {
+            const index = this.indexAt(this.pointerOffset(e) + this.prevScroll), rows = this.rows();
+            if (rows === 1) {
+                return index;
+            }
+            const rect = this.imageWrapper.getBoundingClientRect(), row = Math.max(0, Math.min(Math.floor((e.clientY - rect.top) / (rect.height / rows)), rows - 1));
+            return Math.min(index - index % rows + row, this.images.length - 1);
+        }
+        /**
+         * Переместить элемент плеера
+         *
+         * @param {number} from - индекс перемещаемого элемента
+         * @param {number} to - новый индекс элемента
+         */
+        moveItem(from, to) {
+            const item = this.images[from];
+            to = Math.max(0, Math.min(to, this.images.length - 1));
+            if (!item || from === to) {
+                return;
+            }
+            this.relocate(from, to);
+            this.emit('reorder', item, to, {
+                from: from,
+                order: this.images.map(function (span) {
+                    return {
+                        name: span.dataset.name,
+                        src: span.dataset.objectSrc || span.dataset.src
+                    };
+                })
+            });
+        }
+        /**
+         * Переставить элемент в ленте без отправки события
+         *
+         * @param {number} from - текущий индекс элемента
+         * @param {number} to - новый индекс элемента
+         */
+        relocate(from, to) {
+            const item = this.images.splice(from, 1)[0];
+            this.images.splice(to, 0, item);
+            this.renderStrip();
+            this.position = this.indexAt(this.prevScroll);
+            this.updateFields();
+        }
+        /**
+         * Переход к соседнему элементу горизонтальным свайпом по блоку просмотра
+         */
+        setSwipe() {
+            const self = this;
+            let pointerId = null, startX = 0, startY = 0;
+            this.mainWrapper.addEventListener('pointerdown', function (e) {
+                if (!self.swipe || !e.isPrimary || e.pointerType === 'mouse') {
+                    return;
+                }
+                pointerId = e.pointerId;
+                startX = e.clientX;
+                startY = e.clientY;
+            });
+            this.mainWrapper.addEventListener('pointerup', function (e) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+                pointerId = null;
+                const diffX = e.clientX - startX, diffY = e.clientY - startY;
+                if (Math.abs(diffX) < self.swipeThreshold || Math.abs(diffX) < Math.abs(diffY) * 2) {
+                    return;
+                }
+                (diffX < 0) !== self.rtl ? self.next() : self.prev();
+            });
+            this.mainWrapper.addEventListener('pointercancel', function () {
+                pointerId = null;
+            });
+        }
+        /**
+         * Прокрутить ленту превью так, чтобы элемент был виден целиком
+         *
+         * @param {number} index - индекс элемента
+         */
+        ensureVisible(index) {
+            const item = this.images[index];
+            this.measure();
+            if (!item || this.maxScroll() <= 0) {
+                return;
+            }
+            const viewSize = this.viewSize(), offset = this.offsets[index] - this.prevScroll;
+            if (offset < 0) {
+                this.scrollTo(index);
+                return;
+            }
+            if (offset + this.itemSize(item) <= viewSize) {
+                return;
+            }
+            const target = this.offsets[index] + this.itemSize(item) - viewSize;
+            let position = this.indexAt(target);
+            if (this.offsets[position] < target) {
+                position++;
+            }
+            this.scrollTo(position);
+        }
+        /**
+         * Прокрутить ленту превью к элементу
+         *
+         * @param {number} index - индекс элемента
+         *
+         * @returns {number} - новое смещение ленты
+         */
+        scrollTo(index) {
+            if (!this.images[index]) {
+                return;
+            }
+            this.measure();
+            const currentImage = this.images[index], scroll = Math.min(this.offsets[index], this.maxScroll());
+            this.translateStrip(scroll, this.animationDuration);
+            this.position = index;
+            this.emit('scroll', currentImage, index, { scroll: scroll });
+            return scroll;
+        }
+        /**
+         * Преобразовать изображение разметки в элемент плеера
+         *
+         * @param {HTMLImageElement} image - изображение
+         * @param {string} sourceName - ссылка на альтернативный ресурс
+         *
+         * @returns {IPlayerItem}
+         */
+        static imageToItem(image, sourceName = '') {
+            return {
+                thumbnail: decodeURI(image.src),
+                src: image.dataset.objectSrc,
+                title: image.title,
+                type: image.dataset.type,
+                name: sourceName || image.dataset.name,
+                tracks: Player.parseJson(image.dataset.tracks),
+                sources: Player.parseJson(image.dataset.sources),
+                artist: image.dataset.artist,
+                album: image.dataset.album,
+                peaks: Player.parseJson(image.dataset.peaks)
+            };
+        }
+        /**
+         * Разобрать JSON из атрибута разметки; пустое или некорректное значение игнорируется
+         *
+         * @param {string} value - значение атрибута
+         *
+         * @returns {any}
+         */
+        static parseJson(value) {
+            if (!value) {
+                return undefined;
+            }
+            try {
+                return JSON.parse(value);
+            }
+            catch (e) {
+                return undefined;
+            }
+        }
+        /**
+         * Обновить плеер: загрузить в плеер изображения из разметки его блока
+         */
+        update() {
+            if (this.observe) {
+                this.sync();
+                return;
+            }
+            const self = this, items = [];
+            this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`).forEach(function (image) {
+                if (self.mainWrapper.contains(image) || image.closest('.clone')) {
+                    return;
+                }
+                items.push(Player.imageToItem(image));
+                self.detachMarkup(image);
+            });
+            this.load(items);
+        }
+        /**
+         * Изображения разметки, которые сейчас должны быть элементами плеера
+         *
+         * @returns {HTMLImageElement[]}
+         */
+        markupImages() {
+            const self = this;
+            return Array.from(this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`)).filter(function (image) {
+                return !self.mainWrapper.contains(image) && !self.imageWrapper.contains(image) && !image.closest('.clone');
+            });
+        }
+        /**
+         * Сверить элементы плеера с изображениями разметки: новые изображения добавляются на соответствующие места,
+         * элементы удаленных изображений удаляются без событий удаления, остальные элементы и выбор не меняются.
+         * Изображения остаются в разметке скрытыми
+         */
+        sync() {
+            const self = this, images = this.markupImages(), wasEmpty = !this.images.length;
+            this.sourceImages.forEach(function (span, image) {
+                if (images.indexOf(image) !== -1) {
+                    return;
+                }
+                self.sourceImages.delete(image);
+                image.classList.remove('player-source');
+                const index = self.images.indexOf(span);
+                if (index === -1) {
+                    return;
+                }
+                if (span.classList.contains('current')) {
+                    self.images[index + 1] ? self.select(index + 1) : self.images[index - 1] && self.select(index - 1);
+                }
+                self.deleteItem(span, true);
+            });
+            let previous = null;
+            images.forEach(function (image) {
+                let span = self.sourceImages.get(image) || null;
+                if (!span) {
+                    span = self.addItem(image);
+                    if (!span) {
+                        return;
+                    }
+                    image.classList.add('player-source');
+                    self.sourceImages.set(image, span);
+                    self.relocate(self.images.indexOf(span), previous ? self.images.indexOf(previous) + 1 : 0);
+                }
+                previous = span;
+            });
+            if (wasEmpty && this.images.length && !this.current) {
+                this.selectInitial();
+            }
+            // опустевший или изначально пустой плеер показывает заглушку; повторно событие empty не отправляется
+            this.playerElement.classList.contains('empty') || this.checkEmpty();
+        }
+        /**
+         * Следить за изображениями разметки и синхронизировать с ними элементы плеера
+         */
+        setObserve() {
+            if (!this.observe || !window['MutationObserver']) {
+                return;
+            }
+            const self = this;
+            this.mutationObserver = new MutationObserver(function (records) {
+                const changed = records.some(function (record) {
+                    return !self.mainWrapper.contains(record.target)
+                        && !self.imageWrapper.contains(record.target)
+                        && Array.from(record.addedNodes).concat(Array.from(record.removedNodes)).some(function (node) {
+                            return node instanceof HTMLImageElement || (node instanceof Element && !!node.querySelector('img'));
+                        });
+                });
+                changed && self.sync();
+            });
+            this.mutationObserver.observe(this.playerElement, { childList: true, subtree: true });
+        }
+        /**
+         * Выбрать элемент после загрузки: указанный в адресе, иначе первый, если включена активация
+         */
+        selectInitial() {
+            const state = this.linkState;
+            this.linkState = null;
+            if (state && this.applyLink(state)) {
+                return;
+            }
+            this.activate && this.images.length && this.select(0);
+        }
+        /**
+         * Параметры адреса, в которых хранится состояние плеера. Из хэша берутся только параметры плеера,
+         * остальное его содержимое (например, якорь) не разбирается
+         *
+         * @returns {URLSearchParams}
+         */
+        linkParams() {
+            if (this.deepLink === 'query') {
+                return new URLSearchParams(location.search);
+            }
+            return new URLSearchParams(location.hash.slice(1).split('&').filter(part => this.isLinkPart(part)).join('&'));
+        }
+        /**
+         * Является ли часть хэша параметром состояния этого плеера
+         *
+         * @param {string} part - часть хэша между символами &
+         *
+         * @returns {boolean}
+         */
+        isLinkPart(part) {
+            const key = this.deepLinkKey;
+            let name;
+            try {
+                name = decodeURIComponent(part.split('=')[0].replace(/\+/g, ' '));
+            }
+            catch (e) {
+                return false;
+            }
+            return part.indexOf('=') !== -1 && [key, `${key}-t`, `${key}-page`].indexOf(name) !== -1;
+        }
+        /**
+         * Прочитать состояние плеера из адреса
+         *
+         * @returns {{item : string, time : number, page : number} | null}
+         */
+        readLink() {
+            if (this.deepLink === 'none') {
+                return null;
+            }
+            const params = this.linkParams(), item = params.get(this.deepLinkKey);
+            if (item === null) {
+                return null;
+            }
+            return {
+                item: item,
+                time: (params.get(`${this.deepLinkKey}-t`) || '').split(':').reduce(function (sum, part) {
+                    return sum * 60 + (parseFloat(part) || 0);
+                }, 0),
+                page: parseInt(params.get(`${this.deepLinkKey}-page`) || '', 10) || 0
+            };
+        }
+        /**
+         * Выбрать элемент из адреса и перейти к указанным в нем времени видео и странице PDF
+         *
+         * @param {{item : string, time : number, page : number}} state - состояние из адреса
+         *
+         * @returns {boolean} - найден ли элемент
+         */
+        applyLink(state) {
+            let index = this.images.findIndex(image => image.dataset.name === state.item);
+            if (index === -1 && /^\d+$/.test(state.item)) {
+                index = parseInt(state.item, 10) - 1;
+            }
+            if (!this.images[index]) {
+                return false;
+            }
+            this.select(index);
+            const media = this.media, pdf = this.currentElement ? PdfDocument.get(this.currentElement) : null;
+            media && state.time && Player.seekWhenReady(media, state.time);
+            pdf && state.page && pdf.goTo(state.page);
+            return true;
+        }
+        /**
+         * Записать в адрес выбранный элемент (имя поля или номер), время видео и страницу PDF
+         */
+        writeLink() {
+            if (this.deepLink === 'none' || this.updating) {
+                return;
+            }
+            const key = this.deepLinkKey, params = this.linkParams(), current = this.current, media = this.media, pdf = this.currentElement ? PdfDocument.get(this.currentElement) : null;
+            [key, `${key}-t`, `${key}-page`].forEach(function (name) {
+                params.delete(name);
+            });
+            if (current) {
+                params.set(key, current.dataset.name || (this.images.indexOf(current) + 1).toString());
+                media && media.currentTime >= 1 && params.set(`${key}-t`, Math.floor(media.currentTime).toString());
+                pdf && pdf.page > 1 && params.set(`${key}-page`, pdf.page.toString());
+            }
+            const self = this, query = params.toString(), hash = location.hash.slice(1).split('&').filter(function (part) {
+                return part && !self.isLinkPart(part);
+            }).concat(query ? [query] : []).join('&'), url = this.deepLink === 'query'
+                ? location.pathname + (query ? '?' + query : '') + location.hash
+                : location.pathname + location.search + (hash ? '#' + hash : '');
+            if (url !== location.pathname + location.search + location.hash) {
+                history.replaceState(history.state, '', url);
+            }
+        }
+        /**
+         * Синхронизация состояния плеера с адресом
+         */
+        setDeepLink() {
+            if (this.deepLink === 'none') {
+                return;
+            }
+            const self = this;
+            let lastWrite = 0;
+            this.linkState = this.readLink();
+            ['pause', 'seeked', 'timeupdate', 'pdfpagechange'].forEach(function (type) {
+                self.mainWrapper.addEventListener(type, function (e) {
+                    if (e.type === 'timeupdate' && e.timeStamp - lastWrite < 1000) {
+                        return;
+                    }
+                    lastWrite = e.timeStamp;
+                    self.writeLink();
+                }, true);
+            });
+            this.listen(window, this.deepLink === 'query' ? 'popstate' : 'hashchange', function () {
+                const state = self.readLink(), current = self.current;
+                if (state
+                    && (!current || (current.dataset.name || (self.images.indexOf(current) + 1).toString()) !== state.item)) {
+                    self.applyLink(state);
+                }
+            });
+        }
+        /**
+         * Заменить содержимое плеера списком элементов.
+         * Прежние элементы удаляются без событий удаления, по окончании отправляется событие load
+         *
+         * @param {IPlayerItem[]} items - элементы плеера
+         */
+        load(items) {
+            const self = this;
+            this.updating = true;
+            this.images.slice().forEach(function (span) {
+                self.deleteItem(span, true);
+            });
+            items.forEach(function (item) {
+                self.addItem(item);
+            });
+            this.updating = false;
+            this.prevScroll = 0;
+            this.position = 0;
+            this.translateStrip(0, 0);
+            this.checkEmpty();
+            this.selectInitial();
+            this.emit('load', null, -1);
+        }
+        /**
+         * Элементы плеера
+         *
+         * @returns {IPlayerItem[]}
+         */
+        get items() {
+            const self = this;
+            return this.images.map(function (span) {
+                return self.itemsData.get(span);
+            });
         }
         /**
-         * Начало рендеринга
+         * Получить данные элемента плеера
          *
-         * @param {HTMLDivElement} mainWrapper
-         * @param {HTMLSpanElement} curImage
-         * @param {string} selector
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {IPlayerItem | null}
          */
-        static renderInit(mainWrapper, curImage, selector) {
-            if (curImage.classList.contains('current')) {
-                return;
-            }
-            mainWrapper.querySelectorAll(selector).forEach(function (element) {
-                element.style.display = 'none';
-            });
-            if (curImage.parentElement) {
-                Array.from(curImage.parentElement.children).forEach(function (imageSpan) {
-                    imageSpan.classList.remove('current');
-                });
-            }
-            curImage.classList.add('current');
+        getItem(item) {
+            const span = typeof item === 'number' ? this.images[item] : item;
+            return span ? this.itemsData.get(span) || null : null;
         }
         /**
-         * Рендеринг видео в плеере
+         * Представление плеера для JSON.stringify - список элементов
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @returns {IPlayerItem[]}
+         */
+        toJSON() {
+            return this.items;
+        }
+        /**
+         * Текущий элемент плеера
          *
-         * @returns {HTMLVideoElement | null}
+         * @returns {HTMLSpanElement | null}
          */
-        static renderVideo(mainWrapper, curImage) {
-            Player.renderInit(mainWrapper, curImage, 'video');
-            let videoSrc = curImage.dataset.objectSrc || '', imageSrc = curImage.dataset.src;
-            if (!videoSrc) {
+        get current() {
+            return this.images.find(function (image) {
+                return image.classList.contains('current');
+            }) || null;
+        }
+        /**
+         * Индекс текущего элемента плеера или -1, если ничего не выбрано
+         *
+         * @returns {number}
+         */
+        get currentIndex() {
+            const current = this.current;
+            return current ? this.images.indexOf(current) : -1;
+        }
+        /**
+         * Выбрать элемент плеера
+         *
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {HTMLElement | null} - отображаемый элемент блока просмотра
+         */
+        select(item) {
+            const index = typeof item === 'number' ? item : this.images.indexOf(item), image = this.images[index];
+            if (!image) {
                 return null;
             }
-            for (let video of Array.from(mainWrapper.querySelectorAll('video'))) {
-                if (video.getAttribute('src') === videoSrc) {
-                    video.style.display = 'block';
-                    return video;
-                }
+            if (image.classList.contains('current')) {
+                return this.render(image);
             }
-            let video = Utils.GoodFuncs.createElementWithAttrs('video', {
-                src: videoSrc,
-                controls: 'controls',
-                poster: imageSrc,
-                preload: 'metadata',
-                controlsList: 'nodownload',
-                text: 'Видео не доступно',
-                volume: 'high',
-                status: 'stop',
-                fullscreen: 'no' /*,
-                width: mainWrapper.innerWidth(),
-                height: mainWrapper.innerWidth() * curImage.innerHeight() / curImage.innerWidth()*/
-            });
-            mainWrapper.insertAdjacentElement('beforeend', video);
-            return video;
+            if (!this.emit('beforeSelect', image, index, {}, true)) {
+                return null;
+            }
+            const previous = this.current, media = this.media;
+            previous && media && this.savePosition(previous, media);
+            this.cancelAutoplay();
+            this.cancelGapless();
+            this.primedItem = null;
+            this.primedElement = null;
+            const element = this.render(image);
+            this.loadThumbnail(image);
+            this.preloadAround(index);
+            this.evict();
+            this.updateDots();
+            this.setFocusable(image);
+            this.ensureVisible(index);
+            this.announce(image.title);
+            this.emit('select', image, index);
+            this.writeLink();
+            return element;
         }
         /**
-         * Рендеринг изображения в плеере
+         * Перейти к следующему элементу
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {boolean} loop - переходить ли с последнего элемента на первый
          *
-         * @returns {HTMLImageElement | null}
+         * @returns {HTMLElement | null}
          */
-        static renderImage(mainWrapper, curImage) {
-            Player.renderInit(mainWrapper, curImage, 'img');
-            let imageSrc = curImage.dataset.src;
-            for (let image of Array.from(mainWrapper.querySelectorAll('img'))) {
-                if (image.getAttribute('src') === imageSrc) {
-                    image.style.display = 'block';
-                    return image;
+        next(loop = this.loop) {
+            let index = this.currentIndex + 1;
+            if (index >= this.images.length) {
+                if (!loop) {
+                    return null;
                 }
+                index = 0;
             }
-            let image = Utils.GoodFuncs.createElementWithAttrs('img', {
-                class: 'materialboxed responsive-img',
-                src: imageSrc
-            });
-            mainWrapper.insertAdjacentElement('beforeend', image);
-            if (window['M'] !== undefined) {
-                M.Materialbox.init(image);
+            return this.select(index);
+        }
+        /**
+         * Перейти к предыдущему элементу
+         *
+         * @param {boolean} loop - переходить ли с первого элемента на последний
+         *
+         * @returns {HTMLElement | null}
+         */
+        prev(loop = this.loop) {
+            let index = this.currentIndex - 1;
+            if (index < 0) {
+                if (!loop) {
+                    return null;
+                }
+                index = this.images.length - 1;
             }
-            return image;
+            return this.select(index);
         }
         /**
-         * Рендеринг книги в плеере
+         * Геттер для уникального идентификатора плеера
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @returns {string}
+         */
+        get id() {
+            return this.uniq;
+        }
+        /**
+         * Нарисовать источник на холсте, уменьшив его до размера превью, и получить data URL
+         *
+         * @param {CanvasImageSource} source - изображение, видео или холст
+         * @param {number} width - исходная ширина
+         * @param {number} height - исходная высота
+         *
+         * @returns {string}
+         */
+        static drawThumbnail(source, width, height) {
+            const canvas = document.createElement('canvas'), scale = Math.min(1, Player.thumbnailSize / Math.max(width, height, 1));
+            canvas.width = Math.max(1, Math.round(width * scale));
+            canvas.height = Math.max(1, Math.round(height * scale));
+            canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+            return canvas.toDataURL('image/jpeg', 0.8);
+        }
+        /**
+         * Превью-заглушка с расширением файла для форматов, из которых нельзя получить изображение
          *
-         * @returns {HTMLIFrameElement | HTMLEmbedElement | null}
+         * @param {string} name - имя файла
+         *
+         * @returns {string}
          */
-        static renderBook(mainWrapper, curImage) {
-            Player.renderInit(mainWrapper, curImage, 'iframe, embed');
-            let bookSrc = curImage.dataset.objectSrc || '', bookSrcMatches = bookSrc.match(/.+?\.([^.]+)$/), bookType = curImage.dataset.type || (bookSrcMatches ? bookSrcMatches[1] : '');
-            if (!bookSrc || !bookType) {
-                return null;
+        static placeholderThumbnail(name) {
+            const canvas = document.createElement('canvas'), context = canvas.getContext('2d'), matches = name.match(/\.([^.]+)$/);
+            canvas.width = Player.thumbnailSize;
+            canvas.height = Math.round(Player.thumbnailSize * 0.75);
+            context.fillStyle = '#343843';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.fillStyle = 'white';
+            context.font = `bold ${Math.round(canvas.height / 4)}px sans-serif`;
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText((matches ? matches[1] : '?').toUpperCase(), canvas.width / 2, canvas.height / 2);
+            return canvas.toDataURL('image/png');
+        }
+        /**
+         * Создать превью файла: уменьшенное изображение, кадр видео, волновая форма аудио или первая страница PDF (если загружен PDF.js)
+         *
+         * @param {File} file - файл
+         * @param {string} src - ссылка на файл (object URL)
+         *
+         * @returns {Promise<string>} - data URL превью
+         */
+        static createThumbnail(file, src) {
+            const placeholder = Player.placeholderThumbnail(file.name);
+            if (file.type.indexOf('image/') === 0) {
+                return new Promise(function (resolve) {
+                    const image = new Image();
+                    image.onload = function () {
+                        resolve(Player.drawThumbnail(image, image.naturalWidth, image.naturalHeight));
+                    };
+                    image.onerror = function () {
+                        resolve(placeholder);
+                    };
+                    image.src = src;
+                });
             }
-            for (let book of Array.from(mainWrapper.querySelectorAll('embed, iframe'))) {
-                if (book.getAttribute('src') === bookSrc) {
-                    book.style.display = 'block';
-                    return book.tagName === 'iframe' ? book : book;
-                }
+            if (file.type.indexOf('video/') === 0) {
+                return new Promise(function (resolve) {
+                    const video = document.createElement('video');
+                    video.muted = true;
+                    video.preload = 'auto';
+                    video.addEventListener('loadeddata', function () {
+                        video.currentTime = Math.min(1, video.duration / 2 || 0);
+                    });
+                    video.addEventListener('seeked', function () {
+                        resolve(Player.drawThumbnail(video, video.videoWidth, video.videoHeight));
+                        video.removeAttribute('src');
+                        video.load();
+                    });
+                    video.addEventListener('error', function () {
+                        resolve(placeholder);
+                    });
+                    video.src = src;
+                });
             }
-            let book = document.createElement('iframe');
-            switch (bookType) {
-                case 'pdf':
-                    book.setAttribute('src', bookSrc);
-                    break;
-                default:
-                    book.setAttribute('src', 'https://docs.google.com/viewer?url=' + document.location.origin + bookSrc + '&embedded=true');
+            if (file.type.indexOf('audio/') === 0) {
+                return AudioRenderer.waveform(src, file.size).then(function (peaks) {
+                    const canvas = document.createElement('canvas'), context = canvas.getContext('2d');
+                    canvas.width = Player.thumbnailSize;
+                    canvas.height = Math.round(Player.thumbnailSize * 0.75);
+                    AudioRenderer.drawWaveform(canvas, peaks, 1);
+                    context.globalCompositeOperation = 'destination-over';
+                    context.fillStyle = '#343843';
+                    context.fillRect(0, 0, canvas.width, canvas.height);
+                    return canvas.toDataURL('image/png');
+                }).catch(function () {
+                    return placeholder;
+                });
             }
-            book.allowFullscreen = true;
-            mainWrapper.insertAdjacentElement('beforeend', book);
-            return book;
-        }
-        setRender() {
-            const self = this;
-            if (this.playerElement.classList.contains('video')) {
-                this.render = function (curImage) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    return Player.renderVideo(self.mainWrapper, curImage);
-                };
-                this.type = 'video';
-            }
-            else if (this.playerElement.classList.contains('image')) {
-                this.render = function (curImage) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    return Player.renderImage(self.mainWrapper, curImage);
-                };
-                this.type = 'image';
-            }
-            else if (this.playerElement.classList.contains('book')) {
-                this.render = function (curImage) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    self.addFullScreenButton();
-                    return Player.renderBook(self.mainWrapper, curImage);
-                };
-                this.type = 'book';
+            const pdfjs = window['pdfjsLib'];
+            if (file.type === 'application/pdf' && pdfjs) {
+                const task = pdfjs.getDocument(src);
+                return (task.promise || task).then(function (pdf) {
+                    return pdf.getPage(1);
+                }).then(function (page) {
+                    const viewport = page.getViewport({ scale: 1 }), scaled = page.getViewport({ scale: Player.thumbnailSize / Math.max(viewport.width, viewport.height) }), canvas = document.createElement('canvas');
+                    canvas.width = scaled.width;
+                    canvas.height = scaled.height;
+                    const render = page.render({ canvasContext: canvas.getContext('2d'), viewport: scaled });
+                    return (render.promise || render).then(function () {
+                        return canvas.toDataURL('image/jpeg', 0.8);
+                    });
+                }).catch(function () {
+                    return placeholder;
+                });
             }
+            return Promise.resolve(placeholder);
         }
-        addFullScreenButton() {
-            if (!this.fullscreenButtonAdded) {
-                let button = document.createElement('button');
-                button.classList.add('fullscreen');
-                button.type = 'button';
-                this.mainWrapper.append(button);
-                button.addEventListener('click', function () {
-                    Utils.GoodFuncs.nextAll(this, 'iframe').forEach(function (iframe) {
-                        const computedStyle = window.getComputedStyle(iframe);
-                        if (computedStyle.display !== 'none') {
-                            const rFS = iframe.mozRequestFullScreen
-                                || iframe.webkitRequestFullscreen
-                                || iframe.requestFullscreen;
-                            rFS.call(iframe);
-                        }
+        /**
+         * Добавить элементы из файлов: превью создаются в браузере, а файлы передаются загрузчику (опция uploader).
+         * Без загрузчика элементы ссылаются на локальные копии файлов
+         *
+         * @param {FileList | File[]} files - файлы
+         *
+         * @returns {Promise<HTMLSpanElement[]>} - превью добавленных элементов
+         */
+        addFiles(files) {
+            const self = this, accepted = Array.from(files).filter(file => this.acceptsFile(file));
+            return Promise.all(accepted.map(function (file) {
+                const src = URL.createObjectURL(file);
+                return Player.createThumbnail(file, src).then(function (thumbnail) {
+                    const span = self.addItem({
+                        thumbnail: thumbnail,
+                        src: src,
+                        title: file.name,
+                        type: file.type || undefined
                     });
+                    if (span) {
+                        self.objectUrls.set(span, src);
+                        self.uploader && self.upload(span, file);
+                    }
+                    return span;
                 });
-                this.fullscreenButtonAdded = true;
-            }
+            })).then(function (spans) {
+                return spans.filter(span => span);
+            });
         }
-        setImageClick() {
-            const self = this;
-            this.imageWrapper.addEventListener('click', function (e) {
-                let target = e.target;
-                if (!target.matches('.img')) {
-                    return;
-                }
-                e.stopPropagation();
-                self.render(target);
-                //self.scrollTo(self.images.indexOf(target));
+        /**
+         * Подходит ли файл под опцию accept
+         *
+         * @param {File} file
+         *
+         * @returns {boolean}
+         */
+        acceptsFile(file) {
+            const name = file.name.toLowerCase(), type = file.type.toLowerCase();
+            return !this.accept || this.accept.split(',').some(function (rule) {
+                rule = rule.trim().toLowerCase();
+                return rule.charAt(0) === '.'
+                    ? name.slice(-rule.length) === rule
+                    : rule.slice(-2) === '/*' ? type.indexOf(rule.slice(0, -1)) === 0 : type === rule;
             });
         }
-        setDeleteClick() {
-            const self = this;
-            this.imageWrapper.addEventListener('click', function (e) {
-                e.stopPropagation();
-                let target = e.target;
-                if (!target.matches('.img > i')) {
-                    return;
-                }
-                const element = target.parentNode, index = self.images.indexOf(element);
-                if (self.images[index + 1] !== undefined) {
-                    self.images[index + 1].click();
-                }
-                else if (self.images[index - 1]) {
-                    self.images[index - 1].click();
-                }
-                self.deleteItem(element);
-                if (!self.images.length) {
-                    self.emptyPlayerImage
-                        && self.emptyPlayerImageDisplay
-                        && (self.emptyPlayerImage.style.display = self.emptyPlayerImageDisplay);
+        /**
+         * Загрузить файл элемента загрузчиком, показывая прогресс на превью
+         *
+         * @param {HTMLSpanElement} span - превью
+         * @param {File} file - файл
+         *
+         * @returns {Promise<void>}
+         */
+        upload(span, file) {
+            const self = this, progress = Utils.GoodFuncs.createElementWithAttrs('span', {
+                'class': 'upload-progress',
+                'role': 'progressbar',
+                'aria-valuemin': '0',
+                'aria-valuemax': '100',
+                'aria-valuenow': '0',
+                'aria-label': this.t('uploading', { name: file.name })
+            });
+            span.classList.add('uploading');
+            span.classList.remove('failed');
+            span.appendChild(progress);
+            const setProgress = function (fraction) {
+                const percent = Math.round(Math.max(0, Math.min(fraction, 1)) * 100);
+                progress.style.setProperty('--upload-progress', `${percent}%`);
+                progress.setAttribute('aria-valuenow', percent.toString());
+            };
+            return Promise.resolve().then(function () {
+                return self.uploader(file, setProgress);
+            }).then(function (result) {
+                const uploaded = typeof result === 'string' ? { src: result } : result, item = Object.assign({}, self.getItem(span), uploaded), objectUrl = self.objectUrls.get(span);
+                self.itemsData.set(span, item);
+                item.name && (span.dataset.name = item.name);
+                if (item.src && item.src !== objectUrl) {
+                    // отображенный ресурс ссылается на локальную копию файла: он пересоздается по ссылке загрузчика
+                    const isCurrent = self.current === span;
+                    self.destroyRendered(span);
+                    span.dataset.objectSrc = item.src;
+                    objectUrl && URL.revokeObjectURL(objectUrl);
+                    self.objectUrls.delete(span);
+                    isCurrent && self.render(span);
                 }
+                span.classList.remove('uploading');
+                progress.remove();
+                self.updateFields();
+                self.emit('upload', span, self.images.indexOf(span), { file: file, src: item.src });
+            }, function (error) {
+                span.classList.remove('uploading');
+                span.classList.add('failed');
+                progress.remove();
+                self.announce(self.t('uploadError', { name: file.name }));
+                self.emit('uploadError', span, self.images.indexOf(span), { file: file, error: error });
             });
         }
-        setScroll() {
+        /**
+         * Отразить список элементов в скрытых полях формы (опция formField).
+         * Элементы, которые еще загружаются или не загрузились, а также добавленные из файлов без загрузчика,
+         * в форму не попадают: их ссылки действуют только на этой странице
+         */
+        updateFields() {
             const self = this;
-            this.imageWrapper.addEventListener('click', function (e) {
-                if (!e.target.matches('.' + self.imageWrapperClass)) {
-                    return;
-                }
-                let offset = e['detail'] && e['detail']['offset'] !== undefined
-                    ? e.detail['offset']
-                    : e.offsetX;
-                if (!self.images.length || self.imagesWidth <= self.imageWrapper.clientWidth) {
-                    return;
-                }
-                let position = self.position;
-                if (offset <= self.scrollButtonsWidth) {
-                    if (self.images[position - 1]) {
-                        position--;
-                        self.diffWidth = 0;
-                    }
-                }
-                else if (offset >= self.imageWrapper.clientWidth - self.scrollButtonsWidth) {
-                    if (!self.diffWidth && self.images[position + 1]) {
-                        position++;
-                    }
-                }
-                else {
-                    return;
-                }
-                const startScroll = self.prevScroll;
-                if (self.scrollTo(position) === startScroll && position < self.position && startScroll) {
-                    this.dispatchEvent(new CustomEvent('click', { detail: { offset: offset } }));
-                }
-            });
-            this.imageWrapper.addEventListener('wheel', function (e) {
-                e.preventDefault();
-                if (this['disabled']) {
-                    return;
-                }
-                if (e.deltaY < 0) {
-                    this.dispatchEvent(new CustomEvent('click', { detail: { offset: 0 } }));
+            if (!this.fieldsElement) {
+                return;
+            }
+            this.fieldsElement.textContent = '';
+            this.images.forEach(function (span) {
+                if (span.classList.contains('uploading')
+                    || span.classList.contains('failed')
+                    || self.objectUrls.get(span) === span.dataset.objectSrc) {
                     return;
                 }
-                this.dispatchEvent(new CustomEvent('click', { detail: { offset: this.clientWidth } }));
+                const input = document.createElement('input');
+                input.type = 'hidden';
+                input.name = self.formField;
+                input.value = span.dataset.objectSrc || span.dataset.src || '';
+                self.fieldsElement.appendChild(input);
             });
         }
         /**
-         *
-         * @param {number} index
-         *
-         * @returns {number}
+         * Применить расположение ленты превью и размеры превью
          */
-        scrollTo(index) {
+        setLayout() {
             const self = this;
-            if (!this.images[index]) {
+            this.playerElement.classList.add('layout-' + this.layout);
+            this.playerElement.style.setProperty('--thumbnail-width', this.thumbnailWidth);
+            this.playerElement.style.setProperty('--thumbnail-height', this.thumbnailHeight);
+            this.playerElement.style.setProperty('--grid-rows', this.rows().toString());
+            if (this.layout !== 'dots') {
                 return;
             }
-            const currentImage = this.images[index];
-            let scroll = 0;
-            Utils.GoodFuncs.prevAll(currentImage, '.img').forEach(function (element) {
-                scroll += element.clientWidth;
+            const dots = Utils.GoodFuncs.createElementWithAttrs('nav', {
+                'class': 'player-dots',
+                'aria-label': this.t('itemList')
             });
-            if (scroll > this.prevScroll) {
-                let viewWidth = 0;
-                Utils.GoodFuncs.nextAll(currentImage, '.img').forEach(function (element) {
-                    viewWidth += element.clientWidth;
-                });
-                viewWidth += currentImage.clientWidth;
-                if (viewWidth <= this.imageWrapper.clientWidth) {
-                    this.diffWidth = this.imageWrapper.clientWidth - viewWidth;
-                    scroll -= this.diffWidth;
-                }
+            this.imageWrapper.insertAdjacentElement('afterend', dots);
+            this.dotsElement = dots;
+            dots.addEventListener('click', function (e) {
+                const dot = e.target.closest('.dot');
+                dot && self.select(Array.from(this.children).indexOf(dot));
+            });
+        }
+        /**
+         * Обновить точки расположения dots: по одной на элемент, текущая отмечена
+         */
+        updateDots() {
+            const dots = this.dotsElement;
+            if (!dots) {
+                return;
             }
-            else {
-                this.diffWidth = 0;
-            }
-            this.images.forEach(function (img) {
-                img.animate({
-                    left: [-self.prevScroll + 'px', -scroll + 'px']
-                }, {
-                    duration: self.animationDuration,
-                    fill: 'forwards'
-                });
+            while (dots.children.length > this.images.length) {
+                dots.lastElementChild.remove();
+            }
+            while (dots.children.length < this.images.length) {
+                dots.insertAdjacentHTML('beforeend', '<button type="button" class="dot"></button>');
+            }
+            this.images.forEach(function (span, index) {
+                const dot = dots.children[index];
+                dot.setAttribute('aria-label', span.getAttribute('aria-label') || span.title);
+                span.classList.contains('current')
+                    ? dot.setAttribute('aria-current', 'true')
+                    : dot.removeAttribute('aria-current');
             });
-            this.position = index;
-            this.prevScroll = scroll;
-            return scroll;
         }
         /**
-         * Обновить плеер
+         * Режим редактирования: кнопка выбора файлов, перетаскивание файлов на плеер и вставка из буфера обмена
          */
-        update() {
+        setEditMode() {
             const self = this;
-            Array.from(this.imageWrapper.querySelectorAll('.img')).forEach(function (span) {
-                self.deleteItem(span);
+            if (this.formField) {
+                this.fieldsElement = document.createElement('div');
+                this.fieldsElement.classList.add('player-fields');
+                this.fieldsElement.hidden = true;
+                this.playerElement.appendChild(this.fieldsElement);
+            }
+            if (!this.editable) {
+                return;
+            }
+            this.editorElement = document.createElement('div');
+            this.editorElement.classList.add('player-editor');
+            this.editorElement.insertAdjacentHTML('beforeend', `
+                <button type="button" class="add-files material-icons" aria-label="${this.t('addFiles')}">add</button>
+                <input type="file" multiple hidden>
+            `);
+            this.playerElement.appendChild(this.editorElement);
+            const input = this.editorElement.querySelector('input');
+            input.accept = this.accept;
+            this.editorElement.querySelector('.add-files').addEventListener('click', function () {
+                input.click();
             });
-            this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`).forEach(function (image) {
-                self.addItem(image);
-                image.remove();
+            input.addEventListener('change', function () {
+                this.files && self.addFiles(this.files);
+                this.value = '';
             });
-            this.images = Array.from(this.imageWrapper.querySelectorAll('.img'));
-            let imagesWidth = 0;
-            this.images.forEach(function (img) {
-                imagesWidth += img.offsetWidth;
+            const hasFiles = function (e) {
+                return !!e.dataTransfer && Array.from(e.dataTransfer.types).indexOf('Files') !== -1;
+            };
+            this.listen(this.playerElement, 'dragover', function (e) {
+                if (hasFiles(e)) {
+                    e.preventDefault();
+                    self.playerElement.classList.add('drop-active');
+                }
+            });
+            this.listen(this.playerElement, 'dragleave', function (e) {
+                if (!e.relatedTarget || !self.playerElement.contains(e.relatedTarget)) {
+                    self.playerElement.classList.remove('drop-active');
+                }
+            });
+            this.listen(this.playerElement, 'drop', function (e) {
+                if (!hasFiles(e)) {
+                    return;
+                }
+                e.preventDefault();
+                self.playerElement.classList.remove('drop-active');
+                self.addFiles(e.dataTransfer.files);
+            });
+            this.listen(document, 'paste', function (e) {
+                const files = e.clipboardData ? Array.from(e.clipboardData.files) : [];
+                if (files.length && self.playerElement.contains(document.activeElement)) {
+                    e.preventDefault();
+                    self.addFiles(files);
+                }
             });
-            this.imagesWidth = imagesWidth;
-            const firstImage = this.imageWrapper.querySelector('.img');
-            if (this.activate && firstImage) {
-                firstImage.click();
-            }
         }
         /**
-         * Геттер для уникального идентификатора плеера
+         * Добавить элемент в плеер
          *
-         * @returns {string}
-         */
-        get id() {
-            return this.uniq;
-        }
-        /**
-         * Добавить изображение в плеер
+         * @param {IPlayerItem | HTMLImageElement} item - элемент или изображение разметки
+         * @param {boolean} isActivate - активировать добавляемый элемент
+         * @param {string} sourceName - ссылка на альтернативный ресурс (только для изображений)
          *
-         * @param {HTMLImageElement} image - изображение
-         * @param {boolean} isActivate - активировать добавляемое изображение
-         * @param {string} sourceName - ссылка на альтернативный ресурс
+         * @returns {HTMLSpanElement | null} - превью добавленного элемента
          */
-        addItem(image, isActivate = false, sourceName = '') {
-            if (image.closest('.clone')) {
-                return;
+        addItem(item, isActivate = false, sourceName = '') {
+            if (item instanceof HTMLImageElement) {
+                if (item.closest('.clone')) {
+                    return null;
+                }
+                item = Player.imageToItem(item, sourceName);
             }
-            let src = decodeURI(image.src), span = Utils.GoodFuncs.createElementWithAttrs('span', {
+            let src = item.thumbnail, title = item.title || '', span = Utils.GoodFuncs.createElementWithAttrs('span', {
                 'class': 'img',
                 'data-src': src,
-                'title': image.title.length > 50 ? image.title.substr(0, 50) + '...' : image.title,
-                'data-object-src': image.dataset.objectSrc,
-                'data-type': image.dataset.type,
-                'html': '<i class="material-icons">close</i>',
-                'data-name': sourceName || image.dataset.name
-            });
-            span.style.backgroundImage = `url("${src}")`;
-            this.imageWrapper.appendChild(span);
+                'title': Player.truncate(title, this.titleLength, this.locale),
+                'data-object-src': item.src || (item.sources && item.sources.length ? item.sources[0].src : undefined),
+                'data-type': item.type,
+                'html': '<i class="material-icons" aria-hidden="true">close</i>',
+                'data-name': item.name,
+                'role': 'option',
+                'aria-selected': 'false',
+                'aria-label': title,
+                'aria-keyshortcuts': 'Delete'
+            });
+            if (this.thumbnailObserver) {
+                span.classList.add('lazy');
+                this.thumbnailObserver.observe(span);
+            }
+            else {
+                span.style.backgroundImage = `url("${src}")`;
+            }
+            span.dataset.renderer = this.resolveRenderer(span);
+            span.tabIndex = this.images.some(image => image.tabIndex === 0) ? -1 : 0;
+            span.firstElementChild.title = this.t('deleteItem', { title: title });
+            this.itemsData.set(span, item);
+            this.playerElement.classList.remove('empty');
             this.images.push(span);
-            this.imagesWidth += span.offsetWidth;
+            this.renderStrip();
+            this.updateFields();
+            this.emit('add', span, this.images.length - 1);
             if (isActivate) {
-                span.click();
+                this.select(span);
+            }
+            return span;
+        }
+        /**
+         * Уничтожить элементы блока просмотра, отображающие ресурс превью
+         *
+         * @param {HTMLSpanElement} element - превью
+         */
+        destroyRendered(element) {
+            const name = element.dataset.renderer || '', renderer = Player.getRenderer(name);
+            if (!renderer) {
+                return;
+            }
+            const src = renderer.source(element);
+            for (let object of this.getRendered(name)) {
+                if (renderer.match(object, src)) {
+                    renderer.destroy(object);
+                }
             }
         }
         /**
          * Удалить пару изображение - ресурс из плеера
          *
          * @param {HTMLSpanElement} element - удаляемый элемент
+         * @param {boolean} silent - не отправлять события удаления
          */
-        deleteItem(element) {
+        deleteItem(element, silent = false) {
             let index = this.images.indexOf(element), objSrc = element.dataset.objectSrc || element.dataset.src;
-            element.remove();
-            for (let object of Array.from(this.mainWrapper.querySelectorAll('img, video, iframe, embed'))) {
-                if (object.getAttribute('src') === objSrc) {
-                    object.remove();
-                }
+            if (index === -1) {
+                return;
             }
+            element.remove();
+            this.resizeObserver && this.resizeObserver.unobserve(element);
+            this.thumbnailObserver && this.thumbnailObserver.unobserve(element);
+            element.classList.contains('current') && this.setCurrentElement(null);
+            this.itemsData.delete(element);
+            this.destroyRendered(element);
             this.images.splice(index, 1);
             this.images = this.images.filter(val => val);
-            this.imagesWidth -= element.offsetWidth;
-            document.dispatchEvent(new CustomEvent('deleteItem', {
-                detail: {
-                    src: objSrc,
-                    field: element.dataset.name
-                }
-            }));
+            this.resizeStrip([]);
+            if (element.tabIndex === 0 && this.images.length) {
+                this.setFocusable(this.current || this.images[0]);
+            }
+            if (!silent) {
+                this.emit('delete', element, index, { src: objSrc, field: element.dataset.name });
+                document.dispatchEvent(new CustomEvent('deleteItem', {
+                    detail: {
+                        src: objSrc,
+                        field: element.dataset.name
+                    }
+                }));
+            }
+            const objectUrl = this.objectUrls.get(element);
+            objectUrl && URL.revokeObjectURL(objectUrl);
+            this.updateFields();
+            this.checkEmpty();
         }
     }
+    /**
+     * Зарегистрированные рендереры
+     *
+     * @type {Object<string, IRenderer>}
+     */
+    Player.renderers = {};
     /**
      * Параметры конфигурации по умолчанию
      *
@@ -423,7 +4620,181 @@ export var QooizPlayer;
         imageWrapperClass: 'image-wrapper',
         scrollButtonsWidth: 50,
         scrollButtonsPadding: 10,
-        imageStopClass: 'no-image'
+        imageStopClass: 'no-image',
+        loop: false,
+        swipe: true,
+        dragThreshold: 5,
+        swipeThreshold: 50,
+        dragInertia: 300,
+        reorderable: false,
+        reorderDelay: 300,
+        documentConverter: '',
+        videoControls: 'native',
+        continuous: false,
+        autoplayCountdown: 0,
+        repeat: 'none',
+        shuffle: false,
+        resume: false,
+        gapless: true,
+        mediaSession: true,
+        waveform: true,
+        imageViewer: 'native',
+        lazyThumbnails: true,
+        preload: 1,
+        cacheSize: 5,
+        loadTimeout: 15000,
+        emptyTemplate: '',
+        observe: false,
+        i18n: {},
+        titleLength: 50,
+        deepLink: 'none',
+        deepLinkKey: '',
+        editable: false,
+        accept: 'image/*,video/*,audio/*,application/pdf',
+        formField: '',
+        layout: 'horizontal',
+        gridRows: 2,
+        thumbnailWidth: '20rem',
+        thumbnailHeight: '6rem'
+    };
+    /**
+     * Скорости воспроизведения, доступные на панели управления видео
+     *
+     * @type {number[]}
+     */
+    Player.playbackRates = [0.5, 0.75, 1, 1.25, 1.5, 2];
+    /**
+     * Тексты интерфейса по языкам
+     */
+    Player.messages = {
+        ru: {
+            videoUnavailable: 'Видео не доступно',
+            audioUnavailable: 'Аудио не доступно',
+            zoomIn: 'Увеличить',
+            zoomOut: 'Уменьшить',
+            rotate: 'Повернуть',
+            resetZoom: 'Сбросить',
+            openLightbox: 'Открыть в лайтбоксе',
+            pdfPrev: 'Предыдущая страница',
+            pdfNext: 'Следующая страница',
+            pdfPage: 'Страница',
+            pdfSearch: 'Поиск',
+            pdfSearchLabel: 'Поиск по документу',
+            pdfError: 'Не удалось открыть документ',
+            pdfNotFound: 'Ничего не найдено',
+            documentUnavailable: 'Просмотр документа недоступен',
+            documentDownload: 'Скачать документ',
+            loading: 'Загрузка',
+            loadError: 'Не удалось загрузить материал',
+            retry: 'Повторить',
+            empty: 'Материалов нет',
+            play: 'Воспроизвести',
+            pause: 'Пауза',
+            seek: 'Позиция',
+            mute: 'Выключить звук',
+            unmute: 'Включить звук',
+            volume: 'Громкость',
+            playbackRate: 'Скорость воспроизведения',
+            captions: 'Субтитры',
+            captionsOff: 'Без субтитров',
+            quality: 'Качество',
+            audioTrack: 'Звуковая дорожка',
+            autoplayNext: 'Далее через {seconds} с: {title}',
+            playNow: 'Смотреть сейчас',
+            cancel: 'Отмена',
+            previous: 'Предыдущий',
+            next: 'Следующий',
+            close: 'Закрыть',
+            fullscreen: 'Полноэкранный режим',
+            itemList: 'Список материалов',
+            itemMoved: '«{title}»: позиция {position} из {total}',
+            deleteItem: 'Удалить «{title}»',
+            addFiles: 'Добавить файлы',
+            uploading: 'Загрузка {name}',
+            uploadError: 'Не удалось загрузить файл {name}'
+        },
+        en: {
+            videoUnavailable: 'Video is not available',
+            audioUnavailable: 'Audio is not available',
+            zoomIn: 'Zoom in',
+            zoomOut: 'Zoom out',
+            rotate: 'Rotate',
+            resetZoom: 'Reset',
+            openLightbox: 'Open in lightbox',
+            pdfPrev: 'Previous page',
+            pdfNext: 'Next page',
+            pdfPage: 'Page',
+            pdfSearch: 'Search',
+            pdfSearchLabel: 'Search the document',
+            pdfError: 'Could not open the document',
+            pdfNotFound: 'Nothing found',
+            documentUnavailable: 'Document preview is not available',
+            documentDownload: 'Download document',
+            loading: 'Loading',
+            loadError: 'Could not load the item',
+            retry: 'Retry',
+            empty: 'No items',
+            play: 'Play',
+            pause: 'Pause',
+            seek: 'Position',
+            mute: 'Mute',
+            unmute: 'Unmute',
+            volume: 'Volume',
+            playbackRate: 'Playback speed',
+            captions: 'Subtitles',
+            captionsOff: 'Subtitles off',
+            quality: 'Quality',
+            audioTrack: 'Audio track',
+            autoplayNext: 'Up next in {seconds} s: {title}',
+            playNow: 'Play now',
+            cancel: 'Cancel',
+            previous: 'Previous',
+            next: 'Next',
+            close: 'Close',
+            fullscreen: 'Fullscreen',
+            itemList: 'Items',
+            itemMoved: '“{title}”: position {position} of {total}',
+            deleteItem: 'Delete “{title}”',
+            addFiles: 'Add files',
+            uploading: 'Uploading {name}',
+            uploadError: 'Could not upload {name}'
+        }
     };
+    /**
+     * Языки с письмом справа налево
+     */
+    Player.rtlLanguages = ['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'dv', 'ku'];
+    /**
+     * За сколько секунд до конца аудио начинать загрузку следующего (опция gapless)
+     */
+    Player.audioPrimeLead = 15;
+    /**
+     * За сколько секунд до конца аудио планировать запуск следующего
+     */
+    Player.gaplessLead = 0.5;
+    /**
+     * Плееры по элементам, на которых они загружены
+     */
+    Player.instances = new WeakMap();
+    /**
+     * Количество плееров с синхронизацией адреса, у блоков которых нет id и не задана опция deepLinkKey
+     */
+    Player.unnamedLinks = 0;
+    /**
+     * Плеер, элементы которого сейчас управляются через Media Session API
+     */
+    Player.mediaSessionOwner = null;
+    /**
+     * Действия Media Session API, которые обрабатывает плеер
+     */
+    Player.mediaSessionActions = ['play', 'pause', 'previoustrack', 'nexttrack', 'seekto'];
+    /**
+     * Наибольшая сторона создаваемых превью в пикселях
+     */
+    Player.thumbnailSize = 320;
     QooizPlayer.Player = Player;
+    Player.registerRenderer('video', new VideoRenderer());
+    Player.registerRenderer('image', new ImageRenderer());
+    Player.registerRenderer('book', new BookRenderer());
+    Player.registerRenderer('audio', new AudioRenderer());
 })(QooizPlayer || (QooizPlayer = {}));
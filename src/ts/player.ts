@@ -38,580 +38,6842 @@ export namespace QooizPlayer {
          * Изображения с этим классом не загружаются в плеер
          */
         readonly imageStopClass? : string;
+
+        /**
+         * Переходить ли с последнего элемента на первый и обратно при навигации
+         */
+        readonly loop? : boolean;
+
+        /**
+         * Переключать элементы горизонтальным свайпом по блоку просмотра
+         */
+        readonly swipe? : boolean;
+
+        /**
+         * Смещение указателя в пикселях, после которого начинается перетаскивание ленты превью
+         */
+        readonly dragThreshold? : number;
+
+        /**
+         * Длина свайпа в пикселях, после которой происходит переход к соседнему элементу
+         */
+        readonly swipeThreshold? : number;
+
+        /**
+         * Инерция ленты превью: сколько миллисекунд лента продолжает движение с текущей скоростью после отпускания
+         */
+        readonly dragInertia? : number;
+
+        /**
+         * Разрешить менять порядок элементов перетаскиванием превью и сочетаниями Ctrl + стрелки
+         */
+        readonly reorderable? : boolean;
+
+        /**
+         * Сколько миллисекунд нужно удерживать превью, чтобы начать его перетаскивание
+         */
+        readonly reorderDelay? : number;
+
+        /**
+         * Сервис конвертации документов, которые нельзя показать в браузере (docx, odt, pptx и т.п.):
+         * шаблон ссылки с подстановками {src} и {type} или функция, возвращающая ссылку.
+         * По умолчанию не задан, и такие документы предлагается скачать
+         */
+        readonly documentConverter? : string | ((src : string, type : string) => string | null);
+
+        /**
+         * Панель управления видео: native - встроенная в браузер, custom - собственная панель плеера
+         */
+        readonly videoControls? : 'native' | 'custom';
+
+        /**
+         * Непрерывный режим: по окончании воспроизведения переходить к следующему элементу
+         */
+        readonly continuous? : boolean;
+
+        /**
+         * Сколько секунд показывать обратный отсчет перед переходом к следующему элементу, 0 - переходить сразу
+         */
+        readonly autoplayCountdown? : number;
+
+        /**
+         * Повтор в непрерывном режиме: none - без повтора, all - весь список, one - текущий элемент
+         */
+        readonly repeat? : 'none' | 'all' | 'one';
+
+        /**
+         * Воспроизводить элементы в непрерывном режиме в случайном порядке: каждый элемент по одному разу,
+         * а с повтором всего списка (repeat: all) порядок составляется заново на каждый круг
+         */
+        readonly shuffle? : boolean;
+
+        /**
+         * Продолжать воспроизведение частично просмотренных элементов с места остановки
+         */
+        readonly resume? : boolean;
+
+        /**
+         * Воспроизводить аудио плейлиста без пауз: следующее аудио заранее загружается и запускается точно
+         * к концу текущего, без обратного отсчета и даже при выключенном непрерывном режиме. По умолчанию включено
+         */
+        readonly gapless? : boolean;
+
+        /**
+         * Передавать браузеру через Media Session API название и обложку воспроизводимого элемента
+         * и переключать элементы кнопками экрана блокировки и гарнитуры. По умолчанию включено
+         */
+        readonly mediaSession? : boolean;
+
+        /**
+         * Строить волновую форму аудио без готовой (data-peaks) загрузкой и декодированием файла.
+         * Файл загружается повторно, поэтому декодируются только файлы до AudioRenderer.waveformMaxBytes.
+         * По умолчанию включено
+         */
+        readonly waveform? : boolean;
+
+        /**
+         * Способ просмотра изображений: native - встроенный с масштабированием и лайтбоксом,
+         * materialize - Materialbox библиотеки Materialize, либо имя зарегистрированного способа
+         */
+        readonly imageViewer? : string;
+
+        /**
+         * Загружать превью только при появлении в ленте
+         */
+        readonly lazyThumbnails? : boolean;
+
+        /**
+         * Сколько следующих и предыдущих элементов загружать заранее
+         */
+        readonly preload? : number;
+
+        /**
+         * Сколько элементов блока просмотра хранить, прежде чем удалять давно показанные, 0 - не удалять
+         */
+        readonly cacheSize? : number;
+
+        /**
+         * Через сколько миллисекунд считать незагрузившийся фрейм ошибкой, 0 - не ограничивать
+         */
+        readonly loadTimeout? : number;
+
+        /**
+         * HTML-разметка, отображаемая в пустом плеере. По умолчанию используется изображение разметки
+         * с классом imageStopClass, а если его нет - текстовое сообщение
+         */
+        readonly emptyTemplate? : string;
+
+        /**
+         * Следить за изображениями разметки и добавлять и удалять элементы плеера вслед за ними
+         */
+        readonly observe? : boolean;
+
+        /**
+         * Локализация: локаль, собственные тексты и направление ленты
+         */
+        readonly i18n? : IPlayerI18n;
+
+        /**
+         * Сколько символов названия показывать на превью
+         */
+        readonly titleLength? : number;
+
+        /**
+         * Отражать выбранный элемент, время видео и страницу PDF в адресе: none - не отражать,
+         * hash - в хэше, query - в параметрах запроса
+         */
+        readonly deepLink? : 'none' | 'hash' | 'query';
+
+        /**
+         * Имя параметра адреса; по умолчанию используется атрибут id блока плеера, а без него - player, player2 и т. д.
+         */
+        readonly deepLinkKey? : string;
+
+        /**
+         * Режим редактирования: добавление элементов из файлов кнопкой, перетаскиванием и вставкой
+         */
+        readonly editable? : boolean;
+
+        /**
+         * Допустимые файлы в формате атрибута accept: MIME-типы, маски вида image/* и расширения
+         */
+        readonly accept? : string;
+
+        /**
+         * Загрузчик файлов добавленных элементов
+         */
+        readonly uploader? : IPlayerUploader;
+
+        /**
+         * Имя скрытых полей формы, в которых отражаются ссылки на ресурсы элементов
+         */
+        readonly formField? : string;
+
+        /**
+         * Расположение ленты превью: горизонтальная лента под блоком просмотра, вертикальная колонка сбоку,
+         * сетка из нескольких рядов, точки вместо превью или без ленты
+         */
+        readonly layout? : 'horizontal' | 'vertical' | 'grid' | 'dots' | 'hidden';
+
+        /**
+         * Количество рядов превью в сетке
+         */
+        readonly gridRows? : number;
+
+        /**
+         * Ширина превью (CSS-длина)
+         */
+        readonly thumbnailWidth? : string;
+
+        /**
+         * Высота превью (CSS-длина)
+         */
+        readonly thumbnailHeight? : string;
+    }
+
+    /**
+     * Загрузчик файла: сообщает прогресс (от 0 до 1) и возвращает ссылку на загруженный файл
+     * или поля элемента, заменяющие поля локального элемента
+     */
+    export type IPlayerUploader = (file : File, progress : (fraction : number) => void) => Promise<string | Partial<IPlayerItem>>;
+
+    /**
+     * Тексты интерфейса плеера
+     */
+    export interface IPlayerMessages {
+
+        /**
+         * Текст видео, если браузер не поддерживает видео
+         */
+        readonly videoUnavailable : string;
+
+        /**
+         * Текст аудио, если браузер не поддерживает аудио
+         */
+        readonly audioUnavailable : string;
+
+        /**
+         * Подпись кнопки увеличения изображения или документа
+         */
+        readonly zoomIn : string;
+
+        /**
+         * Подпись кнопки уменьшения изображения или документа
+         */
+        readonly zoomOut : string;
+
+        /**
+         * Подпись кнопки поворота изображения
+         */
+        readonly rotate : string;
+
+        /**
+         * Подпись кнопки сброса масштаба и поворота
+         */
+        readonly resetZoom : string;
+
+        /**
+         * Подпись кнопки открытия изображения во весь экран
+         */
+        readonly openLightbox : string;
+
+        /**
+         * Подпись кнопки перехода к предыдущей странице документа
+         */
+        readonly pdfPrev : string;
+
+        /**
+         * Подпись кнопки перехода к следующей странице документа
+         */
+        readonly pdfNext : string;
+
+        /**
+         * Подпись поля номера страницы документа
+         */
+        readonly pdfPage : string;
+
+        /**
+         * Подсказка в поле поиска по документу
+         */
+        readonly pdfSearch : string;
+
+        /**
+         * Подпись поля поиска по документу
+         */
+        readonly pdfSearchLabel : string;
+
+        /**
+         * Текст ошибки открытия документа
+         */
+        readonly pdfError : string;
+
+        /**
+         * Текст результата поиска по документу без совпадений
+         */
+        readonly pdfNotFound : string;
+
+        /**
+         * Текст документа, если браузер не может его показать
+         */
+        readonly documentUnavailable : string;
+
+        /**
+         * Текст ссылки на скачивание документа
+         */
+        readonly documentDownload : string;
+
+        /**
+         * Подпись индикатора загрузки
+         */
+        readonly loading : string;
+
+        /**
+         * Текст ошибки загрузки элемента
+         */
+        readonly loadError : string;
+
+        /**
+         * Текст кнопки повторной загрузки
+         */
+        readonly retry : string;
+
+        /**
+         * Текст пустого плеера, если не задан параметр empty
+         */
+        readonly empty : string;
+
+        /**
+         * Подпись кнопки воспроизведения
+         */
+        readonly play : string;
+
+        /**
+         * Подпись кнопки паузы
+         */
+        readonly pause : string;
+
+        /**
+         * Подпись ползунка перемотки
+         */
+        readonly seek : string;
+
+        /**
+         * Подпись кнопки выключения звука
+         */
+        readonly mute : string;
+
+        /**
+         * Подпись кнопки включения звука
+         */
+        readonly unmute : string;
+
+        /**
+         * Подпись ползунка громкости
+         */
+        readonly volume : string;
+
+        /**
+         * Подпись списка скорости воспроизведения
+         */
+        readonly playbackRate : string;
+
+        /**
+         * Подпись списка субтитров
+         */
+        readonly captions : string;
+
+        /**
+         * Пункт списка субтитров, отключающий их
+         */
+        readonly captionsOff : string;
+
+        /**
+         * Подпись списка качества потока
+         */
+        readonly quality : string;
+
+        /**
+         * Подпись списка звуковых дорожек
+         */
+        readonly audioTrack : string;
+
+        /**
+         * Обратный отсчет, параметры {seconds} и {title}
+         */
+        readonly autoplayNext : string;
+
+        /**
+         * Текст кнопки немедленного перехода к следующему элементу
+         */
+        readonly playNow : string;
+
+        /**
+         * Текст кнопки отмены обратного отсчета
+         */
+        readonly cancel : string;
+
+        /**
+         * Подпись кнопки перехода к предыдущему элементу
+         */
+        readonly previous : string;
+
+        /**
+         * Подпись кнопки перехода к следующему элементу
+         */
+        readonly next : string;
+
+        /**
+         * Подпись кнопки закрытия полноэкранного просмотра
+         */
+        readonly close : string;
+
+        /**
+         * Подпись кнопки полноэкранного режима
+         */
+        readonly fullscreen : string;
+
+        /**
+         * Подпись списка миниатюр
+         */
+        readonly itemList : string;
+
+        /**
+         * Сообщение о перемещении элемента, параметры {title}, {position} и {total}
+         */
+        readonly itemMoved : string;
+
+        /**
+         * Подсказка значка удаления, параметр {title}
+         */
+        readonly deleteItem : string;
+
+        /**
+         * Подпись кнопки добавления файлов в режиме редактирования
+         */
+        readonly addFiles : string;
+
+        /**
+         * Подпись индикатора загрузки файла, параметр {name}
+         */
+        readonly uploading : string;
+
+        /**
+         * Сообщение об ошибке загрузки файла, параметр {name}
+         */
+        readonly uploadError : string;
     }
 
-    /**
-     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
-     */
-    export class Player implements IPlayerOptions {
+    /**
+     * Локализация плеера
+     */
+    export interface IPlayerI18n {
+
+        /**
+         * Локаль, например ru или en-US; по умолчанию берется из атрибута lang документа
+         */
+        readonly locale? : string;
+
+        /**
+         * Тексты, заменяющие тексты локали
+         */
+        readonly messages? : Partial<IPlayerMessages>;
+
+        /**
+         * Направление ленты превью: ltr, rtl или auto - по направлению текста блока плеера и локали
+         */
+        readonly direction? : 'ltr' | 'rtl' | 'auto';
+    }
+
+    /**
+     * Наблюдатель за размерами элементов (ResizeObserver)
+     */
+    interface IResizeObserver {
+        observe(target : Element) : void;
+        unobserve(target : Element) : void;
+        disconnect() : void;
+    }
+
+    /**
+     * Элемент плеера
+     */
+    export interface IPlayerItem {
+
+        /**
+         * Путь к изображению превью
+         */
+        readonly thumbnail : string;
+
+        /**
+         * Путь к ресурсу, который представляет превью (видео, аудио, картинка или книга)
+         */
+        readonly src? : string;
+
+        /**
+         * Название ресурса
+         */
+        readonly title? : string;
+
+        /**
+         * Тип ресурса: имя рендерера, расширение файла или MIME-тип
+         */
+        readonly type? : string;
+
+        /**
+         * Имя поля, связанного с ресурсом
+         */
+        readonly name? : string;
+
+        /**
+         * Произвольные данные элемента
+         */
+        readonly meta? : {[key : string] : any};
+
+        /**
+         * Субтитры видео
+         */
+        readonly tracks? : IPlayerTrack[];
+
+        /**
+         * Источники видео разного качества; если заданы, src можно не указывать
+         */
+        readonly sources? : IPlayerSource[];
+
+        /**
+         * Исполнитель аудио
+         */
+        readonly artist? : string;
+
+        /**
+         * Альбом аудио
+         */
+        readonly album? : string;
+
+        /**
+         * Готовая волновая форма аудио: пиковые значения столбцов от 0 до 1
+         */
+        readonly peaks? : number[];
+    }
+
+    /**
+     * Субтитры видео
+     */
+    export interface IPlayerTrack {
+
+        /**
+         * Ссылка на файл субтитров в формате WebVTT или SRT
+         */
+        readonly src : string;
+
+        /**
+         * Код языка субтитров
+         */
+        readonly language : string;
+
+        /**
+         * Название субтитров
+         */
+        readonly label? : string;
+
+        /**
+         * Вид дорожки
+         */
+        readonly kind? : 'subtitles' | 'captions';
+
+        /**
+         * Формат файла, если его нельзя определить по расширению
+         */
+        readonly format? : 'vtt' | 'srt';
+    }
+
+    /**
+     * Источник видео
+     */
+    export interface IPlayerSource {
+
+        /**
+         * Ссылка на видео
+         */
+        readonly src : string;
+
+        /**
+         * MIME-тип видео
+         */
+        readonly type? : string;
+
+        /**
+         * Метка качества, например 720p
+         */
+        readonly quality? : string;
+    }
+
+    /**
+     * Событие плеера
+     */
+    export class PlayerEvent {
+
+        /**
+         * Отменено ли действие по умолчанию
+         */
+        protected prevented : boolean = false;
+
+        /**
+         * Конструктор
+         *
+         * @param {string} type - тип события
+         * @param {string} playerId - уникальный идентификатор плеера
+         * @param {HTMLSpanElement | null} item - превью, к которому относится событие
+         * @param {number} index - индекс превью в плеере
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
+         */
+        public constructor(
+            public readonly type : string,
+            public readonly playerId : string,
+            public readonly item : HTMLSpanElement | null,
+            public readonly index : number,
+            public readonly cancelable : boolean = false
+        ) {
+        }
+
+        /**
+         * Отменено ли действие по умолчанию
+         *
+         * @returns {boolean}
+         */
+        get defaultPrevented() : boolean {
+            return this.prevented;
+        }
+
+        /**
+         * Отменить действие по умолчанию
+         */
+        public preventDefault() : void {
+            this.cancelable && (this.prevented = true);
+        }
+    }
+
+    /**
+     * Событие удаления элемента
+     */
+    export interface IPlayerDeleteEvent extends PlayerEvent {
+
+        /**
+         * Ссылка на удаленный ресурс
+         */
+        readonly src : string | undefined;
+
+        /**
+         * Имя поля, связанного с ресурсом
+         */
+        readonly field : string | undefined;
+    }
+
+    /**
+     * Событие прокрутки превью
+     */
+    export interface IPlayerScrollEvent extends PlayerEvent {
+
+        /**
+         * Текущее смещение ленты превью
+         */
+        readonly scroll : number;
+    }
+
+    /**
+     * Событие ошибки загрузки ресурса
+     */
+    export interface IPlayerMediaErrorEvent extends PlayerEvent {
+
+        /**
+         * Элемент блока просмотра, который не удалось загрузить
+         */
+        readonly element : HTMLElement;
+
+        /**
+         * Исходное событие ошибки
+         */
+        readonly error : Event;
+    }
+
+    /**
+     * Событие изменения порядка элементов
+     */
+    export interface IPlayerReorderEvent extends PlayerEvent {
+
+        /**
+         * Прежний индекс перемещенного элемента
+         */
+        readonly from : number;
+
+        /**
+         * Новый порядок элементов: имена полей и ссылки на ресурсы
+         */
+        readonly order : Array<{name : string | undefined, src : string | undefined}>;
+    }
+
+    /**
+     * Событие изменения полноэкранного режима
+     */
+    export interface IPlayerFullscreenEvent extends PlayerEvent {
+
+        /**
+         * Находится ли плеер в полноэкранном режиме
+         */
+        readonly fullscreen : boolean;
+
+        /**
+         * Имитируется ли полноэкранный режим стилями
+         */
+        readonly pseudo : boolean;
+    }
+
+    /**
+     * Действия Media Session API, которые обрабатывает плеер
+     * (объявлены здесь, так как типы Media Session есть не во всех версиях библиотеки DOM)
+     */
+    type MediaSessionAction = 'play' | 'pause' | 'previoustrack' | 'nexttrack' | 'seekto';
+
+    /**
+     * Событие загрузки файла элемента
+     */
+    export interface IPlayerUploadEvent extends PlayerEvent {
+
+        /**
+         * Загружаемый файл
+         */
+        readonly file : File;
+
+        /**
+         * Ссылка на загруженный файл
+         */
+        readonly src? : string;
+
+        /**
+         * Ошибка загрузки
+         */
+        readonly error? : any;
+    }
+
+    /**
+     * Соответствие типов событий плеера и их объектов
+     */
+    export interface IPlayerEventMap {
+        select : PlayerEvent;
+        beforeSelect : PlayerEvent;
+        add : PlayerEvent;
+        delete : IPlayerDeleteEvent;
+        scroll : IPlayerScrollEvent;
+        mediaError : IPlayerMediaErrorEvent;
+        empty : PlayerEvent;
+        load : PlayerEvent;
+        reorder : IPlayerReorderEvent;
+        fullscreenchange : IPlayerFullscreenEvent;
+        upload : IPlayerUploadEvent;
+        uploadError : IPlayerUploadEvent;
+    }
+
+    /**
+     * Интерфейс рендерера контента плеера
+     */
+    export interface IRenderer {
+
+        /**
+         * Типы ресурсов, которые отображает рендерер: расширения файлов и MIME-типы (допускается маска вида video/*)
+         */
+        readonly types? : string[];
+
+        /**
+         * Получить ссылку на ресурс, который отображает превью
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {string}
+         */
+        source(curImage : HTMLSpanElement) : string;
+
+        /**
+         * Создать элемент для отображения ресурса и добавить его в блок просмотра
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement, player : Player) : HTMLElement | null;
+
+        /**
+         * Показать ранее созданный элемент
+         *
+         * @param {HTMLElement} element
+         */
+        show(element : HTMLElement) : void;
+
+        /**
+         * Скрыть элемент
+         *
+         * @param {HTMLElement} element
+         */
+        hide(element : HTMLElement) : void;
+
+        /**
+         * Удалить элемент
+         *
+         * @param {HTMLElement} element
+         */
+        destroy(element : HTMLElement) : void;
+
+        /**
+         * Отображает ли элемент ресурс с заданной ссылкой
+         *
+         * @param {HTMLElement} element
+         * @param {string} src - ссылка на ресурс
+         *
+         * @returns {boolean}
+         */
+        match(element : HTMLElement, src : string) : boolean;
+
+        /**
+         * Заранее загрузить ресурс соседнего элемента. Если создан элемент блока просмотра,
+         * он возвращается и остается скрытым до выбора превью
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        preload?(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement, player : Player) : HTMLElement | null;
+    }
+
+    /**
+     * Базовый рендерер: элементы показываются и скрываются через display и сопоставляются по атрибуту src
+     */
+    export abstract class Renderer implements IRenderer {
+
+        public readonly types : string[] = [];
+
+        public abstract create(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            player : Player
+        ) : HTMLElement | null;
+
+        public source(curImage : HTMLSpanElement) : string {
+            return curImage.dataset.objectSrc || '';
+        }
+
+        public show(element : HTMLElement) : void {
+            element.style.display = 'block';
+        }
+
+        public hide(element : HTMLElement) : void {
+            element.style.display = 'none';
+        }
+
+        public destroy(element : HTMLElement) : void {
+            element.remove();
+        }
+
+        public match(element : HTMLElement, src : string) : boolean {
+            return element.getAttribute('src') === src;
+        }
+    }
+
+    /**
+     * Адаптер потокового видео (HLS, DASH), например на основе Media Source Extensions
+     */
+    export interface IMediaSourceAdapter {
+
+        /**
+         * Подключить поток к видео
+         *
+         * @param {HTMLVideoElement} video
+         * @param {string} src - ссылка на манифест
+         */
+        attach(video : HTMLVideoElement, src : string) : void;
+
+        /**
+         * Отключить поток от видео и освободить ресурсы
+         *
+         * @param {HTMLVideoElement} video
+         */
+        detach(video : HTMLVideoElement) : void;
+
+        /**
+         * Поддерживается ли адаптер браузером; если нет, используется встроенное воспроизведение
+         *
+         * @returns {boolean}
+         */
+        isSupported?() : boolean;
+    }
+
+    /**
+     * Рендеринг видео в плеере
+     */
+    export class VideoRenderer extends Renderer {
+
+        public readonly types : string[] = [
+            'mp4',
+            'webm',
+            'ogv',
+            'mov',
+            'm4v',
+            'm3u8',
+            'mpd',
+            'application/vnd.apple.mpegurl',
+            'application/x-mpegurl',
+            'application/dash+xml',
+            'video/*'
+        ];
+
+        /**
+         * MIME-типы манифестов потокового видео по форматам
+         */
+        public static readonly manifestTypes : {[format : string] : string} = {
+            m3u8: 'application/vnd.apple.mpegurl',
+            mpd: 'application/dash+xml'
+        };
+
+        /**
+         * Адаптеры потокового видео по форматам манифестов
+         */
+        protected adapters : {[format : string] : IMediaSourceAdapter} = {};
+
+        /**
+         * Адаптеры, подключенные к видео
+         */
+        protected attached : WeakMap<HTMLVideoElement, IMediaSourceAdapter> = new WeakMap();
+
+        /**
+         * Зарегистрировать адаптер потокового видео
+         *
+         * @param {string} format - формат манифеста: m3u8 или mpd
+         * @param {IMediaSourceAdapter} adapter - адаптер
+         */
+        public registerAdapter(format : string, adapter : IMediaSourceAdapter) : void {
+            this.adapters[format] = adapter;
+        }
+
+        /**
+         * Формат манифеста потокового видео по типу или расширению ссылки
+         *
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         *
+         * @returns {string} - m3u8, mpd или пустая строка, если это не манифест
+         */
+        public static manifestFormat(src : string, type? : string) : string {
+            const srcMatches : RegExpMatchArray | null = src.split(/[?#]/)[0].match(/\.([^./]+)$/),
+                lowerType : string = (type || '').toLowerCase();
+
+            for (let format in VideoRenderer.manifestTypes) {
+                if (
+                    lowerType === format
+                    || lowerType === VideoRenderer.manifestTypes[format]
+                    || (format === 'm3u8' && lowerType === 'application/x-mpegurl')
+                    || (srcMatches && srcMatches[1].toLowerCase() === format)
+                ) {
+                    return format;
+                }
+            }
+
+            return '';
+        }
+
+        /**
+         * Назначить видео ссылку: манифесты передаются зарегистрированному адаптеру,
+         * без адаптера или при его неподдержке браузером видео воспроизводится встроенными средствами
+         *
+         * @param {HTMLVideoElement} video
+         * @param {string} src - ссылка на видео
+         * @param {string} type - тип элемента
+         */
+        public attach(video : HTMLVideoElement, src : string, type? : string) : void {
+            this.detach(video);
+
+            const adapter : IMediaSourceAdapter | undefined = this.adapters[VideoRenderer.manifestFormat(src, type)];
+            if (adapter && (!adapter.isSupported || adapter.isSupported())) {
+                adapter.attach(video, src);
+                this.attached.set(video, adapter);
+                return;
+            }
+
+            video.src = src;
+        }
+
+        /**
+         * Отключить от видео адаптер потокового видео
+         *
+         * @param {HTMLVideoElement} video
+         */
+        public detach(video : HTMLVideoElement) : void {
+            const adapter : IMediaSourceAdapter | undefined = this.attached.get(video);
+            if (adapter) {
+                adapter.detach(video);
+                this.attached.delete(video);
+            }
+        }
+
+        /**
+         * Создать видео
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        public create(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            player : Player
+        ) : HTMLVideoElement | null {
+
+            let videoSrc : string = this.source(curImage),
+                imageSrc = curImage.dataset.src;
+
+            if (!videoSrc) {
+                return null;
+            }
+
+            const item : IPlayerItem | null = player.getItem(curImage),
+                sources : IPlayerSource[] = item && item.sources ? item.sources : [];
+
+            let video : HTMLVideoElement = Utils.GoodFuncs.createElementWithAttrs(
+                'video',
+                {
+                    poster: imageSrc,
+                    preload: 'metadata',
+                    controlsList: 'nodownload',
+                    text: player.t('videoUnavailable')
+                }
+            ) as HTMLVideoElement;
+
+            video.controls = player.videoControls === 'native';
+            video.dataset.src = videoSrc;
+
+            if (sources.length) {
+                VideoRenderer.setSources(video, sources, player.quality);
+            } else {
+                this.attach(video, videoSrc, curImage.dataset.type);
+            }
+
+            (item && item.tracks || []).forEach(function (track : IPlayerTrack) {
+                VideoRenderer.addTrack(video, track);
+            });
+
+            mainWrapper.insertAdjacentElement(
+                'beforeend',
+                video
+            );
+
+            return video;
+        }
+
+        /**
+         * Добавить видео источники, поставив первым источник выбранного качества
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerSource[]} sources - источники
+         * @param {string} quality - выбранное качество
+         */
+        public static setSources(video : HTMLVideoElement, sources : IPlayerSource[], quality : string) : void {
+            video.querySelectorAll('source').forEach(function (source : HTMLSourceElement) {
+                source.remove();
+            });
+
+            sources.slice().sort(function (a : IPlayerSource, b : IPlayerSource) {
+                return Number(b.quality === quality) - Number(a.quality === quality);
+            }).forEach(function (source : IPlayerSource) {
+                const element = document.createElement('source');
+                element.src = source.src;
+                source.type && (element.type = source.type);
+                source.quality && (element.dataset.quality = source.quality);
+                video.appendChild(element);
+            });
+        }
+
+        /**
+         * Качество источника, который воспроизводит видео
+         *
+         * @param {HTMLVideoElement} video
+         *
+         * @returns {string}
+         */
+        public static getQuality(video : HTMLVideoElement) : string {
+            const sources : HTMLSourceElement[] = Array.from(video.querySelectorAll('source')),
+                source : HTMLSourceElement | undefined = sources.find(source => source.src === video.currentSrc) || sources[0];
+
+            return source && source.dataset.quality || '';
+        }
+
+        /**
+         * Добавить субтитры; субтитры в формате SRT конвертируются в WebVTT
+         *
+         * @param {HTMLVideoElement} video
+         * @param {IPlayerTrack} track - субтитры
+         */
+        public static addTrack(video : HTMLVideoElement, track : IPlayerTrack) : void {
+            const element = document.createElement('track'),
+                isSrt : boolean = track.format ? track.format === 'srt' : /\.srt$/i.test(track.src.split(/[?#]/)[0]);
+
+            element.kind = track.kind || 'subtitles';
+            element.srclang = track.language;
+            element.label = track.label || track.language;
+            video.appendChild(element);
+
+            if (!isSrt) {
+                element.src = track.src;
+                return;
+            }
+
+            fetch(track.src).then(function (response : Response) {
+                if (!response.ok) {
+                    throw new Error(response.statusText);
+                }
+
+                return response.text();
+            }).then(function (srt : string) {
+                element.src = URL.createObjectURL(new Blob([VideoRenderer.srtToVtt(srt)], {type: 'text/vtt'}));
+            }).catch(function () {
+                // недоступные субтитры не предлагаются для выбора
+                element.remove();
+            });
+        }
+
+        /**
+         * Конвертировать субтитры из SRT в WebVTT
+         *
+         * @param {string} srt - субтитры в формате SRT
+         *
+         * @returns {string}
+         */
+        public static srtToVtt(srt : string) : string {
+            return 'WEBVTT\n\n' + srt
+                .replace(/^\uFEFF/, '')
+                .replace(/\r\n?/g, '\n')
+                .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+        }
+
+        /**
+         * Видео сопоставляется по исходной ссылке, так как источники могут задаваться элементами source
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        public match(element : HTMLElement, src : string) : boolean {
+            return element.dataset.src === src;
+        }
+
+        /**
+         * Скрытое видео ставится на паузу
+         *
+         * @param {HTMLElement} element
+         */
+        public hide(element : HTMLElement) : void {
+            (element as HTMLVideoElement).pause();
+            super.hide(element);
+        }
+
+        /**
+         * Для соседнего видео заранее создается элемент, который загружает только метаданные (preload=metadata)
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLVideoElement | null}
+         */
+        public preload(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement, player : Player) : HTMLVideoElement | null {
+            return this.create(mainWrapper, curImage, player);
+        }
+
+        /**
+         * При удалении видео отключается адаптер потокового видео и освобождаются сконвертированные субтитры
+         *
+         * @param {HTMLElement} element
+         */
+        public destroy(element : HTMLElement) : void {
+            this.detach(element as HTMLVideoElement);
+            element.querySelectorAll('track').forEach(function (track : HTMLTrackElement) {
+                track.src.indexOf('blob:') === 0 && URL.revokeObjectURL(track.src);
+            });
+            super.destroy(element);
+        }
+    }
+
+    /**
+     * Масштабирование, перемещение и поворот изображения
+     */
+    export class ImageZoom {
+
+        /**
+         * Максимальный масштаб
+         */
+        public static maxScale : number = 8;
+
+        /**
+         * Шаг масштабирования кнопками и колесом мыши
+         */
+        public static scaleStep : number = 1.25;
+
+        /**
+         * Экземпляры по изображениям
+         */
+        protected static instances : WeakMap<HTMLImageElement, ImageZoom> = new WeakMap();
+
+        public scale : number = 1;
+
+        public x : number = 0;
+
+        public y : number = 0;
+
+        public rotation : number = 0;
+
+        /**
+         * Перемещалось ли изображение с момента последнего нажатия
+         */
+        public moved : boolean = false;
+
+        /**
+         * Нажатые указатели
+         */
+        protected pointers : Map<number, {x : number, y : number}> = new Map();
+
+        /**
+         * Время последнего касания для определения двойного касания
+         */
+        protected lastTap : number = 0;
+
+        /**
+         * Экземпляр, управляющий изображением
+         *
+         * @param {HTMLImageElement} image
+         *
+         * @returns {ImageZoom | undefined}
+         */
+        public static get(image : HTMLImageElement) : ImageZoom | undefined {
+            return ImageZoom.instances.get(image);
+        }
+
+        /**
+         * @param {HTMLImageElement} image - изображение
+         */
+        public constructor(public readonly image : HTMLImageElement) {
+            const self = this;
+
+            ImageZoom.instances.set(image, this);
+            image.classList.add('zoomable');
+            image.draggable = false;
+
+            image.addEventListener('wheel', function (e : WheelEvent) {
+                e.preventDefault();
+                self.zoom(self.scale * (e.deltaY < 0 ? ImageZoom.scaleStep : 1 / ImageZoom.scaleStep), e.clientX, e.clientY);
+            });
+
+            image.addEventListener('dblclick', function () {
+                self.reset();
+            });
+
+            image.addEventListener('pointerdown', function (e : PointerEvent) {
+                if (!self.pointers.size) {
+                    self.moved = false;
+                }
+
+                self.pointers.set(e.pointerId, {x: e.clientX, y: e.clientY});
+                if (self.scale > 1 || self.pointers.size > 1) {
+                    e.stopPropagation();
+                    image.setPointerCapture(e.pointerId);
+                }
+            });
+
+            image.addEventListener('pointermove', function (e : PointerEvent) {
+                const last = self.pointers.get(e.pointerId);
+                if (!last) {
+                    return;
+                }
+
+                if (self.pointers.size > 1) {
+                    const other = Array.from(self.pointers.entries()).find(entry => entry[0] !== e.pointerId);
+                    if (other) {
+                        const before : number = Math.hypot(last.x - other[1].x, last.y - other[1].y),
+                            after : number = Math.hypot(e.clientX - other[1].x, e.clientY - other[1].y);
+
+                        before && self.zoom(
+                            self.scale * after / before,
+                            (e.clientX + other[1].x) / 2,
+                            (e.clientY + other[1].y) / 2
+                        );
+                    }
+                    self.moved = true;
+                } else if (self.scale > 1) {
+                    self.x += e.clientX - last.x;
+                    self.y += e.clientY - last.y;
+                    self.moved = true;
+                    self.apply();
+                }
+
+                self.pointers.set(e.pointerId, {x: e.clientX, y: e.clientY});
+            });
+
+            const release = function (e : PointerEvent) {
+                if (!self.pointers.delete(e.pointerId)) {
+                    return;
+                }
+
+                if (self.moved || self.scale > 1) {
+                    e.stopPropagation();
+                }
+
+                if (e.type === 'pointerup' && e.pointerType !== 'mouse' && !self.moved) {
+                    const now : number = Date.now();
+                    now - self.lastTap < 300 && self.reset();
+                    self.lastTap = now;
+                }
+            };
+
+            image.addEventListener('pointerup', release);
+            image.addEventListener('pointercancel', release);
+        }
+
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб
+         * @param {number} clientX - горизонтальная координата точки, остающейся на месте
+         * @param {number} clientY - вертикальная координата точки, остающейся на месте
+         */
+        public zoom(scale : number, clientX? : number, clientY? : number) : void {
+            scale = Math.min(Math.max(scale, 1), ImageZoom.maxScale);
+
+            if (scale === 1) {
+                this.x = this.y = 0;
+            } else if (clientX !== undefined && clientY !== undefined) {
+                const rect : ClientRect = this.image.getBoundingClientRect(),
+                    dx : number = clientX - (rect.left + rect.width / 2 - this.x),
+                    dy : number = clientY - (rect.top + rect.height / 2 - this.y);
+
+                this.x = dx - (dx - this.x) * scale / this.scale;
+                this.y = dy - (dy - this.y) * scale / this.scale;
+            }
+
+            this.scale = scale;
+            this.apply();
+        }
+
+        /**
+         * Повернуть изображение
+         *
+         * @param {number} angle - угол в градусах
+         */
+        public rotate(angle : number = 90) : void {
+            this.rotation = (this.rotation + angle) % 360;
+            this.apply();
+        }
+
+        /**
+         * Вернуть исходные масштаб, положение и поворот
+         */
+        public reset() : void {
+            this.scale = 1;
+            this.x = this.y = this.rotation = 0;
+            this.apply();
+        }
+
+        /**
+         * Применить преобразования к изображению
+         */
+        protected apply() : void {
+            this.image.style.transform = `translate(${this.x}px, ${this.y}px) scale(${this.scale}) rotate(${this.rotation}deg)`;
+            this.image.classList.toggle('zoomed', this.scale > 1);
+        }
+    }
+
+    /**
+     * Способ просмотра изображений
+     */
+    export interface IImageViewer {
+
+        /**
+         * Создать элемент просмотра изображения
+         *
+         * @param {string} src - ссылка на изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        create(src : string, player : Player) : HTMLElement;
+    }
+
+    /**
+     * Встроенный просмотр изображений с масштабированием, перемещением, поворотом и открытием в лайтбоксе
+     */
+    export class NativeImageViewer implements IImageViewer {
+
+        public create(src : string, player : Player) : HTMLElement {
+            const viewer : HTMLDivElement = document.createElement('div'),
+                image : HTMLImageElement = Utils.GoodFuncs.createElementWithAttrs(
+                    'img',
+                    {
+                        class: 'responsive-img',
+                        src: src
+                    }) as HTMLImageElement,
+                zoom : ImageZoom = new ImageZoom(image);
+
+            viewer.classList.add('image-viewer');
+            viewer.appendChild(image);
+            viewer.insertAdjacentHTML('beforeend', `
+                <div class="image-toolbar">
+                    <button type="button" class="zoom-out material-icons" aria-label="${player.t('zoomOut')}">zoom_out</button>
+                    <button type="button" class="zoom-in material-icons" aria-label="${player.t('zoomIn')}">zoom_in</button>
+                    <button type="button" class="rotate material-icons" aria-label="${player.t('rotate')}">rotate_right</button>
+                    <button type="button" class="reset material-icons" aria-label="${player.t('resetZoom')}">crop_free</button>
+                    <button type="button" class="lightbox-toggle material-icons" aria-label="${player.t('openLightbox')}">fullscreen</button>
+                </div>
+            `);
+
+            (viewer.querySelector('.zoom-out') as HTMLButtonElement).addEventListener('click', function () {
+                zoom.zoom(zoom.scale / ImageZoom.scaleStep);
+            });
+
+            (viewer.querySelector('.zoom-in') as HTMLButtonElement).addEventListener('click', function () {
+                zoom.zoom(zoom.scale * ImageZoom.scaleStep);
+            });
+
+            (viewer.querySelector('.rotate') as HTMLButtonElement).addEventListener('click', function () {
+                zoom.rotate();
+            });
+
+            (viewer.querySelector('.reset') as HTMLButtonElement).addEventListener('click', function () {
+                zoom.reset();
+            });
+
+            (viewer.querySelector('.lightbox-toggle') as HTMLButtonElement).addEventListener('click', function () {
+                player.lightboxOpen ? player.closeLightbox() : player.openLightbox();
+            });
+
+            image.addEventListener('click', function () {
+                zoom.moved || zoom.scale > 1 || player.lightboxOpen || player.openLightbox();
+            });
+
+            return viewer;
+        }
+    }
+
+    /**
+     * Просмотр изображений средствами Materialize (Materialbox)
+     */
+    export class MaterializeImageViewer implements IImageViewer {
+
+        public create(src : string) : HTMLElement {
+            let image = Utils.GoodFuncs.createElementWithAttrs(
+                'img',
+                {
+                    class: 'materialboxed responsive-img',
+                    src: src
+                }) as HTMLImageElement;
+
+            if (window['M'] !== undefined) {
+                M.Materialbox.init(image);
+            }
+
+            return image;
+        }
+    }
+
+    /**
+     * Рендеринг изображений в плеере
+     */
+    export class ImageRenderer extends Renderer {
+
+        public readonly types : string[] = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'image/*'];
+
+        /**
+         * Полноразмерное изображение (data-object-src), если его нет - само превью
+         *
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {string}
+         */
+        public source(curImage : HTMLSpanElement) : string {
+            return curImage.dataset.objectSrc || curImage.dataset.src || '';
+        }
+
+        /**
+         * Способы просмотра изображений по именам
+         */
+        protected viewers : {[name : string] : IImageViewer} = {
+            native: new NativeImageViewer(),
+            materialize: new MaterializeImageViewer()
+        };
+
+        /**
+         * Зарегистрировать способ просмотра изображений
+         *
+         * @param {string} name - имя, указываемое в опции imageViewer плеера
+         * @param {IImageViewer} viewer - способ просмотра
+         */
+        public registerViewer(name : string, viewer : IImageViewer) : void {
+            this.viewers[name] = viewer;
+        }
+
+        /**
+         * Создать изображение
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        public create(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement, player : Player) : HTMLElement | null {
+
+            const src : string = this.source(curImage);
+            if (!src) {
+                return null;
+            }
+
+            const image : HTMLElement = (this.viewers[player.imageViewer] || this.viewers.native).create(src, player);
+            image.dataset.src = src;
+
+            mainWrapper.insertAdjacentElement(
+                'beforeend',
+                image
+            );
+
+            return image;
+        }
+
+        /**
+         * Изображение сопоставляется по исходной ссылке, так как просмотр может оборачивать его в блок
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        public match(element : HTMLElement, src : string) : boolean {
+            return element.dataset.src === src;
+        }
+
+        /**
+         * Соседнее изображение загружается и декодируется заранее без создания элемента блока просмотра
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         *
+         * @returns {null}
+         */
+        public preload(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement) : null {
+            const src : string = this.source(curImage);
+            if (src) {
+                const image = new Image();
+                image.src = src;
+                image.decode && image.decode().catch(function () {});
+            }
+
+            return null;
+        }
+
+        /**
+         * При скрытии изображения сбрасывается его масштаб
+         *
+         * @param {HTMLElement} element
+         */
+        public hide(element : HTMLElement) : void {
+            const image : HTMLImageElement | null = element instanceof HTMLImageElement ? element : element.querySelector('img'),
+                zoom : ImageZoom | undefined = image ? ImageZoom.get(image) : undefined;
+
+            zoom && zoom.reset();
+            super.hide(element);
+        }
+    }
+
+    /**
+     * Просмотрщик документов определенного формата
+     */
+    export interface IDocumentViewer {
+
+        /**
+         * Создать элемент просмотра документа
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        create(src : string, type : string, player : Player) : HTMLElement | null;
+    }
+
+    /**
+     * Просмотр PDF-документа на canvas с навигацией по страницам, масштабированием и поиском.
+     * Использует библиотеку PDF.js (window.pdfjsLib). О загрузке документа блок сообщает событиями load и error
+     */
+    export class PdfDocument {
+
+        /**
+         * Документы, привязанные к своим элементам
+         */
+        protected static instances : WeakMap<HTMLElement, PdfDocument> = new WeakMap();
+
+        /**
+         * Получить документ по его элементу
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {PdfDocument | null}
+         */
+        public static get(element : HTMLElement) : PdfDocument | null {
+            return PdfDocument.instances.get(element) || null;
+        }
+
+        /**
+         * Шаг изменения масштаба
+         */
+        public zoomStep : number = 0.25;
+
+        /**
+         * Блок просмотра документа
+         */
+        public readonly element : HTMLDivElement;
+
+        protected canvas : HTMLCanvasElement;
+
+        protected pageInput : HTMLInputElement;
+
+        protected pagesLabel : HTMLSpanElement;
+
+        protected zoomLabel : HTMLSpanElement;
+
+        protected status : HTMLSpanElement;
+
+        /**
+         * Загруженный документ PDF.js
+         */
+        protected document : any = null;
+
+        /**
+         * Текущая задача отрисовки страницы PDF.js
+         */
+        protected renderTask : any = null;
+
+        /**
+         * Текст страниц для поиска
+         */
+        protected texts : {[page : number] : Promise<string>} = {};
+
+        protected currentPage : number = 1;
+
+        protected scale : number = 1;
+
+        /**
+         * Конструктор
+         *
+         * @param {string} src - ссылка на документ
+         * @param pdfjs - библиотека PDF.js
+         * @param {IPlayerMessages} messages - тексты интерфейса
+         */
+        public constructor(
+            public readonly src : string,
+            pdfjs : any,
+            protected readonly messages : IPlayerMessages = Player.messages.ru
+        ) {
+            const self = this;
+
+            this.element = document.createElement('div');
+            this.element.classList.add('pdf-viewer');
+            this.element.insertAdjacentHTML('beforeend', `
+                <div class="pdf-toolbar">
+                    <button type="button" class="pdf-prev" aria-label="${messages.pdfPrev}">&lsaquo;</button>
+                    <input type="number" class="pdf-page" min="1" value="1" aria-label="${messages.pdfPage}">
+                    <span class="pdf-pages"></span>
+                    <button type="button" class="pdf-next" aria-label="${messages.pdfNext}">&rsaquo;</button>
+                    <button type="button" class="pdf-zoom-out" aria-label="${messages.zoomOut}">&minus;</button>
+                    <span class="pdf-zoom"></span>
+                    <button type="button" class="pdf-zoom-in" aria-label="${messages.zoomIn}">+</button>
+                    <input type="search" class="pdf-search" placeholder="${messages.pdfSearch}" aria-label="${messages.pdfSearchLabel}">
+                    <span class="pdf-status" role="status"></span>
+                </div>
+                <div class="pdf-canvas"><canvas></canvas></div>
+            `);
+
+            this.canvas = this.element.querySelector('canvas') as HTMLCanvasElement;
+            this.pageInput = this.element.querySelector('.pdf-page') as HTMLInputElement;
+            this.pagesLabel = this.element.querySelector('.pdf-pages') as HTMLSpanElement;
+            this.zoomLabel = this.element.querySelector('.pdf-zoom') as HTMLSpanElement;
+            this.status = this.element.querySelector('.pdf-status') as HTMLSpanElement;
+
+            (this.element.querySelector('.pdf-prev') as HTMLButtonElement).addEventListener('click', function () {
+                self.goTo(self.currentPage - 1);
+            });
+
+            (this.element.querySelector('.pdf-next') as HTMLButtonElement).addEventListener('click', function () {
+                self.goTo(self.currentPage + 1);
+            });
+
+            (this.element.querySelector('.pdf-zoom-out') as HTMLButtonElement).addEventListener('click', function () {
+                self.zoom(self.scale - self.zoomStep);
+            });
+
+            (this.element.querySelector('.pdf-zoom-in') as HTMLButtonElement).addEventListener('click', function () {
+                self.zoom(self.scale + self.zoomStep);
+            });
+
+            this.pageInput.addEventListener('change', function () {
+                self.goTo(parseInt(this.value, 10) || 1);
+            });
+
+            (this.element.querySelector('.pdf-search') as HTMLInputElement).addEventListener('keydown', function (e : KeyboardEvent) {
+                if (e.key === 'Enter') {
+                    e.preventDefault();
+                    self.search(this.value);
+                }
+            });
+
+            PdfDocument.instances.set(this.element, this);
+
+            const task = pdfjs.getDocument(src);
+            (task.promise || task).then(function (pdf : any) {
+                self.document = pdf;
+                self.pageInput.max = pdf.numPages.toString();
+                self.pagesLabel.textContent = `/ ${pdf.numPages}`;
+                self.render();
+                self.element.dispatchEvent(new Event('load'));
+            }, function () {
+                self.status.textContent = self.messages.pdfError;
+                self.element.dispatchEvent(new Event('error'));
+            });
+        }
+
+        /**
+         * Текущая страница
+         *
+         * @returns {number}
+         */
+        get page() : number {
+            return this.currentPage;
+        }
+
+        /**
+         * Количество страниц документа, 0 - пока документ не загружен
+         *
+         * @returns {number}
+         */
+        get pages() : number {
+            return this.document ? this.document.numPages : 0;
+        }
+
+        /**
+         * Перейти к странице
+         *
+         * @param {number} page - номер страницы
+         */
+        public goTo(page : number) : void {
+            page = Math.max(1, this.pages ? Math.min(page, this.pages) : page);
+            if (page === this.currentPage && this.renderTask) {
+                return;
+            }
+
+            this.currentPage = page;
+            this.render();
+            this.element.dispatchEvent(new CustomEvent('pdfpagechange', {detail: {page: page}, bubbles: true}));
+        }
+
+        /**
+         * Изменить масштаб
+         *
+         * @param {number} scale - масштаб, 1 - исходный размер
+         */
+        public zoom(scale : number) : void {
+            this.scale = Math.max(this.zoomStep, Math.min(scale, 5));
+            this.render();
+        }
+
+        /**
+         * Найти текст в документе начиная со следующей страницы и перейти к найденной странице
+         *
+         * @param {string} text - искомый текст
+         *
+         * @returns {Promise<number>} - номер найденной страницы или 0
+         */
+        public search(text : string) : Promise<number> {
+            const self = this,
+                needle : string = text.trim().toLowerCase(),
+                pages : number = this.pages;
+
+            if (!needle || !pages) {
+                return Promise.resolve(0);
+            }
+
+            const find = function (step : number) : Promise<number> {
+                if (step > pages) {
+                    self.status.textContent = self.messages.pdfNotFound;
+                    return Promise.resolve(0);
+                }
+
+                const page : number = (self.currentPage + step - 1) % pages + 1;
+
+                return self.getText(page).then(function (pageText : string) {
+                    if (pageText.toLowerCase().indexOf(needle) === -1) {
+                        return find(step + 1);
+                    }
+
+                    self.status.textContent = '';
+                    self.goTo(page);
+
+                    return page;
+                }, function () {
+                    // текст страницы не загрузился, поиск продолжается со следующей
+                    return find(step + 1);
+                });
+            };
+
+            return find(1);
+        }
+
+        /**
+         * Получить текст страницы
+         *
+         * @param {number} page - номер страницы
+         *
+         * @returns {Promise<string>}
+         */
+        protected getText(page : number) : Promise<string> {
+            const self = this;
+
+            if (!this.texts[page]) {
+                this.texts[page] = this.document.getPage(page).then(function (pdfPage : any) {
+                    return pdfPage.getTextContent();
+                }).then(function (content : any) {
+                    return content.items.map(function (item : any) {
+                        return item.str;
+                    }).join(' ');
+                }).catch(function (error : any) {
+                    delete self.texts[page];
+                    throw error;
+                });
+            }
+
+            return this.texts[page];
+        }
+
+        /**
+         * Отрисовать текущую страницу
+         */
+        protected render() : void {
+            const self = this;
+
+            this.pageInput.value = this.currentPage.toString();
+            this.zoomLabel.textContent = `${Math.round(this.scale * 100)}%`;
+
+            if (!this.document) {
+                return;
+            }
+
+            this.renderTask && this.renderTask.cancel();
+            this.renderTask = null;
+
+            const failed = function (task : any) {
+                if (self.renderTask !== task) {
+                    return;
+                }
+
+                self.renderTask = null;
+                self.status.textContent = self.messages.pdfError;
+            };
+
+            this.document.getPage(this.currentPage).then(function (page : any) {
+                const ratio : number = window.devicePixelRatio || 1,
+                    viewport = page.getViewport({scale: self.scale * ratio}),
+                    context = self.canvas.getContext('2d');
+
+                self.canvas.width = viewport.width;
+                self.canvas.height = viewport.height;
+                self.canvas.style.width = `${viewport.width / ratio}px`;
+                self.canvas.style.height = `${viewport.height / ratio}px`;
+
+                const task = page.render({canvasContext: context, viewport: viewport});
+                self.renderTask = task;
+                self.status.textContent === self.messages.pdfError && (self.status.textContent = '');
+                (task.promise || task).then(null, function (error : any) {
+                    // отмена отрисовки переходом на другую страницу ошибкой не считается
+                    error && error.name === 'RenderingCancelledException' || failed(task);
+                });
+            }, function () {
+                failed(null);
+            });
+        }
+    }
+
+    /**
+     * Просмотр PDF: на canvas, если подключен PDF.js, иначе встроенным просмотрщиком браузера
+     */
+    export class PdfViewer implements IDocumentViewer {
+
+        /**
+         * Создать элемент просмотра PDF
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        public create(src : string, type : string, player : Player) : HTMLElement {
+            if (window['pdfjsLib'] !== undefined) {
+                return new PdfDocument(src, window['pdfjsLib'], player.messages).element;
+            }
+
+            const book = document.createElement('iframe');
+            book.setAttribute('src', src);
+            book.allowFullscreen = true;
+
+            return book;
+        }
+    }
+
+    /**
+     * Просмотр документов через собственный сервис конвертации (см. опцию плеера documentConverter).
+     * Если сервис не настроен, вместо документа показывается ссылка на его скачивание
+     */
+    export class ConverterViewer implements IDocumentViewer {
+
+        /**
+         * Создать элемент просмотра документа
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement}
+         */
+        public create(src : string, type : string, player : Player) : HTMLElement {
+            const url : string | null = player.getDocumentUrl(src, type);
+            if (url) {
+                const book = document.createElement('iframe');
+                book.setAttribute('src', url);
+                book.allowFullscreen = true;
+
+                return book;
+            }
+
+            const unavailable = document.createElement('div'),
+                message = document.createElement('p'),
+                link = document.createElement('a');
+
+            unavailable.classList.add('document-unavailable');
+            message.textContent = player.t('documentUnavailable');
+            link.href = src;
+            link.download = '';
+            link.textContent = player.t('documentDownload');
+            unavailable.append(message, link);
+
+            return unavailable;
+        }
+    }
+
+    /**
+     * Рендеринг книг в плеере
+     */
+    export class BookRenderer extends Renderer {
+
+        public readonly types : string[] = [
+            'pdf',
+            'doc',
+            'docx',
+            'odt',
+            'rtf',
+            'txt',
+            'ppt',
+            'pptx',
+            'odp',
+            'xls',
+            'xlsx',
+            'ods',
+            'application/pdf',
+            'application/msword',
+            'application/vnd.*',
+            'text/*'
+        ];
+
+        /**
+         * Просмотрщики документов по форматам
+         */
+        protected viewers : {[type : string] : IDocumentViewer} = {
+            pdf: new PdfViewer()
+        };
+
+        /**
+         * Просмотрщик для форматов без собственного просмотрщика
+         */
+        protected defaultViewer : IDocumentViewer = new ConverterViewer();
+
+        /**
+         * Зарегистрировать просмотрщик формата документов
+         *
+         * @param {string} type - формат документа (расширение файла)
+         * @param {IDocumentViewer} viewer - просмотрщик
+         */
+        public registerViewer(type : string, viewer : IDocumentViewer) : void {
+            this.viewers[type] = viewer;
+        }
+
+        /**
+         * Элемент сопоставляется по исходной ссылке на документ, а не по адресу просмотрщика
+         *
+         * @param {HTMLElement} element
+         * @param {string} src - ссылка на документ
+         *
+         * @returns {boolean}
+         */
+        public match(element : HTMLElement, src : string) : boolean {
+            return element.dataset.src === src;
+        }
+
+        /**
+         * Создать блок просмотра книги
+         *
+         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
+         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLElement | null}
+         */
+        public create(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            player : Player
+        ) : HTMLElement | null {
+
+            let bookSrc : string = this.source(curImage),
+                bookSrcMatches : RegExpMatchArray | null = bookSrc.split(/[?#]/)[0].match(/.+?\.([^./]+)$/),
+                bookType : string = (curImage.dataset.type || '').toLowerCase();
+
+            if (bookType === 'application/pdf') {
+                bookType = 'pdf';
+            } else if (!bookType || bookType === 'book' || bookType.indexOf('/') !== -1) {
+                bookType = bookSrcMatches ? bookSrcMatches[1].toLowerCase() : '';
+            }
+
+            if (!bookSrc || !bookType) {
+                return null;
+            }
+
+            const book : HTMLElement | null = (this.viewers[bookType] || this.defaultViewer).create(bookSrc, bookType, player);
+            if (!book) {
+                return null;
+            }
+
+            book.dataset.src = bookSrc;
+
+            mainWrapper.insertAdjacentElement(
+                'beforeend',
+                book
+            );
+
+            return book;
+        }
+    }
+
+    /**
+     * Рендеринг аудио в плеере: обложка из превью, волновая форма и аудиоэлемент
+     */
+    export class AudioRenderer extends Renderer {
+
+        public readonly types : string[] = [
+            'mp3',
+            'm4a',
+            'aac',
+            'oga',
+            'ogg',
+            'opus',
+            'wav',
+            'flac',
+            'weba',
+            'audio/*'
+        ];
+
+        /**
+         * Количество столбцов волновой формы
+         */
+        public static waveformBars : number = 200;
+
+        /**
+         * Цвета волновой формы: воспроизведенная и оставшаяся части
+         */
+        public static waveformColors : {played : string, rest : string} = {
+            played: '#26a69a',
+            rest: 'rgba(255, 255, 255, 0.5)'
+        };
+
+        /**
+         * Наибольший размер файла в байтах, который декодируется для построения волновой формы.
+         * Декодированное аудио занимает в памяти во много раз больше исходного файла
+         */
+        public static waveformMaxBytes : number = 10 * 1024 * 1024;
+
+        /**
+         * Вычисленные волновые формы по ссылкам на аудио
+         */
+        protected static peaks : Map<string, Promise<number[]>> = new Map();
+
+        /**
+         * Построения волновых форм, отложенные до показа заранее созданного блока аудио
+         */
+        protected pendingWaveforms : WeakMap<HTMLElement, () => void> = new WeakMap();
+
+        /**
+         * Получить волновую форму аудио: пиковые значения столбцов от 0 до 1.
+         * Аудио загружается и декодируется через Web Audio API один раз для каждой ссылки.
+         * Файлы больше waveformMaxBytes, а также файлы неизвестного размера не загружаются
+         *
+         * @param {string} src - ссылка на аудио
+         * @param {number} size - размер файла, если он известен заранее (иначе берется из Content-Length)
+         *
+         * @returns {Promise<number[]>}
+         */
+        public static waveform(src : string, size? : number) : Promise<number[]> {
+            const cached : Promise<number[]> | undefined = AudioRenderer.peaks.get(src);
+            if (cached) {
+                return cached;
+            }
+
+            const AudioContextClass = window['AudioContext'] || window['webkitAudioContext'];
+            if (!AudioContextClass) {
+                return Promise.reject(new Error('Web Audio API is not supported'));
+            }
+
+            if (size !== undefined && size > AudioRenderer.waveformMaxBytes) {
+                return Promise.reject(new Error('File is too large'));
+            }
+
+            const controller : AbortController | null = window['AbortController'] ? new AbortController() : null;
+
+            const peaks : Promise<number[]> = fetch(src, controller ? {signal: controller.signal} : {}).then(function (response : Response) {
+                const length : number = size !== undefined ? size : parseInt(response.headers.get('Content-Length') || '', 10);
+
+                if (!response.ok || !(length <= AudioRenderer.waveformMaxBytes)) {
+                    controller && controller.abort();
+                    throw new Error(response.ok ? 'File is too large' : response.statusText);
+                }
+
+                return response.arrayBuffer();
+            }).then(function (data : ArrayBuffer) {
+                const context : AudioContext = new AudioContextClass();
+
+                return new Promise<AudioBuffer>(function (resolve, reject) {
+                    context.decodeAudioData(data, resolve, reject);
+                }).then(function (buffer : AudioBuffer) {
+                    context.close();
+
+                    return AudioRenderer.computePeaks(buffer, AudioRenderer.waveformBars);
+                }, function (error : any) {
+                    context.close();
+                    throw error;
+                });
+            });
+
+            peaks.catch(function () {
+                AudioRenderer.peaks.delete(src);
+            });
+            AudioRenderer.peaks.set(src, peaks);
+
+            return peaks;
+        }
+
+        /**
+         * Пиковые значения столбцов по всем каналам, нормированные к наибольшему
+         *
+         * @param {AudioBuffer} buffer - декодированное аудио
+         * @param {number} bars - количество столбцов
+         *
+         * @returns {number[]}
+         */
+        protected static computePeaks(buffer : AudioBuffer, bars : number) : number[] {
+            const size : number = Math.max(1, Math.floor(buffer.length / bars)),
+                peaks : number[] = new Array(bars).fill(0);
+
+            for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+                const data : Float32Array = buffer.getChannelData(channel);
+                for (let bar = 0; bar < bars; bar++) {
+                    const end : number = Math.min((bar + 1) * size, data.length);
+                    for (let i = bar * size; i < end; i++) {
+                        const value : number = Math.abs(data[i]);
+                        value > peaks[bar] && (peaks[bar] = value);
+                    }
+                }
+            }
+
+            const max : number = Math.max.apply(null, peaks) || 1;
+
+            return peaks.map(peak => peak / max);
+        }
+
+        /**
+         * Нарисовать волновую форму
+         *
+         * @param {HTMLCanvasElement} canvas - холст
+         * @param {number[]} peaks - пиковые значения столбцов
+         * @param {number} progress - воспроизведенная доля от 0 до 1
+         */
+        public static drawWaveform(canvas : HTMLCanvasElement, peaks : number[], progress : number = 0) : void {
+            const context = canvas.getContext('2d') as CanvasRenderingContext2D,
+                width : number = canvas.width,
+                height : number = canvas.height,
+                step : number = width / peaks.length;
+
+            context.clearRect(0, 0, width, height);
+            peaks.forEach(function (peak : number, index : number) {
+                const barHeight : number = Math.max(1, peak * height);
+
+                context.fillStyle = (index + 0.5) / peaks.length <= progress
+                    ? AudioRenderer.waveformColors.played
+                    : AudioRenderer.waveformColors.rest;
+                context.fillRect(index * step, (height - barHeight) / 2, Math.max(1, step * 0.7), barHeight);
+            });
+        }
+
+        /**
+         * Аудио сопоставляется по исходной ссылке, так как элемент блока просмотра - обертка аудиоэлемента
+         *
+         * @param {HTMLElement} element
+         * @param {string} src
+         *
+         * @returns {boolean}
+         */
+        public match(element : HTMLElement, src : string) : boolean {
+            return element.dataset.src === src;
+        }
+
+        /**
+         * Создать блок аудио
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        public create(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            player : Player
+        ) : HTMLDivElement | null {
+            const wrapper : HTMLDivElement | null = this.build(mainWrapper, curImage, player);
+            wrapper && this.loadWaveform(wrapper);
+
+            return wrapper;
+        }
+
+        /**
+         * Создать блок аудио: обложку, холст волновой формы и аудиоэлемент. Построение волновой формы
+         * откладывается до показа блока
+         *
+         * @param {HTMLDivElement} mainWrapper - блок просмотра
+         * @param {HTMLSpanElement} curImage - загружаемое превью
+         * @param {Player} player - плеер
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        protected build(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            player : Player
+        ) : HTMLDivElement | null {
+
+            const audioSrc : string = this.source(curImage),
+                item : IPlayerItem | null = player.getItem(curImage);
+            if (!audioSrc) {
+                return null;
+            }
+
+            const wrapper : HTMLDivElement = document.createElement('div'),
+                cover : HTMLDivElement = document.createElement('div'),
+                canvas : HTMLCanvasElement = document.createElement('canvas'),
+                audio : HTMLAudioElement = Utils.GoodFuncs.createElementWithAttrs(
+                    'audio',
+                    {
+                        preload: 'metadata',
+                        controlsList: 'nodownload',
+                        text: player.t('audioUnavailable')
+                    }
+                ) as HTMLAudioElement;
+
+            wrapper.classList.add('audio-player');
+            wrapper.dataset.src = audioSrc;
+
+            cover.classList.add('audio-cover');
+            curImage.dataset.src && (cover.style.backgroundImage = `url("${curImage.dataset.src}")`);
+
+            canvas.classList.add('waveform');
+            canvas.width = AudioRenderer.waveformBars * 4;
+            canvas.height = 64;
+            canvas.setAttribute('role', 'presentation');
+
+            audio.controls = player.videoControls === 'native';
+            audio.src = audioSrc;
+
+            wrapper.append(cover, canvas, audio);
+            mainWrapper.insertAdjacentElement(
+                'beforeend',
+                wrapper
+            );
+
+            this.setWaveform(wrapper, audio, item && Array.isArray(item.peaks) ? item.peaks : null, player.waveform);
+
+            return wrapper;
+        }
+
+        /**
+         * Построить отложенную волновую форму блока аудио
+         *
+         * @param {HTMLElement} element - блок аудио
+         */
+        protected loadWaveform(element : HTMLElement) : void {
+            const load : (() => void) | undefined = this.pendingWaveforms.get(element);
+            if (load) {
+                this.pendingWaveforms.delete(element);
+                load();
+            }
+        }
+
+        /**
+         * Отображать на волновой форме прогресс и перематывать аудио кликом по ней.
+         * Волновая форма берется из элемента (peaks) или, если включена опция плеера waveform, строится
+         * декодированием аудио при показе блока. Без нее, а также если аудио не удалось декодировать
+         * (слишком большой файл, CORS), волновая форма скрывается
+         *
+         * @param {HTMLDivElement} wrapper - блок аудио
+         * @param {HTMLAudioElement} audio - аудиоэлемент
+         * @param {number[] | null} initial - готовые пиковые значения
+         * @param {boolean} decode - строить ли волновую форму декодированием аудио
+         */
+        protected setWaveform(
+            wrapper : HTMLDivElement,
+            audio : HTMLAudioElement,
+            initial : number[] | null,
+            decode : boolean
+        ) : void {
+            const canvas = wrapper.querySelector('canvas') as HTMLCanvasElement;
+            let peaks : number[] = initial || [];
+
+            const draw = function () {
+                peaks.length && AudioRenderer.drawWaveform(
+                    canvas,
+                    peaks,
+                    isFinite(audio.duration) && audio.duration ? audio.currentTime / audio.duration : 0
+                );
+            };
+
+            if (peaks.length) {
+                draw();
+            } else if (decode) {
+                this.pendingWaveforms.set(wrapper, function () {
+                    AudioRenderer.waveform(audio.src).then(function (result : number[]) {
+                        peaks = result;
+                        draw();
+                    }, function () {
+                        canvas.hidden = true;
+                    });
+                });
+            } else {
+                canvas.hidden = true;
+            }
+
+            audio.addEventListener('timeupdate', draw);
+            audio.addEventListener('seeked', draw);
+
+            canvas.addEventListener('click', function (e : MouseEvent) {
+                const rect : ClientRect = canvas.getBoundingClientRect();
+                if (isFinite(audio.duration) && rect.width) {
+                    audio.currentTime = (e.clientX - rect.left) / rect.width * audio.duration;
+                }
+            });
+        }
+
+        /**
+         * При показе заранее созданного блока строится его волновая форма
+         *
+         * @param {HTMLElement} element
+         */
+        public show(element : HTMLElement) : void {
+            super.show(element);
+            this.loadWaveform(element);
+        }
+
+        /**
+         * Скрытое аудио ставится на паузу, кроме заранее запущенного для перехода без паузы (класс gapless)
+         *
+         * @param {HTMLElement} element
+         */
+        public hide(element : HTMLElement) : void {
+            const audio : HTMLAudioElement | null = element.querySelector('audio');
+            audio && !element.classList.contains('gapless') && audio.pause();
+            super.hide(element);
+        }
+
+        /**
+         * Для соседнего аудио заранее создается блок, который загружает только метаданные (preload=metadata);
+         * волновая форма строится, только когда блок будет показан
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {Player} player
+         *
+         * @returns {HTMLDivElement | null}
+         */
+        public preload(mainWrapper : HTMLDivElement, curImage : HTMLSpanElement, player : Player) : HTMLDivElement | null {
+            return this.build(mainWrapper, curImage, player);
+        }
+    }
+
+    /**
+     * Просмотрщик на чистом JavaScript. На данный момент может отображать видео, графику и книги в формате PDF.
+     * Тип каждого элемента определяется отдельно, поэтому в одном плеере можно смешивать разные типы.
+     */
+    export class Player implements IPlayerOptions {
+
+        /**
+         * Зарегистрированные рендереры
+         *
+         * @type {Object<string, IRenderer>}
+         */
+        protected static renderers : {[name : string] : IRenderer} = {};
+
+        /**
+         * Зарегистрировать рендерер.
+         * Плеер использует рендерер, если у блока плеера есть класс с именем рендерера
+         *
+         * @param {string} name - имя рендерера
+         * @param {IRenderer} renderer - рендерер
+         */
+        public static registerRenderer(name : string, renderer : IRenderer) : void {
+            Player.renderers[name] = renderer;
+        }
+
+        /**
+         * Получить зарегистрированный рендерер
+         *
+         * @param {string} name - имя рендерера
+         *
+         * @returns {IRenderer | null}
+         */
+        public static getRenderer(name : string) : IRenderer | null {
+            return Player.renderers[name] || null;
+        }
+
+        /**
+         * Найти рендерер, отображающий ресурсы заданного типа
+         *
+         * @param {string} type - расширение файла или MIME-тип
+         *
+         * @returns {string} - имя рендерера или пустая строка
+         */
+        public static findRenderer(type : string) : string {
+            type = type.toLowerCase();
+            if (!type) {
+                return '';
+            }
+
+            for (let name of Object.keys(Player.renderers)) {
+                const supported = (Player.renderers[name].types || []).some(function (rendererType : string) {
+                    return rendererType === type
+                        || (rendererType.endsWith('/*') && type.startsWith(rendererType.slice(0, -1)));
+                });
+
+                if (supported) {
+                    return name;
+                }
+            }
+
+            return '';
+        }
+
+        /**
+         * Начало рендеринга: скрыть всё, что отображалось ранее
+         *
+         * @param {HTMLDivElement} mainWrapper
+         * @param {HTMLSpanElement} curImage
+         * @param {HTMLSpanElement[]} images - все превью плеера
+         */
+        protected static renderInit(
+            mainWrapper : HTMLDivElement,
+            curImage : HTMLSpanElement,
+            images : HTMLSpanElement[]
+        ) : void {
+            if (curImage.classList.contains('current')) {
+                return;
+            }
+
+            Array.from(mainWrapper.children).forEach(function (element : HTMLElement) {
+                const renderer = Player.getRenderer(element.dataset.renderer || '');
+                renderer && renderer.hide(element);
+            });
+
+            images.forEach(function (imageSpan : HTMLSpanElement) {
+                imageSpan.classList.remove('current');
+                imageSpan.setAttribute('aria-selected', 'false');
+            });
+
+            curImage.classList.add('current');
+            curImage.setAttribute('aria-selected', 'true');
+        }
+
+        /**
+         * Параметры конфигурации по умолчанию
+         *
+         * @type {IPlayerOptions}
+         */
+        public static defaultOptions : IPlayerOptions = {
+            styleFilePath: 'player.css',
+            mainWrapperClass: 'main-wrapper',
+            imageWrapperClass: 'image-wrapper',
+            scrollButtonsWidth: 50,
+            scrollButtonsPadding: 10,
+            imageStopClass: 'no-image',
+            loop: false,
+            swipe: true,
+            dragThreshold: 5,
+            swipeThreshold: 50,
+            dragInertia: 300,
+            reorderable: false,
+            reorderDelay: 300,
+            documentConverter: '',
+            videoControls: 'native',
+            continuous: false,
+            autoplayCountdown: 0,
+            repeat: 'none',
+            shuffle: false,
+            resume: false,
+            gapless: true,
+            mediaSession: true,
+            waveform: true,
+            imageViewer: 'native',
+            lazyThumbnails: true,
+            preload: 1,
+            cacheSize: 5,
+            loadTimeout: 15000,
+            emptyTemplate: '',
+            observe: false,
+            i18n: {},
+            titleLength: 50,
+            deepLink: 'none',
+            deepLinkKey: '',
+            editable: false,
+            accept: 'image/*,video/*,audio/*,application/pdf',
+            formField: '',
+            layout: 'horizontal',
+            gridRows: 2,
+            thumbnailWidth: '20rem',
+            thumbnailHeight: '6rem'
+        };
+
+        /**
+         * Скорости воспроизведения, доступные на панели управления видео
+         *
+         * @type {number[]}
+         */
+        public static playbackRates : number[] = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+        /**
+         * Тексты интерфейса по языкам
+         */
+        public static messages : {[language : string] : IPlayerMessages} = {
+            ru: {
+                videoUnavailable: 'Видео не доступно',
+                audioUnavailable: 'Аудио не доступно',
+                zoomIn: 'Увеличить',
+                zoomOut: 'Уменьшить',
+                rotate: 'Повернуть',
+                resetZoom: 'Сбросить',
+                openLightbox: 'Открыть в лайтбоксе',
+                pdfPrev: 'Предыдущая страница',
+                pdfNext: 'Следующая страница',
+                pdfPage: 'Страница',
+                pdfSearch: 'Поиск',
+                pdfSearchLabel: 'Поиск по документу',
+                pdfError: 'Не удалось открыть документ',
+                pdfNotFound: 'Ничего не найдено',
+                documentUnavailable: 'Просмотр документа недоступен',
+                documentDownload: 'Скачать документ',
+                loading: 'Загрузка',
+                loadError: 'Не удалось загрузить материал',
+                retry: 'Повторить',
+                empty: 'Материалов нет',
+                play: 'Воспроизвести',
+                pause: 'Пауза',
+                seek: 'Позиция',
+                mute: 'Выключить звук',
+                unmute: 'Включить звук',
+                volume: 'Громкость',
+                playbackRate: 'Скорость воспроизведения',
+                captions: 'Субтитры',
+                captionsOff: 'Без субтитров',
+                quality: 'Качество',
+                audioTrack: 'Звуковая дорожка',
+                autoplayNext: 'Далее через {seconds} с: {title}',
+                playNow: 'Смотреть сейчас',
+                cancel: 'Отмена',
+                previous: 'Предыдущий',
+                next: 'Следующий',
+                close: 'Закрыть',
+                fullscreen: 'Полноэкранный режим',
+                itemList: 'Список материалов',
+                itemMoved: '«{title}»: позиция {position} из {total}',
+                deleteItem: 'Удалить «{title}»',
+                addFiles: 'Добавить файлы',
+                uploading: 'Загрузка {name}',
+                uploadError: 'Не удалось загрузить файл {name}'
+            },
+            en: {
+                videoUnavailable: 'Video is not available',
+                audioUnavailable: 'Audio is not available',
+                zoomIn: 'Zoom in',
+                zoomOut: 'Zoom out',
+                rotate: 'Rotate',
+                resetZoom: 'Reset',
+                openLightbox: 'Open in lightbox',
+                pdfPrev: 'Previous page',
+                pdfNext: 'Next page',
+                pdfPage: 'Page',
+                pdfSearch: 'Search',
+                pdfSearchLabel: 'Search the document',
+                pdfError: 'Could not open the document',
+                pdfNotFound: 'Nothing found',
+                documentUnavailable: 'Document preview is not available',
+                documentDownload: 'Download document',
+                loading: 'Loading',
+                loadError: 'Could not load the item',
+                retry: 'Retry',
+                empty: 'No items',
+                play: 'Play',
+                pause: 'Pause',
+                seek: 'Position',
+                mute: 'Mute',
+                unmute: 'Unmute',
+                volume: 'Volume',
+                playbackRate: 'Playback speed',
+                captions: 'Subtitles',
+                captionsOff: 'Subtitles off',
+                quality: 'Quality',
+                audioTrack: 'Audio track',
+                autoplayNext: 'Up next in {seconds} s: {title}',
+                playNow: 'Play now',
+                cancel: 'Cancel',
+                previous: 'Previous',
+                next: 'Next',
+                close: 'Close',
+                fullscreen: 'Fullscreen',
+                itemList: 'Items',
+                itemMoved: '“{title}”: position {position} of {total}',
+                deleteItem: 'Delete “{title}”',
+                addFiles: 'Add files',
+                uploading: 'Uploading {name}',
+                uploadError: 'Could not upload {name}'
+            }
+        };
+
+        /**
+         * Языки с письмом справа налево
+         */
+        public static rtlLanguages : string[] = ['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'dv', 'ku'];
+
+        /**
+         * Обрезать текст до заданного числа символов, не разрывая составные символы (эмодзи, буквы с диакритикой)
+         *
+         * @param {string} text - текст
+         * @param {number} length - максимальное число символов
+         * @param {string} locale - локаль
+         *
+         * @returns {string}
+         */
+        public static truncate(text : string, length : number, locale : string = '') : string {
+            const Segmenter = Intl['Segmenter'],
+                graphemes : string[] = Segmenter
+                    ? Array.from(new Segmenter(locale || undefined, {granularity: 'grapheme'}).segment(text), (part : any) => part.segment)
+                    : Array.from(text);
+
+            return graphemes.length > length ? graphemes.slice(0, length).join('').replace(/\s+$/, '') + '…' : text;
+        }
+
+        /**
+         * Текст интерфейса с подставленными параметрами
+         *
+         * @param {string} key - ключ текста
+         * @param {Object} params - параметры вида {name}
+         *
+         * @returns {string}
+         */
+        public t(key : keyof IPlayerMessages, params : {[name : string] : string | number} = {}) : string {
+            return this.messages[key].replace(/{(\w+)}/g, function (match : string, name : string) {
+                return params[name] !== undefined ? String(params[name]) : match;
+            });
+        }
+
+        /**
+         * Форматировать время воспроизведения
+         *
+         * @param {number} time - время в секундах
+         *
+         * @returns {string}
+         */
+        protected static formatTime(time : number) : string {
+            const seconds : number = Math.floor(time % 60),
+                minutes : number = Math.floor(time / 60) % 60,
+                hours : number = Math.floor(time / 3600);
+
+            return (hours ? `${hours}:${minutes < 10 ? '0' : ''}` : '') + `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+        }
+
+        /**
+         * Где хранятся стили плеера
+         */
+        public readonly styleFilePath : string;
+
+        /**
+         * Выбирать ли первый элемент после загрузки
+         */
+        public readonly activate : boolean;
+
+        public readonly mainWrapperClass : string;
+
+        public readonly imageWrapperClass : string;
+
+        public readonly scrollButtonsWidth : number;
+
+        public readonly scrollButtonsPadding : number;
+
+        public readonly imageStopClass : string;
+
+        public readonly loop : boolean;
+
+        public readonly swipe : boolean;
+
+        public readonly dragThreshold : number;
+
+        public readonly swipeThreshold : number;
+
+        public readonly dragInertia : number;
+
+        public readonly reorderable : boolean;
+
+        public readonly reorderDelay : number;
+
+        public readonly documentConverter : string | ((src : string, type : string) => string | null);
+
+        public readonly videoControls : 'native' | 'custom';
+
+        public continuous : boolean;
+
+        public autoplayCountdown : number;
+
+        public repeat : 'none' | 'all' | 'one';
+
+        public shuffle : boolean;
+
+        public resume : boolean;
+
+        public gapless : boolean;
+
+        public readonly mediaSession : boolean;
+
+        public readonly waveform : boolean;
+
+        public readonly imageViewer : string;
+
+        public readonly lazyThumbnails : boolean;
+
+        public preload : number;
+
+        public cacheSize : number;
+
+        public loadTimeout : number;
+
+        public readonly emptyTemplate : string;
+
+        public readonly observe : boolean;
+
+        public readonly i18n : IPlayerI18n;
+
+        public readonly titleLength : number;
+
+        /**
+         * Локаль плеера
+         */
+        public readonly locale : string;
+
+        /**
+         * Тексты интерфейса плеера
+         */
+        public readonly messages : IPlayerMessages;
+
+        /**
+         * Располагается ли лента превью справа налево
+         */
+        public readonly rtl : boolean;
+
+        public readonly deepLink : 'none' | 'hash' | 'query';
+
+        public readonly deepLinkKey : string;
+
+        /**
+         * Состояние из адреса, которое применяется при первой загрузке элементов
+         */
+        protected linkState : {item : string, time : number, page : number} | null = null;
+
+        public readonly editable : boolean;
+
+        public readonly accept : string;
+
+        public uploader? : IPlayerUploader;
+
+        public readonly formField : string;
+
+        public readonly layout : 'horizontal' | 'vertical' | 'grid' | 'dots' | 'hidden';
+
+        public readonly gridRows : number;
+
+        public readonly thumbnailWidth : string;
+
+        public readonly thumbnailHeight : string;
+
+        /**
+         * Блок точек для расположения dots
+         */
+        protected dotsElement : HTMLElement | null = null;
+
+        /**
+         * Блок с кнопкой добавления файлов
+         */
+        protected editorElement : HTMLDivElement | null = null;
+
+        /**
+         * Блок скрытых полей формы
+         */
+        protected fieldsElement : HTMLDivElement | null = null;
+
+        /**
+         * Локальные ссылки на файлы добавленных элементов
+         */
+        protected objectUrls : WeakMap<HTMLSpanElement, string> = new WeakMap();
+
+        /**
+         * Наблюдатель за изображениями разметки
+         */
+        protected mutationObserver : MutationObserver | null = null;
+
+        /**
+         * Элементы плеера по изображениям разметки в режиме наблюдения
+         */
+        protected sourceImages : Map<HTMLImageElement, HTMLSpanElement> = new Map();
+
+        /**
+         * Таймеры ожидания загрузки фреймов; при уничтожении плеера сбрасываются
+         */
+        protected loadTimers : Map<HTMLElement, number> = new Map();
+
+        /**
+         * Наблюдатель за появлением превью в ленте для их отложенной загрузки
+         */
+        protected thumbnailObserver : IntersectionObserver | null = null;
+
+        /**
+         * Элементы блока просмотра в порядке последнего использования
+         */
+        protected recentElements : HTMLElement[] = [];
+
+        /**
+         * Сохраненные позиции воспроизведения элементов
+         */
+        protected playbackPositions : WeakMap<HTMLSpanElement, number> = new WeakMap();
+
+        /**
+         * Элементы, еще не воспроизведенные в текущем круге случайного порядка; null - круг не начат
+         */
+        protected shuffleQueue : HTMLSpanElement[] | null = null;
+
+        /**
+         * Таймер обратного отсчета перед переходом к следующему элементу
+         */
+        protected autoplayTimer : number = 0;
+
+        /**
+         * Блок обратного отсчета
+         */
+        protected autoplayOverlay : HTMLDivElement | null = null;
+
+        /**
+         * За сколько секунд до конца аудио начинать загрузку следующего (опция gapless)
+         */
+        public static audioPrimeLead : number = 15;
+
+        /**
+         * За сколько секунд до конца аудио планировать запуск следующего
+         */
+        public static gaplessLead : number = 0.5;
+
+        /**
+         * Превью аудио, которое заранее загружается для перехода после текущего
+         */
+        protected primedItem : HTMLSpanElement | null = null;
+
+        /**
+         * Блок заранее загружаемого аудио; пока он запущен к концу текущего, у него есть класс gapless
+         */
+        protected primedElement : HTMLElement | null = null;
+
+        /**
+         * Таймер запуска заранее загруженного аудио
+         */
+        protected gaplessTimer : number = 0;
+
+        /**
+         * Собственная панель управления видео
+         */
+        public readonly controls : HTMLDivElement | null = null;
+
+        /**
+         * Отображаемый элемент блока просмотра
+         */
+        protected currentElement : HTMLElement | null = null;
+
+        /**
+         * Громкость и скорость воспроизведения, общие для всех элементов плеера
+         */
+        protected mediaState : {
+            volume : number,
+            muted : boolean,
+            playbackRate : number,
+            captionLanguage : string,
+            quality : string,
+            audioLanguage : string
+        } = {
+            volume: 1,
+            muted: false,
+            playbackRate: 1,
+            captionLanguage: '',
+            quality: '',
+            audioLanguage: ''
+        };
+
+        /**
+         * Блок выбора субтитров, качества и звуковой дорожки
+         */
+        public readonly mediaOptions : HTMLDivElement;
+
+        public readonly animationDuration : number = 400;
+
+        /**
+         * Уникальный идентификатор плеера
+         */
+        protected readonly uniq : string = Utils.GoodFuncs.getRandomString(12);
+
+        /**
+         * Блок просмотра
+         */
+        public readonly mainWrapper : HTMLDivElement;
+
+        /**
+         * Блок превью
+         */
+        public readonly imageWrapper : HTMLDivElement;
+
+        /**
+         * Лента превью, которая сдвигается внутри блока превью
+         */
+        public readonly track : HTMLDivElement;
+
+        /**
+         * Область для озвучивания выбранного элемента экранными дикторами
+         */
+        public readonly statusElement : HTMLDivElement;
+
+        /**
+         * Тип плеера - имя рендерера по умолчанию
+         */
+        protected type : string = '';
+
+        /**
+         * На каком элементе загружается плеер
+         */
+        public readonly element : HTMLElement;
+
+        public readonly emptyPlayerImage : HTMLImageElement | null;
+
+        /**
+         * Блок, отображаемый в пустом плеере
+         */
+        public readonly emptyElement : HTMLDivElement;
+
+        /**
+         * Блок ошибки загрузки текущего элемента
+         */
+        public readonly errorElement : HTMLDivElement;
+
+        public readonly playerElement : HTMLElement;
+
+        /**
+         * Текущее смещение ленты превью
+         */
+        protected prevScroll : number = 0;
+
+        /**
+         * Смещения превью в ленте, последний элемент - общая ширина ленты
+         */
+        protected offsets : number[] = [0];
+
+        /**
+         * Измеренные ширины превью
+         */
+        protected itemSizes : WeakMap<HTMLSpanElement, number> = new WeakMap();
+
+        /**
+         * Ширина еще не измеренного превью
+         */
+        protected estimatedSize : number = 0;
+
+        /**
+         * Наблюдатель за размерами ленты и превью
+         */
+        protected resizeObserver : IResizeObserver | null = null;
+
+        /**
+         * Таймер отрисовки ленты после окончания анимации
+         */
+        protected stripTimer : number = 0;
+
+        protected images : HTMLSpanElement[] = [];
+
+        /**
+         * Данные элементов плеера
+         */
+        protected itemsData : WeakMap<HTMLSpanElement, IPlayerItem> = new WeakMap();
+
+        protected position : number = 0;
+
+        protected fullscreenButtonAdded = false;
+
+        /**
+         * Находился ли плеер в полноэкранном режиме при последней проверке
+         */
+        protected fullscreenActive : boolean = false;
+
+        /**
+         * Была ли лента превью только что перетащена (чтобы не срабатывал клик по превью)
+         */
+        protected dragged : boolean = false;
+
+        /**
+         * Перетаскивается ли превью для изменения порядка элементов
+         */
+        protected reordering : boolean = false;
+
+        /**
+         * Обработчики событий плеера
+         */
+        protected listeners : {[type : string] : Array<(event : PlayerEvent) => void>} = {};
+
+        /**
+         * Плееры по элементам, на которых они загружены
+         */
+        protected static instances : WeakMap<HTMLElement, Player> = new WeakMap();
+
+        /**
+         * Количество плееров с синхронизацией адреса, у блоков которых нет id и не задана опция deepLinkKey
+         */
+        protected static unnamedLinks : number = 0;
+
+        /**
+         * Имя параметра адреса для плеера без id: player, player2, player3 и т. д. в порядке создания
+         *
+         * @returns {string}
+         */
+        protected static unnamedLinkKey() : string {
+            Player.unnamedLinks++;
+
+            return Player.unnamedLinks > 1 ? `player${Player.unnamedLinks}` : 'player';
+        }
+
+        /**
+         * Функции, снимающие обработчики событий документа и окна
+         */
+        protected cleanups : Array<() => void> = [];
+
+        /**
+         * Изображения разметки, убранные плеером, и их исходные места
+         */
+        protected detachedMarkup : Array<{image : HTMLImageElement, parent : Node, next : Node | null}> = [];
+
+        /**
+         * Был ли у элемента класс player до загрузки плеера
+         */
+        protected hadPlayerClass : boolean = false;
+
+        /**
+         * Уничтожен ли плеер
+         */
+        public destroyed : boolean = false;
+
+        /**
+         * Плеер, загруженный на элементе
+         *
+         * @param {HTMLElement} element
+         *
+         * @returns {Player | null}
+         */
+        public static getInstance(element : HTMLElement) : Player | null {
+            return Player.instances.get(element) || null;
+        }
+
+        /**
+         * Загрузить плееры на всех элементах с атрибутом data-player внутри root.
+         * Значение атрибута может содержать JSON с опциями плеера; элементы с некорректным JSON пропускаются,
+         * уже загруженные плееры не создаются повторно
+         *
+         * @param {ParentNode} root - где искать элементы
+         * @param {IPlayerOptions} cnf - объект конфигурации по умолчанию
+         *
+         * @returns {Player[]}
+         */
+        public static autoInit(root : ParentNode = document, cnf : IPlayerOptions = {}) : Player[] {
+            const elements : HTMLElement[] = Array.from(root.querySelectorAll('[data-player]'));
+            if (root instanceof HTMLElement && root.matches('[data-player]')) {
+                elements.unshift(root);
+            }
+
+            return elements.reduce(function (players : Player[], element : HTMLElement) {
+                const options : IPlayerOptions | undefined = element.dataset.player ? Player.parseJson(element.dataset.player) : {};
+                if (options) {
+                    players.push(Player.getInstance(element) || new Player(element, Object.assign({}, cnf, options)));
+                }
+
+                return players;
+            }, []);
+        }
+
+        /**
+         * Добавить обработчик события, который будет снят при уничтожении плеера
+         *
+         * @param {EventTarget} target - цель события
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         */
+        protected listen(target : EventTarget, type : string, listener : (event : any) => void) : void {
+            target.addEventListener(type, listener);
+            this.cleanups.push(function () {
+                target.removeEventListener(type, listener);
+            });
+        }
+
+        /**
+         * Убрать изображение разметки, запомнив его место для восстановления при уничтожении плеера
+         *
+         * @param {HTMLImageElement} image
+         */
+        protected detachMarkup(image : HTMLImageElement) : void {
+            if (image.parentNode) {
+                this.detachedMarkup.push({image: image, parent: image.parentNode, next: image.nextSibling});
+                image.remove();
+            }
+        }
+
+        /**
+         * Уничтожить плеер: снять обработчики, удалить созданные элементы и медиа, восстановить исходную разметку
+         */
+        public destroy() : void {
+            if (this.destroyed) {
+                return;
+            }
+
+            const self = this;
+
+            this.destroyed = true;
+            this.cancelAutoplay();
+            this.cancelGapless();
+            this.closeLightbox();
+            this.playerElement.classList.contains('pseudo-fullscreen')
+                ? this.setPseudoFullscreen(false)
+                : this.exitFullscreen().catch(function () {});
+
+            clearTimeout(this.stripTimer);
+            this.loadTimers.forEach(timer => clearTimeout(timer));
+            this.loadTimers.clear();
+            this.resizeObserver && this.resizeObserver.disconnect();
+            this.thumbnailObserver && this.thumbnailObserver.disconnect();
+            this.mutationObserver && this.mutationObserver.disconnect();
+            this.sourceImages.forEach(function (span : HTMLSpanElement, image : HTMLImageElement) {
+                image.classList.remove('player-source');
+            });
+            this.sourceImages.clear();
+            this.cleanups.forEach(cleanup => cleanup());
+            this.cleanups = [];
+
+            this.getRendered().forEach(function (element : HTMLElement) {
+                const renderer = Player.getRenderer(element.dataset.renderer || ''),
+                    media : HTMLMediaElement | null = Player.mediaOf(element);
+
+                if (media) {
+                    media.pause();
+                    media.removeAttribute('src');
+                    media.load();
+                }
+
+                renderer ? renderer.destroy(element) : element.remove();
+            });
+
+            this.clearMediaSession();
+            this.currentElement = null;
+            this.images = [];
+            this.listeners = {};
+
+            this.mainWrapper.remove();
+            this.imageWrapper.remove();
+            this.statusElement.remove();
+            this.dotsElement && this.dotsElement.remove();
+            this.editorElement && this.editorElement.remove();
+            this.fieldsElement && this.fieldsElement.remove();
+
+            this.detachedMarkup.reverse().forEach(function (markup) {
+                markup.parent.insertBefore(markup.image, markup.next && markup.next.parentNode === markup.parent ? markup.next : null);
+            });
+            this.detachedMarkup = [];
+
+            ['empty', 'rtl', 'drop-active', 'fullscreen-active', 'pseudo-fullscreen', 'layout-' + this.layout].forEach(function (className : string) {
+                self.playerElement.classList.remove(className);
+            });
+            ['--thumbnail-width', '--thumbnail-height', '--grid-rows'].forEach(function (property : string) {
+                self.playerElement.style.removeProperty(property);
+            });
+            this.hadPlayerClass || this.playerElement.classList.remove('player');
+
+            Player.instances.delete(this.playerElement);
+        }
+
+        /**
+         * Идет ли пересборка плеера
+         */
+        protected updating : boolean = false;
+
+        /**
+         * Добавить обработчик события плеера
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        public on<K extends keyof IPlayerEventMap>(type : K, listener : (event : IPlayerEventMap[K]) => void) : this {
+            (this.listeners[type] = this.listeners[type] || []).push(listener);
+
+            return this;
+        }
+
+        /**
+         * Удалить обработчик события плеера. Без обработчика удаляются все обработчики события
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        public off<K extends keyof IPlayerEventMap>(type : K, listener? : (event : IPlayerEventMap[K]) => void) : this {
+            if (!listener) {
+                delete this.listeners[type];
+                return this;
+            }
+
+            this.listeners[type] = (this.listeners[type] || []).filter(function (handler) {
+                return handler !== listener && handler['listener'] !== listener;
+            });
+
+            return this;
+        }
+
+        /**
+         * Добавить обработчик, который сработает один раз
+         *
+         * @param {string} type - тип события
+         * @param {Function} listener - обработчик
+         *
+         * @returns {Player}
+         */
+        public once<K extends keyof IPlayerEventMap>(type : K, listener : (event : IPlayerEventMap[K]) => void) : this {
+            const self = this,
+                handler = function (event : IPlayerEventMap[K]) {
+                    self.off(type, handler);
+                    listener.call(self, event);
+                };
+
+            handler['listener'] = listener;
+
+            return this.on(type, handler);
+        }
+
+        /**
+         * Сгенерировать событие плеера.
+         * Кроме обработчиков плеера событие отправляется в DOM на блок плеера с именем вида playerSelect
+         *
+         * @param {string} type - тип события
+         * @param {HTMLSpanElement | null} item - превью
+         * @param {number} index - индекс превью
+         * @param {Object} data - дополнительные данные события
+         * @param {boolean} cancelable - можно ли отменить действие по умолчанию
+         *
+         * @returns {boolean} - false, если действие по умолчанию было отменено
+         */
+        protected emit(
+            type : keyof IPlayerEventMap,
+            item : HTMLSpanElement | null,
+            index : number,
+            data : object = {},
+            cancelable : boolean = false
+        ) : boolean {
+            const event : PlayerEvent = Object.assign(new PlayerEvent(type, this.id, item, index, cancelable), data);
+
+            for (let listener of (this.listeners[type] || []).slice()) {
+                listener.call(this, event);
+            }
+
+            const domEvent = new CustomEvent(
+                'player' + type.charAt(0).toUpperCase() + type.slice(1),
+                {
+                    detail: event,
+                    bubbles: true,
+                    cancelable: cancelable
+                }
+            );
+
+            if (!this.playerElement.dispatchEvent(domEvent)) {
+                event.preventDefault();
+            }
+
+            return !event.defaultPrevented;
+        }
+
+        /**
+         * Показать заглушку и сообщить об опустевшем плеере
+         */
+        protected checkEmpty() : void {
+            if (this.updating || this.images.length) {
+                return;
+            }
+
+            this.playerElement.classList.add('empty');
+            this.showState('ready');
+
+            this.emit('empty', null, -1);
+        }
+
+        /**
+         * Выбрать рендерер по умолчанию по классу блока плеера
+         */
+        protected setRender() : void {
+            for (let name of Object.keys(Player.renderers)) {
+                if (this.playerElement.classList.contains(name)) {
+                    this.type = name;
+                    return;
+                }
+            }
+        }
+
+        /**
+         * Выбрать рендерер для превью: по атрибуту data-type (имя рендерера, расширение или MIME-тип),
+         * затем по расширению файла ресурса, иначе используется рендерер плеера по умолчанию
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {string}
+         */
+        protected resolveRenderer(curImage : HTMLSpanElement) : string {
+            const type : string = (curImage.dataset.type || '').toLowerCase();
+            if (Player.getRenderer(type)) {
+                return type;
+            }
+
+            const src : string = (curImage.dataset.objectSrc || curImage.dataset.src || '').split(/[?#]/)[0],
+                srcMatches : RegExpMatchArray | null = src.match(/\.([^./]+)$/);
+
+            return Player.findRenderer(type)
+                || Player.findRenderer(srcMatches ? srcMatches[1] : '')
+                || this.type;
+        }
+
+        /**
+         * Элементы блока просмотра, созданные рендерером
+         *
+         * @param {string} name - имя рендерера, без него возвращаются элементы всех рендереров
+         *
+         * @returns {HTMLElement[]}
+         */
+        protected getRendered(name? : string) : HTMLElement[] {
+            return (Array.from(this.mainWrapper.children) as HTMLElement[]).filter(function (element : HTMLElement) {
+                return name === undefined ? element.dataset.renderer !== undefined : element.dataset.renderer === name;
+            });
+        }
+
+        /**
+         * Отобразить ресурс превью в блоке просмотра
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected render(curImage : HTMLSpanElement) : HTMLElement | null {
+            const name : string = curImage.dataset.renderer || '',
+                renderer = Player.getRenderer(name);
+            if (!renderer) {
+                return null;
+            }
+
+            Player.renderInit(this.mainWrapper, curImage, this.images);
+
+            const src : string = renderer.source(curImage);
+            if (!src) {
+                this.setCurrentElement(null);
+                this.setFailed(curImage);
+                return null;
+            }
+
+            for (let element of this.getRendered(name)) {
+                if (renderer.match(element, src)) {
+                    renderer.show(element);
+                    this.touchElement(element);
+                    return this.setCurrentElement(element);
+                }
+            }
+
+            const element : HTMLElement | null = renderer.create(this.mainWrapper, curImage, this);
+            element && this.registerElement(element, curImage, name);
+            this.setCurrentElement(element);
+            element || this.setFailed(curImage);
+
+            return element;
+        }
+
+        /**
+         * Подготовить созданный рендерером элемент блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} name - имя рендерера
+         */
+        protected registerElement(element : HTMLElement, curImage : HTMLSpanElement, name : string) : void {
+            const self = this;
+
+            element.dataset.renderer = name;
+            element.addEventListener('error', function (e : Event) {
+                const target : EventTarget | null = e.target;
+                if (
+                    target instanceof HTMLTrackElement
+                    || (
+                        target instanceof HTMLSourceElement
+                        && (target.parentElement as HTMLMediaElement).networkState !== HTMLMediaElement.NETWORK_NO_SOURCE
+                    )
+                ) {
+                    return;
+                }
+
+                self.setLoadState(element, curImage, 'error');
+                self.emit('mediaError', curImage, self.images.indexOf(curImage), {element: element, error: e});
+            }, true);
+            this.bindMedia(element);
+            this.touchElement(element);
+            this.watchLoading(element, curImage);
+        }
+
+        /**
+         * Загружаемая часть элемента блока просмотра: изображение, медиа-элемент или фрейм
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected static loadable(element : HTMLElement) : HTMLElement | null {
+            const selector : string = 'img, video, audio, iframe';
+
+            return element.matches(selector) ? element : element.querySelector(selector);
+        }
+
+        /**
+         * Отслеживать загрузку элемента блока просмотра: пока он загружается, показывается индикатор загрузки,
+         * фрейм, не загрузившийся за loadTimeout, считается ошибкой, а документ PDF.js ждет событий load или error
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        protected watchLoading(element : HTMLElement, curImage : HTMLSpanElement) : void {
+            const self = this,
+                target : HTMLElement | null = Player.loadable(element),
+                pdf : PdfDocument | null = PdfDocument.get(element);
+
+            if (
+                (!target && !(pdf && !pdf.pages))
+                || (target instanceof HTMLImageElement && target.complete && target.naturalWidth > 0)
+                || (target instanceof HTMLMediaElement && target.readyState >= HTMLMediaElement.HAVE_METADATA)
+            ) {
+                this.setLoadState(element, curImage, 'ready');
+                return;
+            }
+
+            this.setLoadState(element, curImage, 'loading');
+
+            ['load', 'loadedmetadata', 'playing', 'canplay'].forEach(function (type : string) {
+                element.addEventListener(type, function () {
+                    element.dataset.state !== 'error' && self.setLoadState(element, curImage, 'ready');
+                }, true);
+            });
+
+            target instanceof HTMLMediaElement && target.addEventListener('waiting', function () {
+                self.setLoadState(element, curImage, 'loading');
+            });
+
+            if (target instanceof HTMLIFrameElement && this.loadTimeout > 0) {
+                this.loadTimers.set(element, window.setTimeout(function () {
+                    self.loadTimers.delete(element);
+                    if (element.dataset.state !== 'loading') {
+                        return;
+                    }
+
+                    self.setLoadState(element, curImage, 'error');
+                    self.emit('mediaError', curImage, self.images.indexOf(curImage), {element: element, error: new Event('timeout')});
+                }, this.loadTimeout));
+            }
+        }
+
+        /**
+         * Установить состояние загрузки элемента блока просмотра
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         * @param {HTMLSpanElement} curImage - превью
+         * @param {string} state - loading, ready или error
+         */
+        protected setLoadState(element : HTMLElement, curImage : HTMLSpanElement, state : 'loading' | 'ready' | 'error') : void {
+            element.dataset.state = state;
+            curImage.classList.toggle('failed', state === 'error');
+
+            if (state !== 'loading') {
+                clearTimeout(this.loadTimers.get(element));
+                this.loadTimers.delete(element);
+            }
+
+            if (element === this.currentElement) {
+                this.showState(state);
+                state === 'error' && this.announce(this.t('loadError'));
+            }
+        }
+
+        /**
+         * Отметить текущий элемент как недоступный, если рендерер не смог его отобразить
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         */
+        protected setFailed(curImage : HTMLSpanElement) : void {
+            curImage.classList.add('failed');
+            this.showState('error');
+        }
+
+        /**
+         * Показать индикатор загрузки или блок ошибки блока просмотра
+         *
+         * @param {string} state - loading, ready или error
+         */
+        protected showState(state : string) : void {
+            this.mainWrapper.classList.toggle('loading', state === 'loading');
+            this.mainWrapper.classList.toggle('failed', state === 'error');
+        }
+
+        /**
+         * Повторить загрузку текущего элемента
+         *
+         * @returns {HTMLElement | null}
+         */
+        public retry() : HTMLElement | null {
+            const current : HTMLSpanElement | null = this.current,
+                element : HTMLElement | null = this.currentElement;
+            if (!current) {
+                return null;
+            }
+
+            current.classList.remove('failed');
+            if (element) {
+                const renderer = Player.getRenderer(element.dataset.renderer || '');
+                renderer ? renderer.destroy(element) : element.remove();
+            }
+
+            return this.render(current);
+        }
+
+        /**
+         * Создать блок пустого плеера
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createEmptyState() : HTMLDivElement {
+            const empty = document.createElement('div');
+
+            empty.classList.add('player-empty');
+            if (this.emptyTemplate) {
+                empty.innerHTML = this.emptyTemplate;
+            } else if (this.emptyPlayerImage) {
+                this.detachMarkup(this.emptyPlayerImage);
+                empty.appendChild(this.emptyPlayerImage);
+            } else {
+                empty.textContent = this.t('empty');
+            }
+
+            this.mainWrapper.appendChild(empty);
+
+            return empty;
+        }
+
+        /**
+         * Создать индикатор загрузки и блок ошибки загрузки
+         *
+         * @returns {HTMLDivElement} - блок ошибки
+         */
+        protected createErrorState() : HTMLDivElement {
+            const self = this,
+                error = document.createElement('div');
+
+            this.mainWrapper.insertAdjacentHTML(
+                'beforeend',
+                `<div class="player-spinner" role="progressbar" aria-label="${this.t('loading')}"></div>`
+            );
+
+            error.classList.add('media-error');
+            error.setAttribute('role', 'alert');
+            error.insertAdjacentHTML('beforeend', `
+                <span class="message">${this.t('loadError')}</span>
+                <button type="button" class="retry">${this.t('retry')}</button>
+            `);
+            (error.querySelector('.retry') as HTMLButtonElement).addEventListener('click', function () {
+                self.retry();
+            });
+
+            this.mainWrapper.appendChild(error);
+
+            return error;
+        }
+
+        /**
+         * Отметить элемент блока просмотра как использованный последним
+         *
+         * @param {HTMLElement} element
+         */
+        protected touchElement(element : HTMLElement) : void {
+            this.recentElements = this.recentElements.filter(recent => recent !== element && recent.isConnected);
+            this.recentElements.push(element);
+        }
+
+        /**
+         * Заранее загрузить ресурсы соседних элементов
+         *
+         * @param {number} index - индекс выбранного элемента
+         */
+        protected preloadAround(index : number) : void {
+            const count : number = this.images.length;
+
+            for (let step = 1; step <= this.preload; step++) {
+                for (let neighbour of [index + step, index - step]) {
+                    if (this.loop) {
+                        neighbour = (neighbour % count + count) % count;
+                    }
+
+                    const image : HTMLSpanElement | undefined = this.images[neighbour];
+                    if (image && neighbour !== index) {
+                        this.loadThumbnail(image);
+                        this.preloadItem(image);
+                    }
+                }
+            }
+        }
+
+        /**
+         * Заранее загрузить ресурс элемента средствами его рендерера
+         *
+         * @param {HTMLSpanElement} curImage - превью
+         *
+         * @returns {HTMLElement | null} - созданный или уже существующий элемент блока просмотра
+         */
+        protected preloadItem(curImage : HTMLSpanElement) : HTMLElement | null {
+            const name : string = curImage.dataset.renderer || '',
+                renderer = Player.getRenderer(name),
+                src : string = renderer ? renderer.source(curImage) : '';
+            if (!renderer || !renderer.preload || !src) {
+                return null;
+            }
+
+            for (let element of this.getRendered(name)) {
+                if (renderer.match(element, src)) {
+                    this.touchElement(element);
+                    return element;
+                }
+            }
+
+            const element : HTMLElement | null = renderer.preload(this.mainWrapper, curImage, this);
+            if (element) {
+                renderer.hide(element);
+                this.registerElement(element, curImage, name);
+            }
+
+            return element;
+        }
+
+        /**
+         * Удалить давно показанные элементы блока просмотра сверх размера кэша.
+         * Текущий элемент и заранее загруженные соседи удаляются последними
+         */
+        protected evict() : void {
+            if (this.cacheSize <= 0) {
+                return;
+            }
+
+            const limit : number = Math.max(this.cacheSize, 1 + this.preload * 2);
+
+            this.recentElements = this.recentElements.filter(recent => recent.isConnected);
+            while (this.recentElements.length > limit) {
+                const element : HTMLElement = this.recentElements[0] === this.currentElement
+                        ? this.recentElements.splice(1, 1)[0]
+                        : this.recentElements.shift() as HTMLElement,
+                    renderer = Player.getRenderer(element.dataset.renderer || '');
+
+                renderer ? renderer.destroy(element) : element.remove();
+            }
+        }
+
+        /**
+         * Загрузить изображение превью
+         *
+         * @param {HTMLSpanElement} image - превью
+         */
+        protected loadThumbnail(image : HTMLSpanElement) : void {
+            if (!image.classList.contains('lazy')) {
+                return;
+            }
+
+            image.classList.remove('lazy');
+            image.style.backgroundImage = `url("${image.dataset.src}")`;
+            this.thumbnailObserver && this.thumbnailObserver.unobserve(image);
+        }
+
+        /**
+         * Отложенная загрузка превью при их приближении к видимой части ленты
+         */
+        protected setLazyThumbnails() : void {
+            if (!this.lazyThumbnails || !window['IntersectionObserver']) {
+                return;
+            }
+
+            const self = this;
+            this.thumbnailObserver = new IntersectionObserver(function (entries : IntersectionObserverEntry[]) {
+                entries.forEach(function (entry : IntersectionObserverEntry) {
+                    entry.isIntersecting && self.loadThumbnail(entry.target as HTMLSpanElement);
+                });
+            }, {
+                root: this.imageWrapper,
+                rootMargin: this.vertical ? '50% 0px' : '0px 50%'
+            });
+        }
+
+        /**
+         * Запомнить отображаемый элемент блока просмотра
+         *
+         * @param {HTMLElement | null} element
+         *
+         * @returns {HTMLElement | null}
+         */
+        protected setCurrentElement(element : HTMLElement | null) : HTMLElement | null {
+            this.currentElement = element;
+            this.showState(element ? element.dataset.state || 'ready' : 'ready');
+
+            const media = this.media,
+                current = this.current;
+            if (media) {
+                this.applyMediaState(media);
+                current && this.restorePosition(current, media);
+            }
+
+            this.updateControls();
+
+            return element;
+        }
+
+        /**
+         * Следить за состоянием медиа-элемента
+         *
+         * @param {HTMLElement} element
+         */
+        protected bindMedia(element : HTMLElement) : void {
+            const self = this,
+                media : HTMLMediaElement | null = Player.mediaOf(element);
+            if (!media) {
+                return;
+            }
+
+            media.addEventListener('play', function () {
+                this === self.media && self.updateMediaSession();
+            });
+
+            media.addEventListener('volumechange', function () {
+                if (this === self.media) {
+                    self.mediaState.volume = this.volume;
+                    self.mediaState.muted = this.muted;
+                    self.updateControls();
+                }
+            });
+
+            media.addEventListener('ratechange', function () {
+                if (this === self.media) {
+                    self.mediaState.playbackRate = this.playbackRate;
+                    self.updateControls();
+                }
+            });
+
+            ['play', 'pause', 'timeupdate', 'durationchange'].forEach(function (type : string) {
+                media.addEventListener(type, function () {
+                    this === self.media && self.updateControls();
+                });
+            });
+
+            if (media instanceof HTMLAudioElement) {
+                media.addEventListener('timeupdate', function () {
+                    if (this === self.media) {
+                        self.primeNextAudio(this);
+                        self.scheduleGapless(this);
+                    }
+                });
+
+                // при окончании аудио событие pause приходит перед ended, запуск следующего при этом не отменяется
+                media.addEventListener('pause', function () {
+                    this === self.media && !this.ended && self.cancelGapless();
+                });
+
+                media.addEventListener('seeking', function () {
+                    this === self.media && self.cancelGapless();
+                });
+            }
+
+            media.addEventListener('ended', function () {
+                this === self.media && self.onMediaEnded();
+            });
+        }
+
+        /**
+         * Применить к медиа-элементу громкость и скорость, общие для всего плеера
+         *
+         * @param {HTMLMediaElement} media
+         */
+        protected applyMediaState(media : HTMLMediaElement) : void {
+            const state = this.mediaState,
+                current = this.current,
+                item : IPlayerItem | null = current ? this.getItem(current) : null;
+
+            media.volume = state.volume;
+            media.muted = state.muted;
+            media.defaultPlaybackRate = state.playbackRate;
+            media.playbackRate = state.playbackRate;
+
+            Array.from(media.textTracks).forEach(function (track : TextTrack) {
+                track.mode = state.captionLanguage && track.language === state.captionLanguage ? 'showing' : 'disabled';
+            });
+
+            if (media['audioTracks'] && state.audioLanguage) {
+                const audioTracks : any[] = Array.from(media['audioTracks']);
+                if (audioTracks.some(track => track.language === state.audioLanguage)) {
+                    audioTracks.forEach(function (track : any) {
+                        track.enabled = track.language === state.audioLanguage;
+                    });
+                }
+            }
+
+            if (
+                media instanceof HTMLVideoElement
+                && item && item.sources
+                && state.quality
+                && item.sources.some(source => source.quality === state.quality)
+                && VideoRenderer.getQuality(media) !== state.quality
+            ) {
+                const time : number = media.currentTime,
+                    paused : boolean = media.paused;
+
+                VideoRenderer.setSources(media, item.sources, state.quality);
+                media.load();
+                media.addEventListener('loadedmetadata', function restore() {
+                    media.removeEventListener('loadedmetadata', restore);
+                    media.currentTime = time;
+                    paused || media.play().catch(function () {});
+                });
+            }
+        }
+
+        /**
+         * Отображаемый медиа-элемент (видео или аудио)
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        get media() : HTMLMediaElement | null {
+            return this.currentElement ? Player.mediaOf(this.currentElement) : null;
+        }
+
+        /**
+         * Медиа-элемент элемента блока просмотра: сам элемент или вложенное видео или аудио
+         *
+         * @param {HTMLElement} element - элемент блока просмотра
+         *
+         * @returns {HTMLMediaElement | null}
+         */
+        protected static mediaOf(element : HTMLElement) : HTMLMediaElement | null {
+            return element instanceof HTMLMediaElement ? element : element.querySelector('video, audio');
+        }
+
+        /**
+         * Начать воспроизведение
+         *
+         * @returns {Promise<void>}
+         */
+        public play() : Promise<void> {
+            const media = this.media;
+
+            return media ? media.play() : Promise.resolve();
+        }
+
+        /**
+         * Приостановить воспроизведение
+         */
+        public pause() : void {
+            const media = this.media;
+            media && media.pause();
+        }
+
+        /**
+         * Перейти к моменту воспроизведения
+         *
+         * @param {number} time - время в секундах
+         */
+        public seek(time : number) : void {
+            const media = this.media;
+            if (!media) {
+                return;
+            }
+
+            media.currentTime = Math.max(0, isFinite(media.duration) ? Math.min(time, media.duration) : time);
+        }
+
+        /**
+         * Установить громкость для всех элементов плеера
+         *
+         * @param {number} volume - громкость от 0 до 1
+         */
+        public setVolume(volume : number) : void {
+            this.mediaState.volume = Math.max(0, Math.min(volume, 1));
+            this.mediaState.muted = false;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Включить или выключить звук для всех элементов плеера
+         *
+         * @param {boolean} muted
+         */
+        public setMuted(muted : boolean) : void {
+            this.mediaState.muted = muted;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Установить скорость воспроизведения для всех элементов плеера
+         *
+         * @param {number} rate - скорость, 1 - обычная
+         */
+        public setPlaybackRate(rate : number) : void {
+            this.mediaState.playbackRate = rate;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Создать панель управления видео
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createControls() : HTMLDivElement {
+            const self = this,
+                controls = document.createElement('div');
+
+            controls.classList.add('video-controls');
+            controls.insertAdjacentHTML('beforeend', `
+                <button type="button" class="play material-icons" aria-label="${this.t('play')}">play_arrow</button>
+                <input type="range" class="seek" min="0" max="0" step="0.1" value="0" aria-label="${this.t('seek')}">
+                <span class="time">0:00 / 0:00</span>
+                <button type="button" class="mute material-icons" aria-label="${this.t('mute')}">volume_up</button>
+                <input type="range" class="volume" min="0" max="1" step="0.05" value="1" aria-label="${this.t('volume')}">
+                <select class="rate" aria-label="${this.t('playbackRate')}">
+                    ${Player.playbackRates.map(rate => `<option value="${rate}">${rate}×</option>`).join('')}
+                </select>
+            `);
+
+            (controls.querySelector('.play') as HTMLButtonElement).addEventListener('click', function () {
+                const media = self.media;
+                media && (media.paused ? self.play() : self.pause());
+            });
+
+            (controls.querySelector('.seek') as HTMLInputElement).addEventListener('input', function () {
+                self.seek(parseFloat(this.value));
+            });
+
+            (controls.querySelector('.mute') as HTMLButtonElement).addEventListener('click', function () {
+                self.setMuted(!self.mediaState.muted);
+            });
+
+            (controls.querySelector('.volume') as HTMLInputElement).addEventListener('input', function () {
+                self.setVolume(parseFloat(this.value));
+            });
+
+            (controls.querySelector('.rate') as HTMLSelectElement).addEventListener('change', function () {
+                self.setPlaybackRate(parseFloat(this.value));
+            });
+
+            this.mainWrapper.appendChild(controls);
+
+            return controls;
+        }
+
+        /**
+         * Создать блок выбора субтитров, качества и звуковой дорожки
+         *
+         * @returns {HTMLDivElement}
+         */
+        protected createMediaOptions() : HTMLDivElement {
+            const self = this,
+                options = document.createElement('div');
+
+            options.classList.add('media-options');
+            options.insertAdjacentHTML('beforeend', `
+                <select class="captions" aria-label="${this.t('captions')}"></select>
+                <select class="quality" aria-label="${this.t('quality')}"></select>
+                <select class="audio" aria-label="${this.t('audioTrack')}"></select>
+            `);
+
+            (options.querySelector('.captions') as HTMLSelectElement).addEventListener('change', function () {
+                self.setCaptionLanguage(this.value);
+            });
+
+            (options.querySelector('.quality') as HTMLSelectElement).addEventListener('change', function () {
+                self.setQuality(this.value);
+            });
+
+            (options.querySelector('.audio') as HTMLSelectElement).addEventListener('change', function () {
+                self.setAudioLanguage(this.value);
+            });
+
+            (this.controls || this.mainWrapper).appendChild(options);
+
+            return options;
+        }
+
+        /**
+         * Заполнить список выбора
+         *
+         * @param {HTMLSelectElement} select
+         * @param {Array<{value : string, label : string}>} choices - варианты
+         * @param {string} value - выбранное значение
+         */
+        protected static fillSelect(
+            select : HTMLSelectElement,
+            choices : Array<{value : string, label : string}>,
+            value : string
+        ) : void {
+            select.textContent = '';
+            choices.forEach(function (choice) {
+                const option = document.createElement('option');
+                option.value = choice.value;
+                option.textContent = choice.label;
+                select.appendChild(option);
+            });
+
+            select.value = value;
+            select.style.display = choices.length > 1 ? '' : 'none';
+        }
+
+        /**
+         * Обновить блок выбора субтитров, качества и звуковой дорожки для текущего видео
+         */
+        protected updateMediaOptions() : void {
+            const media = this.media,
+                current = this.current,
+                item : IPlayerItem | null = current ? this.getItem(current) : null;
+
+            this.mediaOptions.style.display = media instanceof HTMLVideoElement ? '' : 'none';
+            if (!media || !item) {
+                return;
+            }
+
+            Player.fillSelect(
+                this.mediaOptions.querySelector('.captions') as HTMLSelectElement,
+                (item.tracks || []).length
+                    ? [{value: '', label: this.t('captionsOff')}].concat((item.tracks || []).map(function (track : IPlayerTrack) {
+                        return {value: track.language, label: track.label || track.language};
+                    }))
+                    : [],
+                this.mediaState.captionLanguage
+            );
+
+            Player.fillSelect(
+                this.mediaOptions.querySelector('.quality') as HTMLSelectElement,
+                (item.sources || []).filter(source => source.quality).map(function (source : IPlayerSource) {
+                    return {value: source.quality as string, label: source.quality as string};
+                }),
+                VideoRenderer.getQuality(media as HTMLVideoElement)
+            );
+
+            const audioTracks : any[] = media['audioTracks'] ? Array.from(media['audioTracks']) : [];
+            Player.fillSelect(
+                this.mediaOptions.querySelector('.audio') as HTMLSelectElement,
+                audioTracks.map(function (track : any) {
+                    return {value: track.language, label: track.label || track.language};
+                }),
+                (audioTracks.find(track => track.enabled) || {language: ''}).language
+            );
+        }
+
+        /**
+         * Включить субтитры на заданном языке для всех видео плеера
+         *
+         * @param {string} language - код языка, пустая строка - без субтитров
+         */
+        public setCaptionLanguage(language : string) : void {
+            this.mediaState.captionLanguage = language;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Выбрать качество видео для всех видео плеера
+         *
+         * @param {string} quality - метка качества источника, например 720p
+         */
+        public setQuality(quality : string) : void {
+            this.mediaState.quality = quality;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Выбрать язык звуковой дорожки для всех видео плеера
+         *
+         * @param {string} language - код языка
+         */
+        public setAudioLanguage(language : string) : void {
+            this.mediaState.audioLanguage = language;
+
+            const media = this.media;
+            media && this.applyMediaState(media);
+            this.updateControls();
+        }
+
+        /**
+         * Выбранное качество видео
+         *
+         * @returns {string}
+         */
+        get quality() : string {
+            return this.mediaState.quality;
+        }
+
+        /**
+         * Обновить панель управления видео
+         */
+        protected updateControls() : void {
+            this.updateMediaOptions();
+
+            if (!this.controls) {
+                return;
+            }
+
+            const media = this.media;
+            this.controls.style.display = media ? '' : 'none';
+            if (!media) {
+                return;
+            }
+
+            const play = this.controls.querySelector('.play') as HTMLButtonElement,
+                seek = this.controls.querySelector('.seek') as HTMLInputElement,
+                mute = this.controls.querySelector('.mute') as HTMLButtonElement,
+                duration : number = isFinite(media.duration) ? media.duration : 0;
+
+            play.textContent = media.paused ? 'play_arrow' : 'pause';
+            play.setAttribute('aria-label', this.t(media.paused ? 'play' : 'pause'));
+            seek.max = duration.toString();
+            seek.value = media.currentTime.toString();
+            (this.controls.querySelector('.time') as HTMLSpanElement).textContent
+                = `${Player.formatTime(media.currentTime)} / ${Player.formatTime(duration)}`;
+            mute.textContent = this.mediaState.muted || !this.mediaState.volume ? 'volume_off' : 'volume_up';
+            mute.setAttribute('aria-label', this.t(this.mediaState.muted ? 'unmute' : 'mute'));
+            (this.controls.querySelector('.volume') as HTMLInputElement).value
+                = (this.mediaState.muted ? 0 : this.mediaState.volume).toString();
+            (this.controls.querySelector('.rate') as HTMLSelectElement).value = this.mediaState.playbackRate.toString();
+        }
+
+        /**
+         * Запомнить позицию воспроизведения элемента, чтобы продолжить с нее при возврате
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        protected savePosition(item : HTMLSpanElement, media : HTMLMediaElement) : void {
+            if (!this.resume) {
+                return;
+            }
+
+            if (media.ended || media.currentTime < 1) {
+                this.playbackPositions.delete(item);
+                return;
+            }
+
+            this.playbackPositions.set(item, media.currentTime);
+        }
+
+        /**
+         * Продолжить воспроизведение элемента с сохраненной позиции
+         *
+         * @param {HTMLSpanElement} item - превью
+         * @param {HTMLMediaElement} media - медиа-элемент
+         */
+        protected restorePosition(item : HTMLSpanElement, media : HTMLMediaElement) : void {
+            const time : number | undefined = this.playbackPositions.get(item);
+            if (!this.resume || time === undefined) {
+                return;
+            }
+
+            // позиция восстанавливается один раз: повторный выбор текущего элемента не перематывает его назад
+            this.playbackPositions.delete(item);
+
+            Player.seekWhenReady(media, time);
+        }
+
+        /**
+         * Перемотать медиа-элемент, как только станет известна его длительность
+         *
+         * @param {HTMLMediaElement} media
+         * @param {number} time - время в секундах
+         */
+        protected static seekWhenReady(media : HTMLMediaElement, time : number) : void {
+            if (media.readyState >= 1) {
+                media.currentTime = time;
+                return;
+            }
+
+            media.addEventListener('loadedmetadata', function restore() {
+                media.removeEventListener('loadedmetadata', restore);
+                media.currentTime = time;
+            });
+        }
+
+        /**
+         * Индекс элемента, который воспроизводится после текущего в непрерывном режиме
+         *
+         * @returns {number} - индекс или -1, если воспроизведение нужно остановить
+         */
+        protected nextPlaybackIndex() : number {
+            const index : number = this.currentIndex,
+                count : number = this.images.length;
+
+            if (this.repeat === 'one') {
+                return index;
+            }
+
+            if (this.shuffle && count > 1) {
+                const self = this,
+                    current = this.current;
+
+                let queue : HTMLSpanElement[] = (this.shuffleQueue || []).filter(function (image : HTMLSpanElement) {
+                    return image !== current && self.images.indexOf(image) !== -1;
+                });
+                if (!this.shuffleQueue || (!queue.length && this.repeat === 'all')) {
+                    queue = Player.shuffled(this.images.filter(image => image !== current));
+                }
+
+                this.shuffleQueue = queue;
+
+                return queue.length ? this.images.indexOf(queue[0]) : -1;
+            }
+
+            if (index + 1 < count) {
+                return index + 1;
+            }
+
+            return this.repeat === 'all' && count ? 0 : -1;
+        }
+
+        /**
+         * Перемешать элементы массива
+         *
+         * @param {Array} items - элементы
+         *
+         * @returns {Array} - новый массив в случайном порядке
+         */
+        protected static shuffled<T>(items : T[]) : T[] {
+            const result : T[] = items.slice();
+            for (let i = result.length - 1; i > 0; i--) {
+                const j : number = Math.floor(Math.random() * (i + 1));
+                [result[i], result[j]] = [result[j], result[i]];
+            }
+
+            return result;
+        }
+
+        /**
+         * Обработать окончание воспроизведения
+         */
+        protected onMediaEnded() : void {
+            const current = this.current;
+            current && this.playbackPositions.delete(current);
+
+            const primed : number = this.primedItem ? this.images.indexOf(this.primedItem) : -1,
+                index : number = primed !== -1 ? primed : this.nextPlaybackIndex(),
+                next : HTMLSpanElement | undefined = this.images[index];
+
+            if (
+                this.gapless
+                && index !== this.currentIndex
+                && this.media instanceof HTMLAudioElement
+                && next && next.dataset.renderer === 'audio'
+            ) {
+                const started : HTMLElement | null = this.primedElement
+                    && this.primedElement.classList.contains('gapless') ? this.primedElement : null;
+                if (!started) {
+                    this.advance(index);
+                    return;
+                }
+
+                // следующее аудио уже играет: оно только выбирается, а скрытие остальных блоков его не останавливает
+                this.primedElement = null;
+                this.cancelAutoplay();
+                this.select(index);
+                started.classList.remove('gapless');
+                this.updateMediaSession();
+                return;
+            }
+
+            if (index === -1) {
+                this.shuffleQueue = null;
+            }
+
+            if (!this.continuous || index === -1) {
+                return;
+            }
+
+            if (index === this.currentIndex) {
+                this.seek(0);
+                this.play().catch(function () {});
+                return;
+            }
+
+            this.autoplayCountdown ? this.startCountdown(index) : this.advance(index);
+        }
+
+        /**
+         * Незадолго до конца аудио выбрать следующий элемент плейлиста и, если это аудио,
+         * начать его полную загрузку, чтобы переход к нему не ждал загрузки
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        protected primeNextAudio(media : HTMLAudioElement) : void {
+            if (
+                !this.gapless
+                || this.primedItem
+                || !isFinite(media.duration)
+                || media.duration - media.currentTime > Player.audioPrimeLead
+            ) {
+                return;
+            }
+
+            const index : number = this.nextPlaybackIndex(),
+                next : HTMLSpanElement | undefined = this.images[index];
+            if (index === this.currentIndex || !next || next.dataset.renderer !== 'audio') {
+                return;
+            }
+
+            this.primedItem = next;
+
+            const element : HTMLElement | null = this.preloadItem(next),
+                audio : HTMLMediaElement | null = element ? Player.mediaOf(element) : null;
+            this.primedElement = audio ? element : null;
+            if (audio && audio.readyState < HTMLMediaElement.HAVE_ENOUGH_DATA) {
+                audio.preload = 'auto';
+                audio.load();
+            }
+        }
+
+        /**
+         * Перед самым концом аудио запланировать запуск заранее загруженного следующего так,
+         * чтобы он начался, когда закончится текущее. Элемент с сохраненной позицией (опция resume)
+         * заранее не запускается: он продолжится с места остановки после перехода
+         *
+         * @param {HTMLAudioElement} media - воспроизводимое аудио
+         */
+        protected scheduleGapless(media : HTMLAudioElement) : void {
+            const self = this,
+                element : HTMLElement | null = this.primedElement,
+                item : HTMLSpanElement | null = this.primedItem;
+            if (
+                !element
+                || !item
+                || this.gaplessTimer
+                || element.classList.contains('gapless')
+                || media.paused
+                || !isFinite(media.duration)
+                || this.playbackPositions.has(item)
+            ) {
+                return;
+            }
+
+            const remaining : number = (media.duration - media.currentTime) / (media.playbackRate || 1);
+            if (remaining > Player.gaplessLead) {
+                return;
+            }
+
+            this.gaplessTimer = window.setTimeout(function () {
+                const audio : HTMLMediaElement | null = Player.mediaOf(element);
+
+                self.gaplessTimer = 0;
+                if (
+                    !audio
+                    || self.primedElement !== element
+                    || !element.isConnected
+                    || self.media !== media
+                    || media.paused && !media.ended
+                ) {
+                    return;
+                }
+
+                element.classList.add('gapless');
+                audio.currentTime = 0;
+                self.applyMediaState(audio);
+                audio.play().catch(function () {
+                    // браузер запретил воспроизведение: переход произойдет обычным образом
+                    element.classList.remove('gapless');
+                });
+            }, Math.max(0, remaining * 1000));
+        }
+
+        /**
+         * Отменить запланированный запуск следующего аудио и остановить уже запущенное
+         */
+        protected cancelGapless() : void {
+            clearTimeout(this.gaplessTimer);
+            this.gaplessTimer = 0;
+
+            const element : HTMLElement | null = this.primedElement,
+                audio : HTMLMediaElement | null = element ? Player.mediaOf(element) : null;
+            if (element && audio && element.classList.contains('gapless')) {
+                element.classList.remove('gapless');
+                audio.pause();
+                audio.currentTime = 0;
+            }
+        }
+
+        /**
+         * Перейти к элементу и начать его воспроизведение
+         *
+         * @param {number} index - индекс элемента
+         */
+        protected advance(index : number) : void {
+            this.cancelAutoplay();
+            if (this.select(index)) {
+                this.play().catch(function () {
+                    // браузер запретил автовоспроизведение
+                });
+            }
+        }
+
+        /**
+         * Показать обратный отсчет до перехода к следующему элементу
+         *
+         * @param {number} index - индекс следующего элемента
+         */
+        protected startCountdown(index : number) : void {
+            const self = this,
+                item : HTMLSpanElement = this.images[index],
+                overlay = document.createElement('div'),
+                message = document.createElement('p'),
+                playNow = document.createElement('button'),
+                cancel = document.createElement('button');
+            let seconds : number = this.autoplayCountdown;
+
+            this.cancelAutoplay();
+
+            const update = function () {
+                message.textContent = self.t('autoplayNext', {seconds: seconds, title: item.title});
+            };
+
+            overlay.classList.add('autoplay-overlay');
+            overlay.setAttribute('role', 'alert');
+            playNow.type = cancel.type = 'button';
+            playNow.classList.add('autoplay-now');
+            playNow.textContent = this.t('playNow');
+            cancel.classList.add('autoplay-cancel');
+            cancel.textContent = this.t('cancel');
+            overlay.append(message, playNow, cancel);
+            update();
+
+            playNow.addEventListener('click', function () {
+                self.advance(index);
+            });
+
+            cancel.addEventListener('click', function () {
+                self.cancelAutoplay();
+            });
+
+            this.mainWrapper.appendChild(overlay);
+            this.autoplayOverlay = overlay;
+            this.autoplayTimer = setInterval(function () {
+                seconds--;
+                seconds > 0 ? update() : self.advance(index);
+            }, 1000);
+        }
+
+        /**
+         * Отменить автоматический переход к следующему элементу
+         */
+        public cancelAutoplay() : void {
+            clearInterval(this.autoplayTimer);
+            this.autoplayTimer = 0;
+
+            this.autoplayOverlay && this.autoplayOverlay.remove();
+            this.autoplayOverlay = null;
+        }
+
+        /**
+         * Плеер, элементы которого сейчас управляются через Media Session API
+         */
+        protected static mediaSessionOwner : Player | null = null;
+
+        /**
+         * Действия Media Session API, которые обрабатывает плеер
+         */
+        protected static mediaSessionActions : MediaSessionAction[] = ['play', 'pause', 'previoustrack', 'nexttrack', 'seekto'];
+
+        /**
+         * Передать браузеру данные воспроизводимого элемента и обработчики кнопок экрана блокировки
+         */
+        protected updateMediaSession() : void {
+            const self = this,
+                session = navigator['mediaSession'],
+                current = this.current;
+            if (!this.mediaSession || !session || !current) {
+                return;
+            }
+
+            const item : IPlayerItem | null = this.getItem(current),
+                MediaMetadataClass = window['MediaMetadata'];
+
+            if (MediaMetadataClass) {
+                session.metadata = new MediaMetadataClass({
+                    title: item && item.title || current.title,
+                    artist: item && item.artist || '',
+                    album: item && item.album || '',
+                    artwork: current.dataset.src ? [{src: new URL(current.dataset.src, document.baseURI).href}] : []
+                });
+            }
+
+            const handlers : {[action : string] : (details : any) => void} = {
+                play: function () {
+                    self.play().catch(function () {});
+                },
+                pause: function () {
+                    self.pause();
+                },
+                previoustrack: function () {
+                    self.prev() && self.play().catch(function () {});
+                },
+                nexttrack: function () {
+                    self.next() && self.play().catch(function () {});
+                },
+                seekto: function (details : any) {
+                    self.seek(details.seekTime);
+                }
+            };
+
+            Player.mediaSessionActions.forEach(function (action : MediaSessionAction) {
+                try {
+                    session.setActionHandler(action, handlers[action]);
+                } catch (e) {
+                    // действие не поддерживается браузером
+                }
+            });
+
+            Player.mediaSessionOwner = this;
+        }
+
+        /**
+         * Убрать данные и обработчики Media Session API, если их установил этот плеер
+         */
+        protected clearMediaSession() : void {
+            const session = navigator['mediaSession'];
+            if (!session || Player.mediaSessionOwner !== this) {
+                return;
+            }
+
+            session.metadata = null;
+            Player.mediaSessionActions.forEach(function (action : MediaSessionAction) {
+                try {
+                    session.setActionHandler(action, null);
+                } catch (e) {
+                    // действие не поддерживается браузером
+                }
+            });
+
+            Player.mediaSessionOwner = null;
+        }
+
+        /**
+         * Получить ссылку на просмотр документа через сервис конвертации
+         *
+         * @param {string} src - ссылка на документ
+         * @param {string} type - формат документа
+         *
+         * @returns {string | null}
+         */
+        public getDocumentUrl(src : string, type : string) : string | null {
+            if (typeof this.documentConverter === 'function') {
+                return this.documentConverter(src, type);
+            }
+
+            if (!this.documentConverter) {
+                return null;
+            }
+
+            return this.documentConverter
+                .replace(/{src}/g, encodeURIComponent(new URL(src, document.location.href).href))
+                .replace(/{type}/g, encodeURIComponent(type));
+        }
+
+        /**
+         * Открыт ли лайтбокс
+         *
+         * @returns {boolean}
+         */
+        get lightboxOpen() : boolean {
+            return this.mainWrapper.classList.contains('lightbox');
+        }
+
+        /**
+         * Открыть блок просмотра в лайтбоксе поверх страницы с переходом по тем же элементам
+         */
+        public openLightbox() : void {
+            if (this.lightboxOpen) {
+                return;
+            }
+
+            if (!this.mainWrapper.querySelector('.lightbox-controls')) {
+                const self = this,
+                    controls = document.createElement('div');
+
+                controls.classList.add('lightbox-controls');
+                controls.insertAdjacentHTML('beforeend', `
+                    <button type="button" class="lightbox-prev material-icons" aria-label="${this.t('previous')}">chevron_left</button>
+                    <button type="button" class="lightbox-next material-icons" aria-label="${this.t('next')}">chevron_right</button>
+                    <button type="button" class="lightbox-close material-icons" aria-label="${this.t('close')}">close</button>
+                `);
+
+                (controls.querySelector('.lightbox-prev') as HTMLButtonElement).addEventListener('click', function () {
+                    self.prev();
+                });
+
+                (controls.querySelector('.lightbox-next') as HTMLButtonElement).addEventListener('click', function () {
+                    self.next();
+                });
+
+                (controls.querySelector('.lightbox-close') as HTMLButtonElement).addEventListener('click', function () {
+                    self.closeLightbox();
+                });
+
+                this.mainWrapper.appendChild(controls);
+            }
+
+            this.mainWrapper.classList.add('lightbox');
+            this.mainWrapper.setAttribute('role', 'dialog');
+            this.mainWrapper.setAttribute('aria-modal', 'true');
+            document.body.classList.add('player-lightbox-open');
+        }
+
+        /**
+         * Закрыть лайтбокс
+         */
+        public closeLightbox() : void {
+            if (!this.lightboxOpen) {
+                return;
+            }
+
+            this.mainWrapper.classList.remove('lightbox');
+            this.mainWrapper.removeAttribute('role');
+            this.mainWrapper.removeAttribute('aria-modal');
+            document.querySelector('.player .lightbox') || document.body.classList.remove('player-lightbox-open');
+        }
+
+        /**
+         * Управление открытым лайтбоксом с клавиатуры: Escape закрывает, стрелки переключают элементы
+         */
+        protected setLightboxKeyboard() : void {
+            const self = this;
+            this.listen(document, 'keydown', function (e : KeyboardEvent) {
+                if (!self.lightboxOpen || e.defaultPrevented) {
+                    return;
+                }
+
+                switch (self.logicalKey(e.key)) {
+                    case 'Escape':
+                        self.closeLightbox();
+                        break;
+                    case 'ArrowLeft':
+                        self.prev();
+                        break;
+                    case 'ArrowRight':
+                        self.next();
+                        break;
+                    default:
+                        return;
+                }
+
+                e.preventDefault();
+            });
+        }
+
+        /**
+         * Добавить кнопку полноэкранного режима
+         */
+        public addFullScreenButton() : void {
+            if (!this.fullscreenButtonAdded) {
+                const self = this;
+                let button = document.createElement('button');
+                button.classList.add('fullscreen');
+                button.type = 'button';
+                button.setAttribute('aria-label', this.t('fullscreen'));
+                this.mainWrapper.append(button);
+                button.addEventListener('click', function () {
+                    self.toggleFullscreen();
+                });
+                this.fullscreenButtonAdded = true;
+            }
+        }
+
+        /**
+         * Элемент, находящийся в полноэкранном режиме браузера
+         *
+         * @returns {Element | null}
+         */
+        protected static fullscreenElement() : Element | null {
+            return document.fullscreenElement || document['webkitFullscreenElement'] || document['mozFullScreenElement'] || null;
+        }
+
+        /**
+         * Находится ли плеер в полноэкранном режиме, в том числе в CSS-имитации
+         *
+         * @returns {boolean}
+         */
+        get fullscreen() : boolean {
+            return Player.fullscreenElement() === this.playerElement
+                || this.playerElement.classList.contains('pseudo-fullscreen');
+        }
+
+        /**
+         * Развернуть плеер (блок просмотра вместе с превью) на весь экран.
+         * Если браузер не поддерживает полноэкранный режим или отказал в нем, режим имитируется стилями
+         *
+         * @returns {Promise<void>}
+         */
+        public enterFullscreen() : Promise<void> {
+            if (this.fullscreen) {
+                return Promise.resolve();
+            }
+
+            const self = this,
+                element : HTMLElement = this.playerElement,
+                request : Function | undefined = element.requestFullscreen
+                    || element['webkitRequestFullscreen']
+                    || element['mozRequestFullScreen'];
+
+            if (!request) {
+                this.setPseudoFullscreen(true);
+                return Promise.resolve();
+            }
+
+            return Promise.resolve(request.call(element)).catch(function () {
+                self.setPseudoFullscreen(true);
+            });
+        }
+
+        /**
+         * Выйти из полноэкранного режима
+         *
+         * @returns {Promise<void>}
+         */
+        public exitFullscreen() : Promise<void> {
+            if (this.playerElement.classList.contains('pseudo-fullscreen')) {
+                this.setPseudoFullscreen(false);
+                return Promise.resolve();
+            }
+
+            if (Player.fullscreenElement() !== this.playerElement) {
+                return Promise.resolve();
+            }
+
+            const exit : Function | undefined = document.exitFullscreen
+                || document['webkitExitFullscreen']
+                || document['mozCancelFullScreen'];
+
+            return Promise.resolve(exit ? exit.call(document) : undefined);
+        }
+
+        /**
+         * Переключить полноэкранный режим
+         *
+         * @returns {Promise<void>}
+         */
+        public toggleFullscreen() : Promise<void> {
+            return this.fullscreen ? this.exitFullscreen() : this.enterFullscreen();
+        }
+
+        /**
+         * Включить или выключить CSS-имитацию полноэкранного режима
+         *
+         * @param {boolean} active
+         */
+        protected setPseudoFullscreen(active : boolean) : void {
+            this.playerElement.classList.toggle('pseudo-fullscreen', active);
+            active
+                ? document.body.classList.add('player-fullscreen-open')
+                : document.querySelector('.player.pseudo-fullscreen') || document.body.classList.remove('player-fullscreen-open');
+
+            this.onFullscreenChange();
+        }
+
+        /**
+         * Сообщить об изменении полноэкранного режима, если он действительно изменился
+         */
+        protected onFullscreenChange() : void {
+            const fullscreen : boolean = this.fullscreen;
+            if (fullscreen === this.fullscreenActive) {
+                return;
+            }
+
+            this.fullscreenActive = fullscreen;
+            this.playerElement.classList.toggle('fullscreen-active', fullscreen);
+
+            const current : HTMLSpanElement | null = this.current;
+            this.emit(
+                'fullscreenchange',
+                current,
+                current ? this.images.indexOf(current) : -1,
+                {
+                    fullscreen: fullscreen,
+                    pseudo: this.playerElement.classList.contains('pseudo-fullscreen')
+                }
+            );
+        }
+
+        /**
+         * Отслеживание полноэкранного режима браузера и выход из имитации по Escape
+         */
+        protected setFullscreen() : void {
+            const self = this;
+
+            ['fullscreenchange', 'webkitfullscreenchange', 'mozfullscreenchange'].forEach(function (type : string) {
+                self.listen(document, type, function () {
+                    self.onFullscreenChange();
+                });
+            });
+
+            this.listen(document, 'keydown', function (e : KeyboardEvent) {
+                if (e.key !== 'Escape' || e.defaultPrevented || !self.playerElement.classList.contains('pseudo-fullscreen')) {
+                    return;
+                }
+
+                e.preventDefault();
+                self.exitFullscreen();
+            });
+
+            this.addFullScreenButton();
+        }
+
+        protected setImageClick() : void {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e) {
+                let target = e.target as HTMLElement;
+                if (!target.matches('.img')) {
+                    return;
+                }
+
+                e.stopPropagation();
+
+                self.select(target);
+            });
+        }
+
+        protected setDeleteClick() : void {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e) {
+
+                e.stopPropagation();
+                let target = e.target as HTMLElement;
+                if (!target.matches('.img > i')) {
+                    return;
+                }
+
+                self.removeItem(target.parentNode as HTMLSpanElement);
+            });
+        }
+
+        /**
+         * Удалить элемент по действию пользователя, предварительно перейдя к соседнему
+         *
+         * @param {HTMLSpanElement} element - удаляемый элемент
+         */
+        protected removeItem(element : HTMLSpanElement) : void {
+            const index = this.images.indexOf(element);
+            if (this.images[index + 1] !== undefined) {
+                this.select(index + 1);
+            } else if (this.images[index - 1]) {
+                this.select(index - 1);
+            }
+
+            this.deleteItem(element);
+        }
+
+        /**
+         * Сделать элемент единственным элементом ленты превью, доступным по клавише Tab
+         *
+         * @param {HTMLSpanElement} item
+         */
+        protected setFocusable(item : HTMLSpanElement) : void {
+            this.images.forEach(function (image : HTMLSpanElement) {
+                image.tabIndex = image === item ? 0 : -1;
+            });
+        }
+
+        /**
+         * Клавиша с учетом направления ленты: в ленте справа налево стрелки влево и вправо меняются местами
+         *
+         * @param {string} key - нажатая клавиша
+         *
+         * @returns {string}
+         */
+        protected logicalKey(key : string) : string {
+            if (!this.rtl) {
+                return key;
+            }
+
+            return key === 'ArrowLeft' ? 'ArrowRight' : key === 'ArrowRight' ? 'ArrowLeft' : key;
+        }
+
+        /**
+         * Управление лентой превью с клавиатуры
+         */
+        protected setKeyboard() : void {
+            const self = this;
+            this.imageWrapper.addEventListener('keydown', function (e : KeyboardEvent) {
+                const target = e.target as HTMLElement;
+                if (!target.matches('.img')) {
+                    return;
+                }
+
+                let index : number = self.images.indexOf(target);
+
+                switch (self.logicalKey(e.key)) {
+                    case 'ArrowRight':
+                        index = Math.min(index + self.rows(), self.images.length - 1);
+                        break;
+
+                    case 'ArrowDown':
+                        index = Math.min(index + 1, self.images.length - 1);
+                        break;
+
+                    case 'ArrowLeft':
+                        index = Math.max(index - self.rows(), 0);
+                        break;
+
+                    case 'ArrowUp':
+                        index = Math.max(index - 1, 0);
+                        break;
+
+                    case 'Home':
+                        index = 0;
+                        break;
+
+                    case 'End':
+                        index = self.images.length - 1;
+                        break;
+
+                    case 'Enter':
+                    case ' ':
+                        e.preventDefault();
+                        self.select(target);
+                        return;
+
+                    case 'Delete':
+                        e.preventDefault();
+                        self.removeItem(target);
+                        self.current && self.current.focus();
+                        return;
+
+                    default:
+                        return;
+                }
+
+                e.preventDefault();
+
+                if (e.ctrlKey && self.reorderable) {
+                    const from : number = self.images.indexOf(target);
+                    if (from !== index) {
+                        self.moveItem(from, index);
+                        self.announce(self.t('itemMoved', {
+                            title: target.getAttribute('aria-label') || '',
+                            position: index + 1,
+                            total: self.images.length
+                        }));
+                    }
+
+                    self.ensureVisible(index);
+                    self.renderStrip();
+                    target.focus();
+                    return;
+                }
+
+                const item : HTMLSpanElement | undefined = self.images[index];
+                if (item) {
+                    self.setFocusable(item);
+                    self.ensureVisible(index);
+                    self.renderStrip();
+                    item.focus();
+                }
+            });
+        }
+
+        /**
+         * Озвучить текст экранными дикторами
+         *
+         * @param {string} text
+         */
+        protected announce(text : string) : void {
+            this.statusElement.textContent = text;
+        }
+
+        protected setScroll() : void {
+            const self = this;
+            this.imageWrapper.addEventListener('click', function (e : MouseEvent) {
+
+                if (!(e.target as HTMLElement).matches('.' + self.imageWrapperClass)) {
+                    return;
+                }
+
+                let offset : number = e['detail'] && e['detail']['offset'] !== undefined
+                    ? e.detail['offset']
+                    : self.pointerOffset(e);
+
+                if (!self.images.length || self.maxScroll() <= 0) {
+                    return;
+                }
+
+                if (offset <= self.scrollButtonsWidth) {
+                    if (self.prevScroll > 0) {
+                        self.scrollTo(self.indexAt(self.prevScroll - 1));
+                    }
+                } else if (offset >= self.viewSize() - self.scrollButtonsWidth) {
+                    if (self.prevScroll < self.maxScroll()) {
+                        self.scrollTo(self.indexAt(self.prevScroll) + 1);
+                    }
+                }
+            });
+
+            this.imageWrapper.addEventListener('wheel', function (e : WheelEvent) {
+                e.preventDefault();
+                if (this['disabled']) {
+                    return;
+                }
+
+                if (e.deltaY < 0) {
+                    this.dispatchEvent(new CustomEvent('click', {detail: {offset: 0}}));
+                    return;
+                }
+
+                this.dispatchEvent(new CustomEvent('click', {detail: {offset: self.viewSize()}}));
+            });
+        }
+
+        /**
+         * Пересчитать смещения превью в ленте
+         */
+        protected measure() : void {
+            const self = this,
+                rows : number = this.rows();
+            let offset : number = 0,
+                column : number = 0;
+
+            this.offsets = this.images.map(function (span : HTMLSpanElement, index : number) {
+                if (index && index % rows === 0) {
+                    offset += column;
+                    column = 0;
+                }
+
+                column = Math.max(column, self.itemSize(span));
+
+                return offset;
+            });
+
+            this.offsets.push(offset + column);
+        }
+
+        /**
+         * Вертикальная ли лента превью
+         *
+         * @returns {boolean}
+         */
+        protected get vertical() : boolean {
+            return this.layout === 'vertical';
+        }
+
+        /**
+         * Количество рядов превью в ленте. В сетке превью идут по столбцам, и смещения хранятся для столбцов
+         *
+         * @returns {number}
+         */
+        protected rows() : number {
+            return this.layout === 'grid' ? this.gridRows : 1;
+        }
+
+        /**
+         * Размер видимой области ленты вдоль направления прокрутки
+         *
+         * @returns {number}
+         */
+        protected viewSize() : number {
+            return this.vertical ? this.imageWrapper.clientHeight : this.imageWrapper.clientWidth;
+        }
+
+        /**
+         * Координата указателя вдоль ленты от ее начала
+         *
+         * @param {MouseEvent} e - событие указателя
+         *
+         * @returns {number}
+         */
+        protected pointerOffset(e : MouseEvent) : number {
+            const rect : ClientRect = this.imageWrapper.getBoundingClientRect();
+            if (this.vertical) {
+                return e.clientY - rect.top;
+            }
+
+            return this.rtl ? rect.right - e.clientX : e.clientX - rect.left;
+        }
+
+        /**
+         * Размер превью вдоль ленты: измеренный или, если превью еще не отображалось, оценочный
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {number}
+         */
+        protected itemSize(span : HTMLSpanElement) : number {
+            const size : number | undefined = this.itemSizes.get(span);
+
+            return size !== undefined ? size : this.estimatedSize;
+        }
+
+        /**
+         * Измерить отображаемое превью
+         *
+         * @param {HTMLSpanElement} span
+         *
+         * @returns {boolean} - изменился ли размер превью
+         */
+        protected updateSize(span : HTMLSpanElement) : boolean {
+            const size : number = this.vertical ? span.offsetHeight : span.offsetWidth;
+            if (!size) {
+                return false;
+            }
+
+            this.estimatedSize = size;
+            if (this.itemSizes.get(span) === size) {
+                return false;
+            }
+
+            this.itemSizes.set(span, size);
+
+            return true;
+        }
+
+        /**
+         * Максимальное смещение ленты превью
+         *
+         * @returns {number}
+         */
+        protected maxScroll() : number {
+            return Math.max(0, (this.offsets[this.images.length] || 0) - this.viewSize());
+        }
+
+        /**
+         * Индекс превью, которое находится на заданном смещении ленты
+         *
+         * @param {number} scroll - смещение
+         *
+         * @returns {number}
+         */
+        protected indexAt(scroll : number) : number {
+            let index : number = 0;
+            while (index < this.images.length - 1 && this.offsets[index + 1] <= scroll) {
+                index++;
+            }
+
+            return index;
+        }
+
+        /**
+         * Отрисовать ленту превью: в документе находятся только превью рядом с видимой областью,
+         * а также текущее и доступное по Tab превью
+         *
+         * @param {number} from - начальное смещение ленты
+         * @param {number} to - конечное смещение ленты, если лента прокручивается
+         */
+        protected renderStrip(from : number = this.prevScroll, to : number = from) : void {
+            if (this.updating) {
+                return;
+            }
+
+            const self = this,
+                viewSize : number = this.viewSize(),
+                rows : number = this.rows(),
+                start : number = Math.min(from, to) - viewSize,
+                end : number = Math.max(from, to) + viewSize * 2;
+            let resized : boolean = false;
+
+            if (!this.estimatedSize && this.images.length) {
+                const first : HTMLSpanElement = this.images[0];
+                if (first.parentElement !== this.track) {
+                    this.track.appendChild(first);
+                    this.resizeObserver && this.resizeObserver.observe(first);
+                }
+
+                this.updateSize(first);
+            }
+
+            this.measure();
+
+            this.images.forEach(function (span : HTMLSpanElement, index : number) {
+                const offset : number = self.offsets[index],
+                    isNear : boolean = self.estimatedSize
+                        ? offset + self.itemSize(span) >= start && offset <= end
+                        : index === 0,
+                    isPinned : boolean = span.classList.contains('current')
+                        || span.classList.contains('dragging')
+                        || span.tabIndex === 0
+                        || span === document.activeElement;
+
+                if (!isNear && !isPinned) {
+                    if (span.parentElement === self.track) {
+                        self.resizeObserver && self.resizeObserver.unobserve(span);
+                        span.remove();
+                    }
+
+                    return;
+                }
+
+                if (span.parentElement !== self.track) {
+                    self.track.appendChild(span);
+                    self.resizeObserver && self.resizeObserver.observe(span);
+                    resized = self.updateSize(span) || resized;
+                }
+            });
+
+            resized && this.measure();
+
+            Array.from(this.track.children).forEach(function (span : HTMLSpanElement) {
+                const index : number = self.images.indexOf(span);
+                if (self.vertical) {
+                    span.style.top = self.offsets[index] + 'px';
+                } else {
+                    span.style[self.rtl ? 'right' : 'left'] = self.offsets[index] + 'px';
+                    rows > 1 && (span.style.top = `calc(var(--thumbnail-height) * ${index % rows})`);
+                }
+
+                span.setAttribute('aria-posinset', (index + 1).toString());
+                span.setAttribute('aria-setsize', self.images.length.toString());
+            });
+
+            this.updateDots();
+        }
+
+        /**
+         * Сдвинуть ленту превью
+         *
+         * @param {number} scroll - новое смещение
+         * @param {number} duration - длительность анимации
+         */
+        protected translateStrip(scroll : number, duration : number) : void {
+            const self = this;
+
+            this.renderStrip(this.prevScroll, scroll);
+
+            this.track.style.transition = duration ? `transform ${duration}ms` : 'none';
+            this.track.style.transform = this.vertical
+                ? `translateY(${-scroll}px)`
+                : `translateX(${this.rtl ? scroll : -scroll}px)`;
+            this.prevScroll = scroll;
+
+            if (this.stripTimer) {
+                clearTimeout(this.stripTimer);
+                this.stripTimer = 0;
+            }
+
+            if (duration) {
+                this.stripTimer = setTimeout(function () {
+                    self.stripTimer = 0;
+                    self.renderStrip();
+                }, duration);
+            }
+        }
+
+        /**
+         * Обработать изменение размеров ленты или превью
+         *
+         * @param {Element[]} targets - элементы, размеры которых изменились
+         */
+        protected resizeStrip(targets : Element[]) : void {
+            const self = this;
+
+            targets.forEach(function (target : Element) {
+                target !== self.imageWrapper && self.updateSize(target as HTMLSpanElement);
+            });
+
+            this.renderStrip();
+
+            if (this.prevScroll > this.maxScroll()) {
+                this.translateStrip(this.maxScroll(), 0);
+            }
+        }
+
+        /**
+         * Перетаскивание ленты превью указателем с инерцией и доводкой до ближайшего превью
+         */
+        protected setDrag() : void {
+            const self = this;
+            let pointerId : number | null = null,
+                start : number = 0,
+                startScroll : number = 0,
+                last : number = 0,
+                lastTime : number = 0,
+                velocity : number = 0;
+
+            this.imageWrapper.addEventListener('pointerdown', function (e : PointerEvent) {
+                if (pointerId !== null || !e.isPrimary || e.button !== 0 || (e.target as HTMLElement).matches('.img > i')) {
+                    return;
+                }
+
+                pointerId = e.pointerId;
+                start = last = self.pointerOffset(e);
+                lastTime = e.timeStamp;
+                startScroll = self.prevScroll;
+                velocity = 0;
+                self.dragged = false;
+            });
+
+            this.imageWrapper.addEventListener('pointermove', function (e : PointerEvent) {
+                if (e.pointerId !== pointerId || self.reordering || self.maxScroll() <= 0) {
+                    return;
+                }
+
+                const offset : number = self.pointerOffset(e),
+                    diff : number = offset - start;
+                if (!self.dragged) {
+                    if (Math.abs(diff) < self.dragThreshold) {
+                        return;
+                    }
+
+                    self.dragged = true;
+                    self.imageWrapper.setPointerCapture(e.pointerId);
+                }
+
+                if (e.timeStamp > lastTime) {
+                    velocity = (offset - last) / (e.timeStamp - lastTime);
+                }
+
+                last = offset;
+                lastTime = e.timeStamp;
+
+                self.translateStrip(Math.max(0, Math.min(startScroll - diff, self.maxScroll())), 0);
+            });
+
+            const release = function (e : PointerEvent) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+
+                pointerId = null;
+                if (!self.dragged || self.reordering) {
+                    return;
+                }
+
+                const target : number = Math.max(
+                    0,
+                    Math.min(self.prevScroll - velocity * self.dragInertia, self.maxScroll())
+                );
+                let position : number = self.indexAt(target);
+                if (self.images[position + 1] && self.offsets[position + 1] - target < target - self.offsets[position]) {
+                    position++;
+                }
+
+                self.scrollTo(position);
+            };
+
+            this.imageWrapper.addEventListener('pointerup', release);
+            this.imageWrapper.addEventListener('pointercancel', release);
+
+            this.imageWrapper.addEventListener('click', function (e : MouseEvent) {
+                if (self.dragged) {
+                    self.dragged = false;
+                    e.stopPropagation();
+                }
+            }, true);
+        }
+
+        /**
+         * Следить за размерами ленты и превью
+         */
+        protected setResize() : void {
+            const self = this;
+            if (window['ResizeObserver'] === undefined) {
+                this.listen(window, 'resize', function () {
+                    self.resizeStrip(self.images);
+                });
+
+                return;
+            }
+
+            this.resizeObserver = new window['ResizeObserver'](function (entries : Array<{target : Element}>) {
+                self.resizeStrip(entries.map(entry => entry.target));
+            }) as IResizeObserver;
+
+            this.resizeObserver.observe(this.imageWrapper);
+        }
+
+        /**
+         * Изменение порядка элементов перетаскиванием превью.
+         * Перетаскивание начинается, если удерживать превью reorderDelay миллисекунд, не сдвигая указатель
+         */
+        protected setReorder() : void {
+            const self = this;
+            let pointerId : number | null = null,
+                timer : number = 0,
+                item : HTMLSpanElement | null = null,
+                dropTarget : HTMLSpanElement | null = null,
+                startX : number = 0,
+                startY : number = 0;
+
+            const reset = function () {
+                clearTimeout(timer);
+                pointerId = null;
+                self.reordering = false;
+                if (item) {
+                    item.classList.remove('dragging');
+                    item.style.transform = '';
+                    item = null;
+                }
+
+                dropTarget && dropTarget.classList.remove('drop-target');
+                dropTarget = null;
+            };
+
+            this.imageWrapper.addEventListener('pointerdown', function (e : PointerEvent) {
+                const target = e.target as HTMLElement;
+                if (!self.reorderable || pointerId !== null || !e.isPrimary || e.button !== 0 || !target.matches('.img')) {
+                    return;
+                }
+
+                pointerId = e.pointerId;
+                startX = e.clientX;
+                startY = e.clientY;
+                timer = setTimeout(function () {
+                    item = target as HTMLSpanElement;
+                    self.reordering = true;
+                    self.dragged = true;
+                    self.imageWrapper.setPointerCapture(e.pointerId);
+                    item.classList.add('dragging');
+                }, self.reorderDelay);
+            });
+
+            this.imageWrapper.addEventListener('pointermove', function (e : PointerEvent) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+
+                if (!item) {
+                    if (Math.abs(e.clientX - startX) >= self.dragThreshold || Math.abs(e.clientY - startY) >= self.dragThreshold) {
+                        clearTimeout(timer);
+                        pointerId = null;
+                    }
+
+                    return;
+                }
+
+                item.style.transform = self.vertical
+                    ? `translateY(${e.clientY - startY}px)`
+                    : `translate(${e.clientX - startX}px, ${self.rows() > 1 ? e.clientY - startY : 0}px)`;
+
+                const target : HTMLSpanElement = self.images[self.indexAtPointer(e)];
+
+                if (target !== dropTarget) {
+                    dropTarget && dropTarget.classList.remove('drop-target');
+                    dropTarget = target !== item ? target : null;
+                    dropTarget && dropTarget.classList.add('drop-target');
+                }
+            });
+
+            this.imageWrapper.addEventListener('pointerup', function (e : PointerEvent) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+
+                const from : number = item ? self.images.indexOf(item) : -1,
+                    to : number = dropTarget ? self.images.indexOf(dropTarget) : -1;
+
+                reset();
+
+                if (from !== -1 && to !== -1) {
+                    self.moveItem(from, to);
+                }
+            });
+
+            this.imageWrapper.addEventListener('pointercancel', function (e : PointerEvent) {
+                e.pointerId === pointerId && reset();
+            });
+        }
+
+        /**
+         * Индекс превью под указателем
+         *
+         * @param {MouseEvent} e - событие указателя
+         *
+         * @returns {number}
+         */
+        protected indexAtPointer(e : MouseEvent) : number {
+            const index : number = this.indexAt(this.pointerOffset(e) + this.prevScroll),
+                rows : number = this.rows();
+            if (rows === 1) {
+                return index;
+            }
+
+            const rect : ClientRect = this.imageWrapper.getBoundingClientRect(),
+                row : number = Math.max(0, Math.min(Math.floor((e.clientY - rect.top) / (rect.height / rows)), rows - 1));
+
+            return Math.min(index - index % rows + row, this.images.length - 1);
+        }
+
+        /**
+         * Переместить элемент плеера
+         *
+         * @param {number} from - индекс перемещаемого элемента
+         * @param {number} to - новый индекс элемента
+         */
+        public moveItem(from : number, to : number) : void {
+            const item : HTMLSpanElement | undefined = this.images[from];
+            to = Math.max(0, Math.min(to, this.images.length - 1));
+            if (!item || from === to) {
+                return;
+            }
+
+            this.relocate(from, to);
+
+            this.emit('reorder', item, to, {
+                from: from,
+                order: this.images.map(function (span : HTMLSpanElement) {
+                    return {
+                        name: span.dataset.name,
+                        src: span.dataset.objectSrc || span.dataset.src
+                    };
+                })
+            });
+        }
+
+        /**
+         * Переставить элемент в ленте без отправки события
+         *
+         * @param {number} from - текущий индекс элемента
+         * @param {number} to - новый индекс элемента
+         */
+        protected relocate(from : number, to : number) : void {
+            const item : HTMLSpanElement = this.images.splice(from, 1)[0];
+            this.images.splice(to, 0, item);
+
+            this.renderStrip();
+            this.position = this.indexAt(this.prevScroll);
+            this.updateFields();
+        }
+
+        /**
+         * Переход к соседнему элементу горизонтальным свайпом по блоку просмотра
+         */
+        protected setSwipe() : void {
+            const self = this;
+            let pointerId : number | null = null,
+                startX : number = 0,
+                startY : number = 0;
+
+            this.mainWrapper.addEventListener('pointerdown', function (e : PointerEvent) {
+                if (!self.swipe || !e.isPrimary || e.pointerType === 'mouse') {
+                    return;
+                }
+
+                pointerId = e.pointerId;
+                startX = e.clientX;
+                startY = e.clientY;
+            });
+
+            this.mainWrapper.addEventListener('pointerup', function (e : PointerEvent) {
+                if (e.pointerId !== pointerId) {
+                    return;
+                }
+
+                pointerId = null;
+
+                const diffX : number = e.clientX - startX,
+                    diffY : number = e.clientY - startY;
+                if (Math.abs(diffX) < self.swipeThreshold || Math.abs(diffX) < Math.abs(diffY) * 2) {
+                    return;
+                }
+
+                (diffX < 0) !== self.rtl ? self.next() : self.prev();
+            });
+
+            this.mainWrapper.addEventListener('pointercancel', function () {
+                pointerId = null;
+            });
+        }
+
+        /**
+         * Прокрутить ленту превью так, чтобы элемент был виден целиком
+         *
+         * @param {number} index - индекс элемента
+         */
+        protected ensureVisible(index : number) : void {
+            const item : HTMLSpanElement | undefined = this.images[index];
+
+            this.measure();
+            if (!item || this.maxScroll() <= 0) {
+                return;
+            }
+
+            const viewSize : number = this.viewSize(),
+                offset : number = this.offsets[index] - this.prevScroll;
+
+            if (offset < 0) {
+                this.scrollTo(index);
+                return;
+            }
+
+            if (offset + this.itemSize(item) <= viewSize) {
+                return;
+            }
+
+            const target : number = this.offsets[index] + this.itemSize(item) - viewSize;
+            let position : number = this.indexAt(target);
+            if (this.offsets[position] < target) {
+                position++;
+            }
+
+            this.scrollTo(position);
+        }
+
+        /**
+         * Прокрутить ленту превью к элементу
+         *
+         * @param {number} index - индекс элемента
+         *
+         * @returns {number} - новое смещение ленты
+         */
+        public scrollTo(index : number) : number | undefined {
+            if (!this.images[index]) {
+                return;
+            }
+
+            this.measure();
+
+            const currentImage : HTMLSpanElement = this.images[index],
+                scroll : number = Math.min(this.offsets[index], this.maxScroll());
+
+            this.translateStrip(scroll, this.animationDuration);
+
+            this.position = index;
+
+            this.emit('scroll', currentImage, index, {scroll: scroll});
+
+            return scroll;
+        }
+
+        /**
+         * Конструктор
+         *
+         * @param {HTMLElement} element - на каком элементе загружается плеер
+         * @param {IPlayerOptions} cnf - объект конфигурации
+         */
+        public constructor(element : HTMLElement, cnf : IPlayerOptions = {}) {
+
+            const instance : Player | undefined = Player.instances.get(element);
+            if (instance) {
+                return instance;
+            }
+
+            Player.instances.set(element, this);
+            this.playerElement = element;
+            this.hadPlayerClass = element.classList.contains('player');
+            this.styleFilePath = (cnf.styleFilePath || Player.defaultOptions.styleFilePath) as string;
+            this.activate = !element.classList.contains('no-active');
+            this.mainWrapperClass = (cnf.mainWrapperClass || Player.defaultOptions.mainWrapperClass) as string;
+            this.imageWrapperClass = (cnf.imageWrapperClass || Player.defaultOptions.imageWrapperClass) as string;
+            this.scrollButtonsWidth = (cnf.scrollButtonsWidth || Player.defaultOptions.scrollButtonsWidth) as number;
+            this.scrollButtonsPadding
+                = (cnf.scrollButtonsPadding || Player.defaultOptions.scrollButtonsPadding) as number;
+            this.imageStopClass = (cnf.imageStopClass || Player.defaultOptions.imageStopClass) as string;
+            this.loop = (cnf.loop || Player.defaultOptions.loop) as boolean;
+            this.swipe = (cnf.swipe !== undefined ? cnf.swipe : Player.defaultOptions.swipe) as boolean;
+            this.dragThreshold = (cnf.dragThreshold || Player.defaultOptions.dragThreshold) as number;
+            this.swipeThreshold = (cnf.swipeThreshold || Player.defaultOptions.swipeThreshold) as number;
+            this.dragInertia
+                = (cnf.dragInertia !== undefined ? cnf.dragInertia : Player.defaultOptions.dragInertia) as number;
+            this.reorderable = (cnf.reorderable || Player.defaultOptions.reorderable) as boolean;
+            this.reorderDelay = (cnf.reorderDelay || Player.defaultOptions.reorderDelay) as number;
+            this.documentConverter = cnf.documentConverter || Player.defaultOptions.documentConverter || '';
+            this.videoControls = (cnf.videoControls || Player.defaultOptions.videoControls) as 'native' | 'custom';
+            this.continuous = (cnf.continuous || Player.defaultOptions.continuous) as boolean;
+            this.autoplayCountdown = (cnf.autoplayCountdown || Player.defaultOptions.autoplayCountdown) as number;
+            this.repeat = (cnf.repeat || Player.defaultOptions.repeat) as 'none' | 'all' | 'one';
+            this.shuffle = (cnf.shuffle || Player.defaultOptions.shuffle) as boolean;
+            this.resume = (cnf.resume || Player.defaultOptions.resume) as boolean;
+            this.gapless = (cnf.gapless !== undefined ? cnf.gapless : Player.defaultOptions.gapless) as boolean;
+            this.mediaSession = (
+                cnf.mediaSession !== undefined ? cnf.mediaSession : Player.defaultOptions.mediaSession
+            ) as boolean;
+            this.waveform = (cnf.waveform !== undefined ? cnf.waveform : Player.defaultOptions.waveform) as boolean;
+            this.imageViewer = (cnf.imageViewer || Player.defaultOptions.imageViewer) as string;
+            this.lazyThumbnails = (
+                cnf.lazyThumbnails !== undefined ? cnf.lazyThumbnails : Player.defaultOptions.lazyThumbnails
+            ) as boolean;
+            this.preload = (cnf.preload !== undefined ? cnf.preload : Player.defaultOptions.preload) as number;
+            this.cacheSize = (cnf.cacheSize !== undefined ? cnf.cacheSize : Player.defaultOptions.cacheSize) as number;
+            this.loadTimeout
+                = (cnf.loadTimeout !== undefined ? cnf.loadTimeout : Player.defaultOptions.loadTimeout) as number;
+            this.emptyTemplate = (cnf.emptyTemplate || Player.defaultOptions.emptyTemplate) as string;
+            this.observe = (cnf.observe || Player.defaultOptions.observe) as boolean;
+            this.i18n = (cnf.i18n || Player.defaultOptions.i18n) as IPlayerI18n;
+            this.titleLength = (cnf.titleLength || Player.defaultOptions.titleLength) as number;
+            this.locale = this.i18n.locale || document.documentElement.lang || 'ru';
+
+            const language : string = this.locale.split('-')[0].toLowerCase();
+            this.messages = Object.assign({}, Player.messages[language] || Player.messages.ru, this.i18n.messages);
+            this.rtl = this.i18n.direction === 'rtl' || (
+                this.i18n.direction !== 'ltr'
+                && (window.getComputedStyle(element).direction === 'rtl' || Player.rtlLanguages.indexOf(language) !== -1)
+            );
+            this.emptyPlayerImage = element.querySelector(`img.${this.imageStopClass}`);
+
+            this.deepLink = (cnf.deepLink || Player.defaultOptions.deepLink) as 'none' | 'hash' | 'query';
+            this.deepLinkKey = cnf.deepLinkKey || element.id || (this.deepLink === 'none' ? 'player' : Player.unnamedLinkKey());
+            this.editable = (cnf.editable || Player.defaultOptions.editable) as boolean;
+            this.accept = (cnf.accept !== undefined ? cnf.accept : Player.defaultOptions.accept) as string;
+            this.uploader = cnf.uploader;
+            this.formField = (cnf.formField || Player.defaultOptions.formField) as string;
+            this.layout = (cnf.layout || Player.defaultOptions.layout) as 'horizontal' | 'vertical' | 'grid' | 'dots' | 'hidden';
+            this.gridRows = Math.max(1, (cnf.gridRows || Player.defaultOptions.gridRows) as number);
+            this.thumbnailWidth = (cnf.thumbnailWidth || Player.defaultOptions.thumbnailWidth) as string;
+            this.thumbnailHeight = (cnf.thumbnailHeight || Player.defaultOptions.thumbnailHeight) as string;
+            element.classList.add('player');
+            this.rtl && element.classList.add('rtl');
+
+            element.insertAdjacentHTML('beforeend', `<div class="${this.mainWrapperClass}"></div>`);
+            element.insertAdjacentHTML(
+                'beforeend',
+                `<div class="${this.imageWrapperClass}"><div class="track"></div></div>`
+            );
+
+            this.imageWrapper = element.querySelector(`.${this.imageWrapperClass}`) as HTMLDivElement;
+            this.mainWrapper = element.querySelector(`.${this.mainWrapperClass}`) as HTMLDivElement;
+            this.track = this.imageWrapper.querySelector('.track') as HTMLDivElement;
+
+            if (this.videoControls === 'custom') {
+                this.controls = this.createControls();
+            }
+
+            this.mediaOptions = this.createMediaOptions();
+            this.updateControls();
+
+            this.emptyElement = this.createEmptyState();
+            this.errorElement = this.createErrorState();
+
+            this.imageWrapper.classList.add(this.uniq);
+            this.imageWrapper.setAttribute('role', 'listbox');
+            this.imageWrapper.setAttribute('aria-orientation', this.vertical ? 'vertical' : 'horizontal');
+            this.imageWrapper.setAttribute('aria-label', this.t('itemList'));
+
+            this.statusElement = Utils.GoodFuncs.createElementWithAttrs(
+                'div',
+                {
+                    'class': 'player-status',
+                    'role': 'status',
+                    'aria-live': 'polite'
+                }) as HTMLDivElement;
+            element.appendChild(this.statusElement);
+
+            this.setRender();
+            this.setImageClick();
+            this.setDeleteClick();
+            this.setKeyboard();
+            this.setScroll();
+            this.setDrag();
+            this.setReorder();
+            this.setSwipe();
+            this.setResize();
+            this.setLightboxKeyboard();
+            this.setFullscreen();
+            this.setLazyThumbnails();
+            this.setEditMode();
+            this.setLayout();
+
+            this.setDeepLink();
+            this.update();
+            this.setObserve();
+        }
 
         /**
-         * Начало рендеринга
+         * Преобразовать изображение разметки в элемент плеера
          *
-         * @param {HTMLDivElement} mainWrapper
-         * @param {HTMLSpanElement} curImage
-         * @param {string} selector
+         * @param {HTMLImageElement} image - изображение
+         * @param {string} sourceName - ссылка на альтернативный ресурс
+         *
+         * @returns {IPlayerItem}
          */
-        protected static renderInit(
-            mainWrapper : HTMLDivElement,
-            curImage : HTMLSpanElement,
-            selector : string
-        ) : void {
-            if (curImage.classList.contains('current')) {
-                return;
+        public static imageToItem(image : HTMLImageElement, sourceName : string = '') : IPlayerItem {
+            return {
+                thumbnail: decodeURI(image.src),
+                src: image.dataset.objectSrc,
+                title: image.title,
+                type: image.dataset.type,
+                name: sourceName || image.dataset.name,
+                tracks: Player.parseJson(image.dataset.tracks),
+                sources: Player.parseJson(image.dataset.sources),
+                artist: image.dataset.artist,
+                album: image.dataset.album,
+                peaks: Player.parseJson(image.dataset.peaks)
+            };
+        }
+
+        /**
+         * Разобрать JSON из атрибута разметки; пустое или некорректное значение игнорируется
+         *
+         * @param {string} value - значение атрибута
+         *
+         * @returns {any}
+         */
+        protected static parseJson(value? : string) : any {
+            if (!value) {
+                return undefined;
             }
 
-            mainWrapper.querySelectorAll(selector).forEach(function (element : HTMLElement) {
-                element.style.display = 'none';
-            });
+            try {
+                return JSON.parse(value);
+            } catch (e) {
+                return undefined;
+            }
+        }
 
-            if (curImage.parentElement) {
-                Array.from(curImage.parentElement.children).forEach(function (imageSpan) {
-                    imageSpan.classList.remove('current')
-                });
+        /**
+         * Обновить плеер: загрузить в плеер изображения из разметки его блока
+         */
+        public update() : void {
+
+            if (this.observe) {
+                this.sync();
+                return;
             }
 
-            curImage.classList.add('current');
+            const self = this,
+                items : IPlayerItem[] = [];
+
+            this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`).forEach(function (image : HTMLImageElement) {
+                if (self.mainWrapper.contains(image) || image.closest('.clone')) {
+                    return;
+                }
+
+                items.push(Player.imageToItem(image));
+                self.detachMarkup(image);
+            });
+
+            this.load(items);
         }
 
         /**
-         * Рендеринг видео в плеере
-         *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий видео
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * Изображения разметки, которые сейчас должны быть элементами плеера
          *
-         * @returns {HTMLVideoElement | null}
+         * @returns {HTMLImageElement[]}
          */
-        protected static renderVideo(
-            mainWrapper : HTMLDivElement,
-            curImage : HTMLSpanElement
-        ) : HTMLVideoElement | null {
+        protected markupImages() : HTMLImageElement[] {
+            const self = this;
 
-            Player.renderInit(mainWrapper, curImage, 'video');
+            return (Array.from(
+                this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`)
+            ) as HTMLImageElement[]).filter(function (image : HTMLImageElement) {
+                return !self.mainWrapper.contains(image) && !self.imageWrapper.contains(image) && !image.closest('.clone');
+            });
+        }
 
-            let videoSrc : string = curImage.dataset.objectSrc || '',
-                imageSrc = curImage.dataset.src;
+        /**
+         * Сверить элементы плеера с изображениями разметки: новые изображения добавляются на соответствующие места,
+         * элементы удаленных изображений удаляются без событий удаления, остальные элементы и выбор не меняются.
+         * Изображения остаются в разметке скрытыми
+         */
+        public sync() : void {
+            const self = this,
+                images : HTMLImageElement[] = this.markupImages(),
+                wasEmpty : boolean = !this.images.length;
 
-            if (!videoSrc) {
-                return null;
-            }
+            this.sourceImages.forEach(function (span : HTMLSpanElement, image : HTMLImageElement) {
+                if (images.indexOf(image) !== -1) {
+                    return;
+                }
+
+                self.sourceImages.delete(image);
+                image.classList.remove('player-source');
+
+                const index : number = self.images.indexOf(span);
+                if (index === -1) {
+                    return;
+                }
 
-            for (let video of Array.from(mainWrapper.querySelectorAll('video'))) {
-                if (video.getAttribute('src') === videoSrc) {
-                    video.style.display = 'block';
-                    return video;
+                if (span.classList.contains('current')) {
+                    self.images[index + 1] ? self.select(index + 1) : self.images[index - 1] && self.select(index - 1);
                 }
-            }
 
-            let video : HTMLVideoElement = Utils.GoodFuncs.createElementWithAttrs(
-                'video',
-                {
-                    src: videoSrc,
-                    controls: 'controls',
-                    poster: imageSrc,
-                    preload: 'metadata',
-                    controlsList: 'nodownload',
-                    text: 'Видео не доступно',
-                    volume: 'high',
-                    status: 'stop',
-                    fullscreen: 'no'/*,
-                    width: mainWrapper.innerWidth(),
-                    height: mainWrapper.innerWidth() * curImage.innerHeight() / curImage.innerWidth()*/
+                self.deleteItem(span, true);
+            });
+
+            let previous : HTMLSpanElement | null = null;
+            images.forEach(function (image : HTMLImageElement) {
+                let span : HTMLSpanElement | null = self.sourceImages.get(image) || null;
+                if (!span) {
+                    span = self.addItem(image);
+                    if (!span) {
+                        return;
+                    }
+
+                    image.classList.add('player-source');
+                    self.sourceImages.set(image, span);
+                    self.relocate(self.images.indexOf(span), previous ? self.images.indexOf(previous) + 1 : 0);
                 }
-            ) as HTMLVideoElement;
 
-            mainWrapper.insertAdjacentElement(
-                'beforeend',
-                video
-            );
+                previous = span;
+            });
 
-            return video;
+            if (wasEmpty && this.images.length && !this.current) {
+                this.selectInitial();
+            }
+
+            // опустевший или изначально пустой плеер показывает заглушку; повторно событие empty не отправляется
+            this.playerElement.classList.contains('empty') || this.checkEmpty();
         }
 
         /**
-         * Рендеринг изображения в плеере
-         *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * Следить за изображениями разметки и синхронизировать с ними элементы плеера
+         */
+        protected setObserve() : void {
+            if (!this.observe || !window['MutationObserver']) {
+                return;
+            }
+
+            const self = this;
+            this.mutationObserver = new MutationObserver(function (records : MutationRecord[]) {
+                const changed : boolean = records.some(function (record : MutationRecord) {
+                    return !self.mainWrapper.contains(record.target)
+                        && !self.imageWrapper.contains(record.target)
+                        && Array.from(record.addedNodes).concat(Array.from(record.removedNodes)).some(function (node : Node) {
+                            return node instanceof HTMLImageElement || (node instanceof Element && !!node.querySelector('img'));
+                        });
+                });
+
+                changed && self.sync();
+            });
+
+            this.mutationObserver.observe(this.playerElement, {childList: true, subtree: true});
+        }
+
+        /**
+         * Выбрать элемент после загрузки: указанный в адресе, иначе первый, если включена активация
+         */
+        protected selectInitial() : void {
+            const state = this.linkState;
+
+            this.linkState = null;
+            if (state && this.applyLink(state)) {
+                return;
+            }
+
+            this.activate && this.images.length && this.select(0);
+        }
+
+        /**
+         * Параметры адреса, в которых хранится состояние плеера. Из хэша берутся только параметры плеера,
+         * остальное его содержимое (например, якорь) не разбирается
          *
-         * @returns {HTMLImageElement | null}
+         * @returns {URLSearchParams}
          */
-        protected static renderImage(
-            mainWrapper : HTMLDivElement,
-            curImage : HTMLSpanElement
-        ) : HTMLImageElement | null {
+        protected linkParams() : URLSearchParams {
+            if (this.deepLink === 'query') {
+                return new URLSearchParams(location.search);
+            }
 
-            Player.renderInit(mainWrapper, curImage, 'img');
+            return new URLSearchParams(location.hash.slice(1).split('&').filter(part => this.isLinkPart(part)).join('&'));
+        }
 
-            let imageSrc = curImage.dataset.src;
+        /**
+         * Является ли часть хэша параметром состояния этого плеера
+         *
+         * @param {string} part - часть хэша между символами &
+         *
+         * @returns {boolean}
+         */
+        protected isLinkPart(part : string) : boolean {
+            const key : string = this.deepLinkKey;
+            let name : string;
 
-            for (let image of Array.from(mainWrapper.querySelectorAll('img'))) {
-                if (image.getAttribute('src') === imageSrc) {
-                    image.style.display = 'block';
-                    return image;
-                }
+            try {
+                name = decodeURIComponent(part.split('=')[0].replace(/\+/g, ' '));
+            } catch (e) {
+                return false;
             }
 
-            let image = Utils.GoodFuncs.createElementWithAttrs(
-                'img',
-                {
-                    class: 'materialboxed responsive-img',
-                    src: imageSrc
-                }) as HTMLImageElement;
+            return part.indexOf('=') !== -1 && [key, `${key}-t`, `${key}-page`].indexOf(name) !== -1;
+        }
 
-            mainWrapper.insertAdjacentElement(
-                'beforeend',
-                image
-            );
+        /**
+         * Прочитать состояние плеера из адреса
+         *
+         * @returns {{item : string, time : number, page : number} | null}
+         */
+        protected readLink() : {item : string, time : number, page : number} | null {
+            if (this.deepLink === 'none') {
+                return null;
+            }
 
-            if (window['M'] !== undefined) {
-                M.Materialbox.init(image);
+            const params : URLSearchParams = this.linkParams(),
+                item : string | null = params.get(this.deepLinkKey);
+            if (item === null) {
+                return null;
             }
 
-            return image;
+            return {
+                item: item,
+                time: (params.get(`${this.deepLinkKey}-t`) || '').split(':').reduce(function (sum : number, part : string) {
+                    return sum * 60 + (parseFloat(part) || 0);
+                }, 0),
+                page: parseInt(params.get(`${this.deepLinkKey}-page`) || '', 10) || 0
+            };
         }
 
         /**
-         * Рендеринг книги в плеере
+         * Выбрать элемент из адреса и перейти к указанным в нем времени видео и странице PDF
          *
-         * @param {HTMLDivElement} mainWrapper - блок хранящий изображения
-         * @param {HTMLSpanElement} curImage - загружаемое изображение
+         * @param {{item : string, time : number, page : number}} state - состояние из адреса
          *
-         * @returns {HTMLIFrameElement | HTMLEmbedElement | null}
+         * @returns {boolean} - найден ли элемент
          */
-        protected static renderBook(
-            mainWrapper : HTMLDivElement,
-            curImage : HTMLSpanElement
-        ) : HTMLIFrameElement | HTMLEmbedElement | null {
+        protected applyLink(state : {item : string, time : number, page : number}) : boolean {
+            let index : number = this.images.findIndex(image => image.dataset.name === state.item);
+            if (index === -1 && /^\d+$/.test(state.item)) {
+                index = parseInt(state.item, 10) - 1;
+            }
 
-            Player.renderInit(mainWrapper, curImage, 'iframe, embed');
+            if (!this.images[index]) {
+                return false;
+            }
 
-            let bookSrc : string = curImage.dataset.objectSrc || '',
-                bookSrcMatches : RegExpMatchArray | null = bookSrc.match(/.+?\.([^.]+)$/),
-                bookType = curImage.dataset.type || (bookSrcMatches ? bookSrcMatches[1] : '');
+            this.select(index);
 
-            if (!bookSrc || !bookType) {
-                return null;
+            const media = this.media,
+                pdf : PdfDocument | null = this.currentElement ? PdfDocument.get(this.currentElement) : null;
+
+            media && state.time && Player.seekWhenReady(media, state.time);
+            pdf && state.page && pdf.goTo(state.page);
+
+            return true;
+        }
+
+        /**
+         * Записать в адрес выбранный элемент (имя поля или номер), время видео и страницу PDF
+         */
+        protected writeLink() : void {
+            if (this.deepLink === 'none' || this.updating) {
+                return;
             }
 
-            for (let book of (Array.from(mainWrapper.querySelectorAll('embed, iframe')) as HTMLIFrameElement[] | HTMLEmbedElement[])) {
-                if (book.getAttribute('src') === bookSrc) {
-                    book.style.display = 'block';
-                    return book.tagName === 'iframe' ? book as HTMLIFrameElement : book as HTMLEmbedElement;
-                }
+            const key : string = this.deepLinkKey,
+                params : URLSearchParams = this.linkParams(),
+                current : HTMLSpanElement | null = this.current,
+                media = this.media,
+                pdf : PdfDocument | null = this.currentElement ? PdfDocument.get(this.currentElement) : null;
+
+            [key, `${key}-t`, `${key}-page`].forEach(function (name : string) {
+                params.delete(name);
+            });
+
+            if (current) {
+                params.set(key, current.dataset.name || (this.images.indexOf(current) + 1).toString());
+                media && media.currentTime >= 1 && params.set(`${key}-t`, Math.floor(media.currentTime).toString());
+                pdf && pdf.page > 1 && params.set(`${key}-page`, pdf.page.toString());
             }
 
-            let book = document.createElement('iframe');
+            const self = this,
+                query : string = params.toString(),
+                hash : string = location.hash.slice(1).split('&').filter(function (part : string) {
+                    return part && !self.isLinkPart(part);
+                }).concat(query ? [query] : []).join('&'),
+                url : string = this.deepLink === 'query'
+                    ? location.pathname + (query ? '?' + query : '') + location.hash
+                    : location.pathname + location.search + (hash ? '#' + hash : '');
 
-            switch (bookType) {
-                case 'pdf':
-                    book.setAttribute('src', bookSrc);
-                    break;
+            if (url !== location.pathname + location.search + location.hash) {
+                history.replaceState(history.state, '', url);
+            }
+        }
 
-                default:
-                    book.setAttribute('src', 'https://docs.google.com/viewer?url=' + document.location.origin + bookSrc + '&embedded=true');
+        /**
+         * Синхронизация состояния плеера с адресом
+         */
+        protected setDeepLink() : void {
+            if (this.deepLink === 'none') {
+                return;
             }
 
-            book.allowFullscreen = true;
+            const self = this;
+            let lastWrite : number = 0;
 
-            mainWrapper.insertAdjacentElement(
-                'beforeend',
-                book
-            );
+            this.linkState = this.readLink();
 
-            return book;
+            ['pause', 'seeked', 'timeupdate', 'pdfpagechange'].forEach(function (type : string) {
+                self.mainWrapper.addEventListener(type, function (e : Event) {
+                    if (e.type === 'timeupdate' && e.timeStamp - lastWrite < 1000) {
+                        return;
+                    }
+
+                    lastWrite = e.timeStamp;
+                    self.writeLink();
+                }, true);
+            });
+
+            this.listen(window, this.deepLink === 'query' ? 'popstate' : 'hashchange', function () {
+                const state = self.readLink(),
+                    current : HTMLSpanElement | null = self.current;
+
+                if (
+                    state
+                    && (!current || (current.dataset.name || (self.images.indexOf(current) + 1).toString()) !== state.item)
+                ) {
+                    self.applyLink(state);
+                }
+            });
         }
 
         /**
-         * Параметры конфигурации по умолчанию
+         * Заменить содержимое плеера списком элементов.
+         * Прежние элементы удаляются без событий удаления, по окончании отправляется событие load
          *
-         * @type {IPlayerOptions}
+         * @param {IPlayerItem[]} items - элементы плеера
          */
-        public static defaultOptions : IPlayerOptions = {
-            styleFilePath: 'player.css',
-            mainWrapperClass: 'main-wrapper',
-            imageWrapperClass: 'image-wrapper',
-            scrollButtonsWidth: 50,
-            scrollButtonsPadding: 10,
-            imageStopClass: 'no-image'
-        };
+        public load(items : IPlayerItem[]) : void {
+
+            const self = this;
+
+            this.updating = true;
+
+            this.images.slice().forEach(function (span : HTMLSpanElement) {
+                self.deleteItem(span, true);
+            });
+
+            items.forEach(function (item : IPlayerItem) {
+                self.addItem(item);
+            });
+
+            this.updating = false;
+            this.prevScroll = 0;
+            this.position = 0;
+            this.translateStrip(0, 0);
+            this.checkEmpty();
+
+            this.selectInitial();
+
+            this.emit('load', null, -1);
+        }
 
         /**
-         * Где хранятся стили плеера
+         * Элементы плеера
+         *
+         * @returns {IPlayerItem[]}
          */
-        public readonly styleFilePath : string;
+        get items() : IPlayerItem[] {
+            const self = this;
+
+            return this.images.map(function (span : HTMLSpanElement) {
+                return self.itemsData.get(span) as IPlayerItem;
+            });
+        }
 
         /**
-         * Выбирать ли первый элемент после загрузки
+         * Получить данные элемента плеера
+         *
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {IPlayerItem | null}
          */
-        public readonly activate : boolean;
+        public getItem(item : number | HTMLSpanElement) : IPlayerItem | null {
+            const span : HTMLSpanElement | undefined = typeof item === 'number' ? this.images[item] : item;
 
-        public readonly mainWrapperClass : string;
+            return span ? this.itemsData.get(span) || null : null;
+        }
 
-        public readonly imageWrapperClass : string;
+        /**
+         * Представление плеера для JSON.stringify - список элементов
+         *
+         * @returns {IPlayerItem[]}
+         */
+        public toJSON() : IPlayerItem[] {
+            return this.items;
+        }
 
-        public readonly scrollButtonsWidth : number;
+        /**
+         * Текущий элемент плеера
+         *
+         * @returns {HTMLSpanElement | null}
+         */
+        get current() : HTMLSpanElement | null {
+            return this.images.find(function (image : HTMLSpanElement) {
+                return image.classList.contains('current');
+            }) || null;
+        }
 
-        public readonly scrollButtonsPadding : number;
+        /**
+         * Индекс текущего элемента плеера или -1, если ничего не выбрано
+         *
+         * @returns {number}
+         */
+        get currentIndex() : number {
+            const current = this.current;
+
+            return current ? this.images.indexOf(current) : -1;
+        }
+
+        /**
+         * Выбрать элемент плеера
+         *
+         * @param {number | HTMLSpanElement} item - индекс элемента или сам элемент
+         *
+         * @returns {HTMLElement | null} - отображаемый элемент блока просмотра
+         */
+        public select(item : number | HTMLSpanElement) : HTMLElement | null {
+            const index : number = typeof item === 'number' ? item : this.images.indexOf(item),
+                image : HTMLSpanElement | undefined = this.images[index];
+            if (!image) {
+                return null;
+            }
+
+            if (image.classList.contains('current')) {
+                return this.render(image);
+            }
+
+            if (!this.emit('beforeSelect', image, index, {}, true)) {
+                return null;
+            }
+
+            const previous = this.current,
+                media = this.media;
+            previous && media && this.savePosition(previous, media);
+            this.cancelAutoplay();
+            this.cancelGapless();
+            this.primedItem = null;
+            this.primedElement = null;
+
+            const element = this.render(image);
+            this.loadThumbnail(image);
+            this.preloadAround(index);
+            this.evict();
+            this.updateDots();
+            this.setFocusable(image);
+            this.ensureVisible(index);
+            this.announce(image.title);
+            this.emit('select', image, index);
+            this.writeLink();
+
+            return element;
+        }
+
+        /**
+         * Перейти к следующему элементу
+         *
+         * @param {boolean} loop - переходить ли с последнего элемента на первый
+         *
+         * @returns {HTMLElement | null}
+         */
+        public next(loop : boolean = this.loop) : HTMLElement | null {
+            let index : number = this.currentIndex + 1;
+            if (index >= this.images.length) {
+                if (!loop) {
+                    return null;
+                }
+
+                index = 0;
+            }
+
+            return this.select(index);
+        }
+
+        /**
+         * Перейти к предыдущему элементу
+         *
+         * @param {boolean} loop - переходить ли с первого элемента на последний
+         *
+         * @returns {HTMLElement | null}
+         */
+        public prev(loop : boolean = this.loop) : HTMLElement | null {
+            let index : number = this.currentIndex - 1;
+            if (index < 0) {
+                if (!loop) {
+                    return null;
+                }
 
-        public readonly imageStopClass : string;
+                index = this.images.length - 1;
+            }
 
-        public readonly animationDuration : number = 400;
+            return this.select(index);
+        }
 
         /**
-         * Обработчик добавления новой сущности
+         * Геттер для уникального идентификатора плеера
+         *
+         * @returns {string}
          */
-        protected render : (curImage : HTMLElement) => HTMLElement | null;
+        get id() : string {
+            return this.uniq;
+        }
 
         /**
-         * Уникальный идентификатор плеера
+         * Наибольшая сторона создаваемых превью в пикселях
          */
-        protected readonly uniq : string = Utils.GoodFuncs.getRandomString(12);
+        public static thumbnailSize : number = 320;
 
         /**
-         * Блок просмотра
+         * Нарисовать источник на холсте, уменьшив его до размера превью, и получить data URL
+         *
+         * @param {CanvasImageSource} source - изображение, видео или холст
+         * @param {number} width - исходная ширина
+         * @param {number} height - исходная высота
+         *
+         * @returns {string}
          */
-        public readonly mainWrapper : HTMLDivElement;
+        protected static drawThumbnail(source : CanvasImageSource, width : number, height : number) : string {
+            const canvas : HTMLCanvasElement = document.createElement('canvas'),
+                scale : number = Math.min(1, Player.thumbnailSize / Math.max(width, height, 1));
 
-        /**
-         * Блок превью
-         */
-        public readonly imageWrapper : HTMLDivElement;
+            canvas.width = Math.max(1, Math.round(width * scale));
+            canvas.height = Math.max(1, Math.round(height * scale));
+            (canvas.getContext('2d') as CanvasRenderingContext2D).drawImage(source, 0, 0, canvas.width, canvas.height);
 
-        /**
-         * Тип плеера
-         */
-        protected type : 'video' | 'image' | 'book';
+            return canvas.toDataURL('image/jpeg', 0.8);
+        }
 
         /**
-         * На каком элементе загружается плеер
+         * Превью-заглушка с расширением файла для форматов, из которых нельзя получить изображение
+         *
+         * @param {string} name - имя файла
+         *
+         * @returns {string}
          */
-        public readonly element : HTMLElement;
-
-        public readonly emptyPlayerImage : HTMLImageElement | null;
-
-        public readonly emptyPlayerImageDisplay : string | null;
+        protected static placeholderThumbnail(name : string) : string {
+            const canvas : HTMLCanvasElement = document.createElement('canvas'),
+                context = canvas.getContext('2d') as CanvasRenderingContext2D,
+                matches : RegExpMatchArray | null = name.match(/\.([^.]+)$/);
 
-        public readonly playerElement : HTMLElement;
+            canvas.width = Player.thumbnailSize;
+            canvas.height = Math.round(Player.thumbnailSize * 0.75);
+            context.fillStyle = '#343843';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.fillStyle = 'white';
+            context.font = `bold ${Math.round(canvas.height / 4)}px sans-serif`;
+            context.textAlign = 'center';
+            context.textBaseline = 'middle';
+            context.fillText((matches ? matches[1] : '?').toUpperCase(), canvas.width / 2, canvas.height / 2);
 
-        protected prevScroll : number = 0;
+            return canvas.toDataURL('image/png');
+        }
 
-        protected diffWidth : number = 0;
+        /**
+         * Создать превью файла: уменьшенное изображение, кадр видео, волновая форма аудио или первая страница PDF (если загружен PDF.js)
+         *
+         * @param {File} file - файл
+         * @param {string} src - ссылка на файл (object URL)
+         *
+         * @returns {Promise<string>} - data URL превью
+         */
+        public static createThumbnail(file : File, src : string) : Promise<string> {
+            const placeholder : string = Player.placeholderThumbnail(file.name);
 
-        protected imagesWidth : number = 0;
+            if (file.type.indexOf('image/') === 0) {
+                return new Promise<string>(function (resolve) {
+                    const image = new Image();
+                    image.onload = function () {
+                        resolve(Player.drawThumbnail(image, image.naturalWidth, image.naturalHeight));
+                    };
+                    image.onerror = function () {
+                        resolve(placeholder);
+                    };
+                    image.src = src;
+                });
+            }
 
-        protected images : HTMLSpanElement[] = [];
+            if (file.type.indexOf('video/') === 0) {
+                return new Promise<string>(function (resolve) {
+                    const video : HTMLVideoElement = document.createElement('video');
+                    video.muted = true;
+                    video.preload = 'auto';
+                    video.addEventListener('loadeddata', function () {
+                        video.currentTime = Math.min(1, video.duration / 2 || 0);
+                    });
+                    video.addEventListener('seeked', function () {
+                        resolve(Player.drawThumbnail(video, video.videoWidth, video.videoHeight));
+                        video.removeAttribute('src');
+                        video.load();
+                    });
+                    video.addEventListener('error', function () {
+                        resolve(placeholder);
+                    });
+                    video.src = src;
+                });
+            }
 
-        protected position : number = 0;
+            if (file.type.indexOf('audio/') === 0) {
+                return AudioRenderer.waveform(src, file.size).then(function (peaks : number[]) {
+                    const canvas : HTMLCanvasElement = document.createElement('canvas'),
+                        context = canvas.getContext('2d') as CanvasRenderingContext2D;
 
-        protected fullscreenButtonAdded = false;
+                    canvas.width = Player.thumbnailSize;
+                    canvas.height = Math.round(Player.thumbnailSize * 0.75);
+                    AudioRenderer.drawWaveform(canvas, peaks, 1);
+                    context.globalCompositeOperation = 'destination-over';
+                    context.fillStyle = '#343843';
+                    context.fillRect(0, 0, canvas.width, canvas.height);
 
-        protected setRender() : void {
-            const self = this;
-            if (this.playerElement.classList.contains('video')) {
+                    return canvas.toDataURL('image/png');
+                }).catch(function () {
+                    return placeholder;
+                });
+            }
 
-                this.render = function (curImage : HTMLElement) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    return Player.renderVideo(self.mainWrapper, curImage);
-                };
+            const pdfjs = window['pdfjsLib'];
+            if (file.type === 'application/pdf' && pdfjs) {
+                const task = pdfjs.getDocument(src);
+                return (task.promise || task).then(function (pdf : any) {
+                    return pdf.getPage(1);
+                }).then(function (page : any) {
+                    const viewport = page.getViewport({scale: 1}),
+                        scaled = page.getViewport({scale: Player.thumbnailSize / Math.max(viewport.width, viewport.height)}),
+                        canvas : HTMLCanvasElement = document.createElement('canvas');
 
-                this.type = 'video';
+                    canvas.width = scaled.width;
+                    canvas.height = scaled.height;
+                    const render = page.render({canvasContext: canvas.getContext('2d'), viewport: scaled});
 
-            } else if (this.playerElement.classList.contains('image')) {
+                    return (render.promise || render).then(function () {
+                        return canvas.toDataURL('image/jpeg', 0.8);
+                    });
+                }).catch(function () {
+                    return placeholder;
+                });
+            }
 
-                this.render = function (curImage : HTMLElement) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    return Player.renderImage(self.mainWrapper, curImage);
-                };
+            return Promise.resolve(placeholder);
+        }
 
-                this.type = 'image';
+        /**
+         * Добавить элементы из файлов: превью создаются в браузере, а файлы передаются загрузчику (опция uploader).
+         * Без загрузчика элементы ссылаются на локальные копии файлов
+         *
+         * @param {FileList | File[]} files - файлы
+         *
+         * @returns {Promise<HTMLSpanElement[]>} - превью добавленных элементов
+         */
+        public addFiles(files : FileList | File[]) : Promise<HTMLSpanElement[]> {
+            const self = this,
+                accepted : File[] = Array.from(files as ArrayLike<File>).filter(file => this.acceptsFile(file));
 
-            } else if (this.playerElement.classList.contains('book')) {
+            return Promise.all(accepted.map(function (file : File) {
+                const src : string = URL.createObjectURL(file);
 
-                this.render = function (curImage : HTMLElement) {
-                    self.emptyPlayerImage && (self.emptyPlayerImage.style.display = 'none');
-                    self.addFullScreenButton();
-                    return Player.renderBook(self.mainWrapper, curImage);
-                };
+                return Player.createThumbnail(file, src).then(function (thumbnail : string) {
+                    const span : HTMLSpanElement | null = self.addItem({
+                        thumbnail: thumbnail,
+                        src: src,
+                        title: file.name,
+                        type: file.type || undefined
+                    });
 
-                this.type = 'book';
-            }
-        }
+                    if (span) {
+                        self.objectUrls.set(span, src);
+                        self.uploader && self.upload(span, file);
+                    }
 
-        protected addFullScreenButton() : void {
-            if (!this.fullscreenButtonAdded) {
-                let button = document.createElement('button');
-                button.classList.add('fullscreen');
-                button.type = 'button';
-                this.mainWrapper.append(button);
-                button.addEventListener('click', function () {
-                    Utils.GoodFuncs.nextAll(this, 'iframe').forEach(function (iframe) {
-                        const computedStyle = window.getComputedStyle(iframe);
-                        if (computedStyle.display !== 'none') {
-                            const rFS = iframe.mozRequestFullScreen
-                                || iframe.webkitRequestFullscreen
-                                || iframe.requestFullscreen;
-
-                            rFS.call(iframe);
-                        }
-                    });
+                    return span;
                 });
-                this.fullscreenButtonAdded = true;
-            }
+            })).then(function (spans : Array<HTMLSpanElement | null>) {
+                return spans.filter(span => span) as HTMLSpanElement[];
+            });
         }
 
-        protected setImageClick() : void {
-            const self = this;
-            this.imageWrapper.addEventListener('click', function (e) {
-                let target = e.target as HTMLElement;
-                if (!target.matches('.img')) {
-                    return;
-                }
+        /**
+         * Подходит ли файл под опцию accept
+         *
+         * @param {File} file
+         *
+         * @returns {boolean}
+         */
+        protected acceptsFile(file : File) : boolean {
+            const name : string = file.name.toLowerCase(),
+                type : string = file.type.toLowerCase();
 
-                e.stopPropagation();
+            return !this.accept || this.accept.split(',').some(function (rule : string) {
+                rule = rule.trim().toLowerCase();
 
-                self.render(target);
-                //self.scrollTo(self.images.indexOf(target));
+                return rule.charAt(0) === '.'
+                    ? name.slice(-rule.length) === rule
+                    : rule.slice(-2) === '/*' ? type.indexOf(rule.slice(0, -1)) === 0 : type === rule;
             });
         }
 
-        protected setDeleteClick() : void {
-            const self = this;
-            this.imageWrapper.addEventListener('click', function (e) {
+        /**
+         * Загрузить файл элемента загрузчиком, показывая прогресс на превью
+         *
+         * @param {HTMLSpanElement} span - превью
+         * @param {File} file - файл
+         *
+         * @returns {Promise<void>}
+         */
+        protected upload(span : HTMLSpanElement, file : File) : Promise<void> {
+            const self = this,
+                progress : HTMLSpanElement = Utils.GoodFuncs.createElementWithAttrs(
+                    'span',
+                    {
+                        'class': 'upload-progress',
+                        'role': 'progressbar',
+                        'aria-valuemin': '0',
+                        'aria-valuemax': '100',
+                        'aria-valuenow': '0',
+                        'aria-label': this.t('uploading', {name: file.name})
+                    }) as HTMLSpanElement;
 
-                e.stopPropagation();
-                let target = e.target as HTMLElement;
-                if (!target.matches('.img > i')) {
-                    return;
-                }
+            span.classList.add('uploading');
+            span.classList.remove('failed');
+            span.appendChild(progress);
 
-                const element = target.parentNode as HTMLSpanElement,
-                    index = self.images.indexOf(element);
-                if (self.images[index + 1] !== undefined) {
-                    self.images[index + 1].click();
-                } else if (self.images[index - 1]) {
-                    self.images[index - 1].click();
-                }
+            const setProgress = function (fraction : number) {
+                const percent : number = Math.round(Math.max(0, Math.min(fraction, 1)) * 100);
+                progress.style.setProperty('--upload-progress', `${percent}%`);
+                progress.setAttribute('aria-valuenow', percent.toString());
+            };
+
+            return Promise.resolve().then(function () {
+                return (self.uploader as IPlayerUploader)(file, setProgress);
+            }).then(function (result : string | Partial<IPlayerItem>) {
+                const uploaded : Partial<IPlayerItem> = typeof result === 'string' ? {src: result} : result,
+                    item : IPlayerItem = Object.assign({}, self.getItem(span), uploaded),
+                    objectUrl : string | undefined = self.objectUrls.get(span);
+
+                self.itemsData.set(span, item);
+                item.name && (span.dataset.name = item.name);
 
-                self.deleteItem(element);
+                if (item.src && item.src !== objectUrl) {
+                    // отображенный ресурс ссылается на локальную копию файла: он пересоздается по ссылке загрузчика
+                    const isCurrent : boolean = self.current === span;
 
-                if (!self.images.length) {
-                    self.emptyPlayerImage
-                    && self.emptyPlayerImageDisplay
-                    && (self.emptyPlayerImage.style.display = self.emptyPlayerImageDisplay);
+                    self.destroyRendered(span);
+                    span.dataset.objectSrc = item.src;
+                    objectUrl && URL.revokeObjectURL(objectUrl);
+                    self.objectUrls.delete(span);
+                    isCurrent && self.render(span);
                 }
+
+                span.classList.remove('uploading');
+                progress.remove();
+                self.updateFields();
+                self.emit('upload', span, self.images.indexOf(span), {file: file, src: item.src});
+            }, function (error : any) {
+                span.classList.remove('uploading');
+                span.classList.add('failed');
+                progress.remove();
+                self.announce(self.t('uploadError', {name: file.name}));
+                self.emit('uploadError', span, self.images.indexOf(span), {file: file, error: error});
             });
         }
 
-        protected setScroll() : void {
+        /**
+         * Отразить список элементов в скрытых полях формы (опция formField).
+         * Элементы, которые еще загружаются или не загрузились, а также добавленные из файлов без загрузчика,
+         * в форму не попадают: их ссылки действуют только на этой странице
+         */
+        protected updateFields() : void {
             const self = this;
-            this.imageWrapper.addEventListener('click', function (e : MouseEvent) {
+            if (!this.fieldsElement) {
+                return;
+            }
 
-                if (!(e.target as HTMLElement).matches('.' + self.imageWrapperClass)) {
+            this.fieldsElement.textContent = '';
+            this.images.forEach(function (span : HTMLSpanElement) {
+                if (
+                    span.classList.contains('uploading')
+                    || span.classList.contains('failed')
+                    || self.objectUrls.get(span) === span.dataset.objectSrc
+                ) {
                     return;
                 }
 
-                let offset : number = e['detail'] && e['detail']['offset'] !== undefined
-                    ? e.detail['offset']
-                    : e.offsetX;
-
-                if (!self.images.length || self.imagesWidth <= self.imageWrapper.clientWidth) {
-                    return;
-                }
+                const input : HTMLInputElement = document.createElement('input');
+                input.type = 'hidden';
+                input.name = self.formField;
+                input.value = span.dataset.objectSrc || span.dataset.src || '';
+                (self.fieldsElement as HTMLDivElement).appendChild(input);
+            });
+        }
 
-                let position = self.position;
-                if (offset <= self.scrollButtonsWidth) {
-                    if (self.images[position - 1]) {
-                        position--;
-                        self.diffWidth = 0;
-                    }
-                } else if (offset >= self.imageWrapper.clientWidth - self.scrollButtonsWidth) {
-                    if (!self.diffWidth && self.images[position + 1]) {
-                        position++;
-                    }
-                } else {
-                    return;
-                }
+        /**
+         * Применить расположение ленты превью и размеры превью
+         */
+        protected setLayout() : void {
+            const self = this;
 
-                const startScroll : number = self.prevScroll;
-                if (self.scrollTo(position) === startScroll && position < self.position && startScroll) {
-                    this.dispatchEvent(new CustomEvent('click', {detail: {offset: offset}}));
-                }
-            });
+            this.playerElement.classList.add('layout-' + this.layout);
+            this.playerElement.style.setProperty('--thumbnail-width', this.thumbnailWidth);
+            this.playerElement.style.setProperty('--thumbnail-height', this.thumbnailHeight);
+            this.playerElement.style.setProperty('--grid-rows', this.rows().toString());
 
-            this.imageWrapper.addEventListener('wheel', function (e : WheelEvent) {
-                e.preventDefault();
-                if (this['disabled']) {
-                    return;
-                }
+            if (this.layout !== 'dots') {
+                return;
+            }
 
-                if (e.deltaY < 0) {
-                    this.dispatchEvent(new CustomEvent('click', {detail: {offset: 0}}));
-                    return;
-                }
+            const dots = Utils.GoodFuncs.createElementWithAttrs(
+                'nav',
+                {
+                    'class': 'player-dots',
+                    'aria-label': this.t('itemList')
+                }) as HTMLElement;
+            this.imageWrapper.insertAdjacentElement('afterend', dots);
+            this.dotsElement = dots;
 
-                this.dispatchEvent(new CustomEvent('click', {detail: {offset: this.clientWidth}}));
+            dots.addEventListener('click', function (e : MouseEvent) {
+                const dot = (e.target as HTMLElement).closest('.dot');
+                dot && self.select(Array.from((this as HTMLElement).children).indexOf(dot));
             });
         }
 
         /**
-         *
-         * @param {number} index
-         *
-         * @returns {number}
+         * Обновить точки расположения dots: по одной на элемент, текущая отмечена
          */
-        public scrollTo(index : number) : number | undefined {
-            const self = this;
-            if (!this.images[index]) {
+        protected updateDots() : void {
+            const dots : HTMLElement | null = this.dotsElement;
+            if (!dots) {
                 return;
             }
 
-            const currentImage : HTMLSpanElement = this.images[index];
-            let scroll : number = 0;
-            Utils.GoodFuncs.prevAll(currentImage, '.img').forEach(function (element : HTMLSpanElement) {
-                scroll += element.clientWidth;
-            });
+            while (dots.children.length > this.images.length) {
+                (dots.lastElementChild as Element).remove();
+            }
 
-            if (scroll > this.prevScroll) {
-                let viewWidth : number = 0;
-                Utils.GoodFuncs.nextAll(currentImage, '.img').forEach(function (element : HTMLSpanElement) {
-                    viewWidth += element.clientWidth;
-                });
-                viewWidth += currentImage.clientWidth;
-                if (viewWidth <= this.imageWrapper.clientWidth) {
-                    this.diffWidth = this.imageWrapper.clientWidth - viewWidth;
-                    scroll -= this.diffWidth;
-                }
-            } else {
-                this.diffWidth = 0;
+            while (dots.children.length < this.images.length) {
+                dots.insertAdjacentHTML('beforeend', '<button type="button" class="dot"></button>');
             }
 
-            this.images.forEach(function (img : HTMLImageElement) {
-                img.animate({
-                    left: [-self.prevScroll + 'px', -scroll + 'px']
-                }, {
-                    duration: self.animationDuration,
-                    fill: 'forwards'
-                })
+            this.images.forEach(function (span : HTMLSpanElement, index : number) {
+                const dot = dots.children[index] as HTMLButtonElement;
+                dot.setAttribute('aria-label', span.getAttribute('aria-label') || span.title);
+                span.classList.contains('current')
+                    ? dot.setAttribute('aria-current', 'true')
+                    : dot.removeAttribute('aria-current');
             });
-
-            this.position = index;
-            this.prevScroll = scroll;
-
-            return scroll;
         }
 
         /**
-         * Конструктор
-         *
-         * @param {HTMLElement} element - на каком элементе загружается плеер
-         * @param {IPlayerOptions} cnf - объект конфигурации
+         * Режим редактирования: кнопка выбора файлов, перетаскивание файлов на плеер и вставка из буфера обмена
          */
-        public constructor(element : HTMLElement, cnf : IPlayerOptions = {}) {
-
-            this.playerElement = element;
-            this.styleFilePath = (cnf.styleFilePath || Player.defaultOptions.styleFilePath) as string;
-            this.activate = !element.classList.contains('no-active');
-            this.mainWrapperClass = (cnf.mainWrapperClass || Player.defaultOptions.mainWrapperClass) as string;
-            this.imageWrapperClass = (cnf.imageWrapperClass || Player.defaultOptions.imageWrapperClass) as string;
-            this.scrollButtonsWidth = (cnf.scrollButtonsWidth || Player.defaultOptions.scrollButtonsWidth) as number;
-            this.scrollButtonsPadding
-                = (cnf.scrollButtonsPadding || Player.defaultOptions.scrollButtonsPadding) as number;
-            this.imageStopClass = (cnf.imageStopClass || Player.defaultOptions.imageStopClass) as string;
-            this.emptyPlayerImage = element.querySelector(`img.${this.imageStopClass}`);
-            this.emptyPlayerImageDisplay = this.emptyPlayerImage ? this.emptyPlayerImage.style.display : null;
-
-            element.classList.add('player');
+        protected setEditMode() : void {
+            const self = this;
 
-            element.insertAdjacentHTML('beforeend', `<div class="${this.mainWrapperClass}"></div>`);
-            element.insertAdjacentHTML('beforeend', `<div class="${this.imageWrapperClass}"></div>`);
+            if (this.formField) {
+                this.fieldsElement = document.createElement('div');
+                this.fieldsElement.classList.add('player-fields');
+                this.fieldsElement.hidden = true;
+                this.playerElement.appendChild(this.fieldsElement);
+            }
 
-            this.imageWrapper = element.querySelector(`.${this.imageWrapperClass}`) as HTMLDivElement;
-            this.mainWrapper = element.querySelector(`.${this.mainWrapperClass}`) as HTMLDivElement;
+            if (!this.editable) {
+                return;
+            }
 
-            this.imageWrapper.classList.add(this.uniq);
+            this.editorElement = document.createElement('div');
+            this.editorElement.classList.add('player-editor');
+            this.editorElement.insertAdjacentHTML('beforeend', `
+                <button type="button" class="add-files material-icons" aria-label="${this.t('addFiles')}">add</button>
+                <input type="file" multiple hidden>
+            `);
+            this.playerElement.appendChild(this.editorElement);
 
-            this.setRender();
-            this.setImageClick();
-            this.setDeleteClick();
-            this.setScroll();
+            const input = this.editorElement.querySelector('input') as HTMLInputElement;
+            input.accept = this.accept;
 
-            this.update();
-        }
+            (this.editorElement.querySelector('.add-files') as HTMLButtonElement).addEventListener('click', function () {
+                input.click();
+            });
 
-        /**
-         * Обновить плеер
-         */
-        public update() : void {
+            input.addEventListener('change', function () {
+                this.files && self.addFiles(this.files);
+                this.value = '';
+            });
 
-            const self = this;
+            const hasFiles = function (e : DragEvent) : boolean {
+                return !!e.dataTransfer && Array.from(e.dataTransfer.types).indexOf('Files') !== -1;
+            };
 
-            Array.from(this.imageWrapper.querySelectorAll('.img')).forEach(function (span : HTMLSpanElement) {
-                self.deleteItem(span);
+            this.listen(this.playerElement, 'dragover', function (e : DragEvent) {
+                if (hasFiles(e)) {
+                    e.preventDefault();
+                    self.playerElement.classList.add('drop-active');
+                }
             });
 
-            this.playerElement.querySelectorAll(`img:not(.${this.imageStopClass}):not(.clone)`).forEach(function (image : HTMLImageElement) {
-                self.addItem(image);
-                image.remove();
+            this.listen(this.playerElement, 'dragleave', function (e : DragEvent) {
+                if (!e.relatedTarget || !self.playerElement.contains(e.relatedTarget as Node)) {
+                    self.playerElement.classList.remove('drop-active');
+                }
             });
 
-            this.images = Array.from(this.imageWrapper.querySelectorAll('.img'));
+            this.listen(this.playerElement, 'drop', function (e : DragEvent) {
+                if (!hasFiles(e)) {
+                    return;
+                }
 
-            let imagesWidth = 0;
-            this.images.forEach(function (img : HTMLImageElement) {
-                imagesWidth += img.offsetWidth;
+                e.preventDefault();
+                self.playerElement.classList.remove('drop-active');
+                self.addFiles((e.dataTransfer as DataTransfer).files);
             });
 
-            this.imagesWidth = imagesWidth;
-
-            const firstImage : HTMLSpanElement | null = this.imageWrapper.querySelector('.img');
-            if (this.activate && firstImage) {
-                firstImage.click();
-            }
+            this.listen(document, 'paste', function (e : ClipboardEvent) {
+                const files : File[] = e.clipboardData ? Array.from(e.clipboardData.files) : [];
+                if (files.length && self.playerElement.contains(document.activeElement)) {
+                    e.preventDefault();
+                    self.addFiles(files);
+                }
+            });
         }
 
         /**
-         * Геттер для уникального идентификатора плеера
+         * Добавить элемент в плеер
          *
-         * @returns {string}
-         */
-        get id() : string {
-            return this.uniq;
-        }
-
-        /**
-         * Добавить изображение в плеер
+         * @param {IPlayerItem | HTMLImageElement} item - элемент или изображение разметки
+         * @param {boolean} isActivate - активировать добавляемый элемент
+         * @param {string} sourceName - ссылка на альтернативный ресурс (только для изображений)
          *
-         * @param {HTMLImageElement} image - изображение
-         * @param {boolean} isActivate - активировать добавляемое изображение
-         * @param {string} sourceName - ссылка на альтернативный ресурс
+         * @returns {HTMLSpanElement | null} - превью добавленного элемента
          */
-        public addItem(image : HTMLImageElement, isActivate : boolean = false, sourceName : string = '') : void {
-            if (image.closest('.clone')) {
-                return;
+        public addItem(
+            item : IPlayerItem | HTMLImageElement,
+            isActivate : boolean = false,
+            sourceName : string = ''
+        ) : HTMLSpanElement | null {
+            if (item instanceof HTMLImageElement) {
+                if (item.closest('.clone')) {
+                    return null;
+                }
+
+                item = Player.imageToItem(item, sourceName);
             }
 
-            let src : string = decodeURI(image.src),
+            let src : string = item.thumbnail,
+                title : string = item.title || '',
                 span : HTMLSpanElement = Utils.GoodFuncs.createElementWithAttrs(
                     'span',
                     {
                         'class': 'img',
                         'data-src': src,
-                        'title': image.title.length > 50 ? image.title.substr(0, 50) + '...' : image.title,
-                        'data-object-src': image.dataset.objectSrc,
-                        'data-type': image.dataset.type,
-                        'html': '<i class="material-icons">close</i>',
-                        'data-name': sourceName || image.dataset.name
+                        'title': Player.truncate(title, this.titleLength, this.locale),
+                        'data-object-src': item.src || (item.sources && item.sources.length ? item.sources[0].src : undefined),
+                        'data-type': item.type,
+                        'html': '<i class="material-icons" aria-hidden="true">close</i>',
+                        'data-name': item.name,
+                        'role': 'option',
+                        'aria-selected': 'false',
+                        'aria-label': title,
+                        'aria-keyshortcuts': 'Delete'
                     });
 
-            span.style.backgroundImage = `url("${src}")`;
+            if (this.thumbnailObserver) {
+                span.classList.add('lazy');
+                this.thumbnailObserver.observe(span);
+            } else {
+                span.style.backgroundImage = `url("${src}")`;
+            }
+
+            span.dataset.renderer = this.resolveRenderer(span);
+            span.tabIndex = this.images.some(image => image.tabIndex === 0) ? -1 : 0;
+            (span.firstElementChild as HTMLElement).title = this.t('deleteItem', {title: title});
 
-            this.imageWrapper.appendChild(span);
+            this.itemsData.set(span, item);
+
+            this.playerElement.classList.remove('empty');
             this.images.push(span);
-            this.imagesWidth += span.offsetWidth;
+            this.renderStrip();
+
+            this.updateFields();
+            this.emit('add', span, this.images.length - 1);
 
             if (isActivate) {
-                span.click();
+                this.select(span);
+            }
+
+            return span;
+        }
+
+        /**
+         * Уничтожить элементы блока просмотра, отображающие ресурс превью
+         *
+         * @param {HTMLSpanElement} element - превью
+         */
+        protected destroyRendered(element : HTMLSpanElement) : void {
+            const name : string = element.dataset.renderer || '',
+                renderer = Player.getRenderer(name);
+            if (!renderer) {
+                return;
+            }
+
+            const src : string = renderer.source(element);
+            for (let object of this.getRendered(name)) {
+                if (renderer.match(object, src)) {
+                    renderer.destroy(object);
+                }
             }
         }
 
@@ -619,35 +6881,57 @@ export namespace QooizPlayer {
          * Удалить пару изображение - ресурс из плеера
          *
          * @param {HTMLSpanElement} element - удаляемый элемент
+         * @param {boolean} silent - не отправлять события удаления
          */
-        public deleteItem(element : HTMLSpanElement) {
+        public deleteItem(element : HTMLSpanElement, silent : boolean = false) {
 
             let index = this.images.indexOf(element),
                 objSrc : string | undefined = element.dataset.objectSrc || element.dataset.src;
 
-            element.remove();
-
-            for (let object of Array.from(this.mainWrapper.querySelectorAll('img, video, iframe, embed'))) {
-                if (object.getAttribute('src') === objSrc) {
-                    object.remove();
-                }
+            if (index === -1) {
+                return;
             }
 
+            element.remove();
+            this.resizeObserver && this.resizeObserver.unobserve(element);
+            this.thumbnailObserver && this.thumbnailObserver.unobserve(element);
+            element.classList.contains('current') && this.setCurrentElement(null);
+            this.itemsData.delete(element);
+            this.destroyRendered(element);
+
             this.images.splice(index, 1);
             this.images = this.images.filter(val => val);
-            this.imagesWidth -= element.offsetWidth;
+            this.resizeStrip([]);
 
-            document.dispatchEvent(
-                new CustomEvent(
-                    'deleteItem',
-                    {
-                        detail: {
-                            src: objSrc,
-                            field: element.dataset.name
+            if (element.tabIndex === 0 && this.images.length) {
+                this.setFocusable(this.current || this.images[0]);
+            }
+
+            if (!silent) {
+                this.emit('delete', element, index, {src: objSrc, field: element.dataset.name});
+
+                document.dispatchEvent(
+                    new CustomEvent(
+                        'deleteItem',
+                        {
+                            detail: {
+                                src: objSrc,
+                                field: element.dataset.name
+                            }
                         }
-                    }
-                )
-            );
+                    )
+                );
+            }
+
+            const objectUrl : string | undefined = this.objectUrls.get(element);
+            objectUrl && URL.revokeObjectURL(objectUrl);
+            this.updateFields();
+            this.checkEmpty();
         }
     }
-}
+
+    Player.registerRenderer('video', new VideoRenderer());
+    Player.registerRenderer('image', new ImageRenderer());
+    Player.registerRenderer('book', new BookRenderer());
+    Player.registerRenderer('audio', new AudioRenderer());
+}
\ No newline at end of file
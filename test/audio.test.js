@@ -0,0 +1,127 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+const markup = '<div id="player" class="audio">' +
+    '<img src="/a.jpg" data-object-src="/a.mp3" title="A" data-peaks="[0.5]">' +
+    '<img src="/b.jpg" data-object-src="/b.mp3" title="B" data-peaks="[0.5]">' +
+    '</div>';
+
+/**
+ * Создать плеер из двух аудио. jsdom не воспроизводит медиа и не рисует на canvas,
+ * поэтому запуски и остановки записываются, а волновая форма не рисуется
+ *
+ * @param {Object} options - параметры плеера
+ *
+ * @returns {{window: Window, player: Object, played: HTMLMediaElement[], paused: HTMLMediaElement[]}}
+ */
+function createPlayer(options) {
+    const {window, QooizPlayer} = loadPlayer(markup),
+        played = [],
+        paused = [];
+
+    window.HTMLMediaElement.prototype.play = function () {
+        played.push(this);
+        return Promise.resolve();
+    };
+    window.HTMLMediaElement.prototype.pause = function () {
+        paused.push(this);
+    };
+    QooizPlayer.AudioRenderer.drawWaveform = function () {};
+
+    const player = new QooizPlayer.Player(window.document.getElementById('player'), options);
+
+    return {window: window, player: player, played: played, paused: paused};
+}
+
+/**
+ * Перемотать текущее аудио почти к концу и сообщить плееру о воспроизведении
+ *
+ * @param {Object} player
+ * @param {number} remaining - сколько секунд осталось до конца
+ *
+ * @returns {HTMLMediaElement}
+ */
+function playUntil(player, remaining) {
+    const media = player.media;
+
+    Object.defineProperty(media, 'duration', {configurable: true, value: 100});
+    Object.defineProperty(media, 'currentTime', {configurable: true, writable: true, value: 100 - remaining});
+    Object.defineProperty(media, 'paused', {configurable: true, value: false});
+    media.dispatchEvent(new media.ownerDocument.defaultView.Event('timeupdate'));
+
+    return media;
+}
+
+/**
+ * Закончить воспроизведение аудио
+ *
+ * @param {HTMLMediaElement} media
+ */
+function end(media) {
+    const window = media.ownerDocument.defaultView;
+
+    Object.defineProperty(media, 'ended', {configurable: true, value: true});
+    Object.defineProperty(media, 'paused', {configurable: true, value: true});
+    media.dispatchEvent(new window.Event('pause'));
+    media.dispatchEvent(new window.Event('ended'));
+}
+
+test('gapless playback, media session and waveform are on unless turned off', function () {
+    const {player} = createPlayer(),
+        other = createPlayer({gapless: false, mediaSession: false, waveform: false}).player;
+
+    assert.deepStrictEqual([player.gapless, player.mediaSession, player.waveform], [true, true, true]);
+    assert.deepStrictEqual([other.gapless, other.mediaSession, other.waveform], [false, false, false]);
+});
+
+test('the next audio is started before the end and kept playing after the switch', async function () {
+    const {player, played, paused} = createPlayer(),
+        first = playUntil(player, 0.05),
+        next = player.mainWrapper.querySelector('[data-src="/b.mp3"] audio');
+
+    assert.ok(next);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    assert.deepStrictEqual(played, [next]);
+    paused.length = 0;
+
+    end(first);
+
+    assert.strictEqual(player.current.title, 'B');
+    assert.strictEqual(player.media, next);
+    assert.deepStrictEqual(played, [next]);
+    assert.strictEqual(paused.indexOf(next), -1);
+});
+
+test('seeking cancels the early start of the next audio', async function () {
+    const {window, player, played, paused} = createPlayer(),
+        first = playUntil(player, 0.05),
+        next = player.mainWrapper.querySelector('[data-src="/b.mp3"] audio');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    paused.length = 0;
+    first.dispatchEvent(new window.Event('seeking'));
+
+    assert.deepStrictEqual(played, [next]);
+    assert.notStrictEqual(paused.indexOf(next), -1);
+    assert.ok(!next.parentElement.classList.contains('gapless'));
+
+    end(first);
+
+    assert.strictEqual(player.current.title, 'B');
+    assert.strictEqual(played.length, 2);
+});
+
+test('without gapless playback the playlist stops after an audio item', function () {
+    const {player, played} = createPlayer({gapless: false}),
+        first = playUntil(player, 0.05);
+
+    end(first);
+
+    assert.strictEqual(player.current.title, 'A');
+    assert.deepStrictEqual(played, []);
+});
@@ -0,0 +1,75 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+const markup = '<div id="lessons" class="pdf">' +
+    '<img src="/a.jpg" data-object-src="/a.pdf" title="A" data-name="a">' +
+    '<img src="/b.jpg" data-object-src="/b.pdf" title="B" data-name="b">' +
+    '<img src="/c.jpg" data-object-src="/c.pdf" title="C">' +
+    '</div>';
+
+/**
+ * Создать плеер из трех документов разметки на странице с указанным адресом
+ *
+ * @param {string} url - адрес страницы
+ * @param {Object} options - параметры плеера
+ *
+ * @returns {{window: Window, player: Object}}
+ */
+function createPlayer(url, options) {
+    const {window, QooizPlayer} = loadPlayer(markup, url),
+        player = new QooizPlayer.Player(window.document.getElementById('lessons'), options);
+
+    return {window: window, player: player};
+}
+
+test('the item from the hash is selected on construction and foreign hash parts are kept', function () {
+    const {window, player} = createPlayer('http://localhost/course#top&lessons=b', {deepLink: 'hash'});
+
+    assert.strictEqual(player.current.title, 'B');
+
+    player.select(2);
+
+    assert.strictEqual(window.location.hash, '#top&lessons=3');
+    assert.strictEqual(window.location.pathname, '/course');
+});
+
+test('the query mode reads and writes the search string', function () {
+    const {window, player} = createPlayer('http://localhost/course?lessons=3#top', {deepLink: 'query'});
+
+    assert.strictEqual(player.current.title, 'C');
+
+    player.select(0);
+
+    assert.strictEqual(window.location.search, '?lessons=a');
+    assert.strictEqual(window.location.hash, '#top');
+});
+
+test('an unknown item falls back to the first one', function () {
+    const {player} = createPlayer('http://localhost/#lessons=missing', {deepLink: 'hash'});
+
+    assert.strictEqual(player.current.title, 'A');
+});
+
+test('a hash change selects the linked item', function () {
+    const {window, player} = createPlayer('http://localhost/', {deepLink: 'hash'});
+
+    window.location.hash = 'lessons=b';
+    window.dispatchEvent(new window.HashChangeEvent('hashchange'));
+
+    assert.strictEqual(player.current.title, 'B');
+});
+
+test('players without id and deepLinkKey get numbered keys', function () {
+    const {window, QooizPlayer} = loadPlayer('<div class="pdf"></div><div class="pdf"></div><div class="pdf"></div>'),
+        blocks = window.document.querySelectorAll('.pdf'),
+        first = new QooizPlayer.Player(blocks[0], {deepLink: 'hash'}),
+        second = new QooizPlayer.Player(blocks[1], {deepLink: 'hash'}),
+        named = new QooizPlayer.Player(blocks[2], {deepLink: 'hash', deepLinkKey: 'docs'});
+
+    assert.strictEqual(first.deepLinkKey, 'player');
+    assert.strictEqual(second.deepLinkKey, 'player2');
+    assert.strictEqual(named.deepLinkKey, 'docs');
+});
@@ -0,0 +1,76 @@
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+const {JSDOM, VirtualConsole} = require('jsdom');
+
+const source = fs.readFileSync(path.join(__dirname, '..', 'src', 'ts', 'player.js'), 'utf8')
+    .replace(/^import .*$/m, '')
+    .replace(/^export var QooizPlayer;/m, 'var QooizPlayer;');
+
+/**
+ * Минимальная замена функций библиотеки good-funcs.js, которыми пользуется плеер
+ *
+ * @param {Window} window
+ *
+ * @returns {Object}
+ */
+function goodFuncs(window) {
+    return {
+        GoodFuncs: {
+            createElementWithAttrs: function (tag, attrs) {
+                const element = window.document.createElement(tag);
+                Object.keys(attrs || {}).forEach(function (name) {
+                    const value = attrs[name];
+                    if (value === undefined || value === null) {
+                        return;
+                    }
+
+                    if (name === 'text') {
+                        element.textContent = value;
+                    } else if (name === 'html') {
+                        element.innerHTML = value;
+                    } else {
+                        element.setAttribute(name, value);
+                    }
+                });
+
+                return element;
+            },
+            getRandomString: function (length) {
+                return Math.random().toString(36).slice(2, 2 + length);
+            }
+        }
+    };
+}
+
+/**
+ * Загрузить собранный плеер в новое окно jsdom
+ *
+ * @param {string} html - разметка страницы
+ * @param {string} url - адрес страницы
+ *
+ * @returns {{window: Window, QooizPlayer: Object}}
+ */
+function loadPlayer(html = '', url = 'http://localhost/') {
+    const virtualConsole = new VirtualConsole().sendTo(console, {omitJSDOMErrors: true}),
+        dom = new JSDOM(`<!DOCTYPE html><html><body>${html}</body></html>`, {
+            url: url,
+            runScripts: 'outside-only',
+            virtualConsole: virtualConsole
+        }),
+        window = dom.window;
+
+    // jsdom не воспроизводит медиа
+    window.HTMLMediaElement.prototype.play = function () {
+        return Promise.resolve();
+    };
+    window.HTMLMediaElement.prototype.pause = function () {};
+    window.HTMLMediaElement.prototype.load = function () {};
+
+    const QooizPlayer = window.eval(`(function (Utils) {\n${source}\nreturn QooizPlayer;\n})`)(goodFuncs(window));
+
+    return {window: window, QooizPlayer: QooizPlayer};
+}
+
+module.exports = {loadPlayer: loadPlayer};
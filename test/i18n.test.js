@@ -0,0 +1,36 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+test('truncate keeps short titles and shortens long ones by graphemes', function () {
+    const {QooizPlayer} = loadPlayer();
+
+    assert.strictEqual(QooizPlayer.Player.truncate('Short', 10), 'Short');
+    assert.strictEqual(QooizPlayer.Player.truncate('Long title here', 5), 'Long…');
+    assert.strictEqual(QooizPlayer.Player.truncate('👨‍👩‍👧 family 🇷🇺', 1), '👨‍👩‍👧…');
+    assert.strictEqual(QooizPlayer.Player.truncate('ééé', 2), 'éé…');
+});
+
+test('messages follow the locale and can be overridden', function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="en" class="video"></div><div id="ru" class="video"></div>'),
+        en = new QooizPlayer.Player(window.document.getElementById('en'), {
+            i18n: {locale: 'en-US', messages: {retry: 'Reload'}}
+        }),
+        ru = new QooizPlayer.Player(window.document.getElementById('ru'));
+
+    assert.strictEqual(en.t('loadError'), QooizPlayer.Player.messages.en.loadError);
+    assert.strictEqual(en.t('retry'), 'Reload');
+    assert.strictEqual(ru.t('loadError'), QooizPlayer.Player.messages.ru.loadError);
+    assert.strictEqual(en.t('autoplayNext', {seconds: 3}).indexOf('{seconds}'), -1);
+});
+
+test('right-to-left locales mark the player', function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"></div>'),
+        element = window.document.getElementById('player');
+
+    new QooizPlayer.Player(element, {i18n: {locale: 'ar'}});
+
+    assert.ok(element.classList.contains('rtl'));
+});
@@ -0,0 +1,70 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+const items = [
+    {thumbnail: '/a.jpg', src: '/a.mp4', title: 'A', name: 'a', meta: {id: 1}},
+    {thumbnail: '/b.jpg', src: '/b.mp4', title: 'B', name: 'b'},
+    {thumbnail: '/c.jpg', src: '/c.mp4', title: 'C', name: 'c'}
+];
+
+/**
+ * Создать видеоплеер с тремя элементами
+ *
+ * @returns {{window: Window, player: Object}}
+ */
+function createPlayer() {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"></div>'),
+        player = new QooizPlayer.Player(window.document.getElementById('player'));
+
+    player.load(items);
+
+    return {window: window, player: player};
+}
+
+test('items and toJSON return the loaded list', function () {
+    const {player} = createPlayer();
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['A', 'B', 'C']);
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(player))[0], items[0]);
+});
+
+test('load replaces the list without delete events and emits a single load event', function () {
+    const {window, player} = createPlayer(),
+        events = [];
+
+    player.on('delete', () => events.push('delete'));
+    player.on('load', () => events.push('load'));
+    window.document.addEventListener('deleteItem', () => events.push('deleteItem'));
+
+    player.load([{thumbnail: '/d.jpg', src: '/d.mp4', title: 'D'}]);
+
+    assert.deepStrictEqual(events, ['load']);
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['D']);
+});
+
+test('deleteItem removes the item and emits delete events', function () {
+    const {window, player} = createPlayer(),
+        events = [];
+
+    player.on('delete', event => events.push(event.src));
+    window.document.addEventListener('deleteItem', event => events.push(event.detail.field));
+
+    player.deleteItem(player.images[1]);
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['A', 'C']);
+    assert.deepStrictEqual(events, ['/b.mp4', 'b']);
+});
+
+test('deleteItem ignores an item that is not in the list', function () {
+    const {player} = createPlayer(),
+        removed = player.images[2];
+
+    player.deleteItem(removed);
+    player.deleteItem(removed);
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['A', 'B']);
+    assert.strictEqual(player.images.length, 2);
+});
@@ -0,0 +1,57 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+test('a player is created once per element and found with getInstance', function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"><img src="/a.jpg" data-object-src="/a.mp4"></div>'),
+        element = window.document.getElementById('player'),
+        player = new QooizPlayer.Player(element);
+
+    assert.strictEqual(new QooizPlayer.Player(element), player);
+    assert.strictEqual(QooizPlayer.Player.getInstance(element), player);
+
+    player.destroy();
+    assert.strictEqual(QooizPlayer.Player.getInstance(element), null);
+});
+
+test('autoInit initialises data-player elements and skips invalid JSON options', function () {
+    const {window, QooizPlayer} = loadPlayer(
+            '<div id="first" class="video" data-player=\'{"loop": true}\'><img src="/a.jpg" data-object-src="/a.mp4"></div>' +
+            '<div id="broken" class="video" data-player="{loop:"><img src="/b.jpg" data-object-src="/b.mp4"></div>' +
+            '<div id="plain" class="video" data-player><img src="/c.jpg" data-object-src="/c.mp4"></div>'
+        ),
+        players = QooizPlayer.Player.autoInit(window.document);
+
+    assert.strictEqual(players.length, 2);
+    assert.strictEqual(players[0].loop, true);
+    assert.ok(QooizPlayer.Player.getInstance(window.document.getElementById('plain')));
+    assert.strictEqual(QooizPlayer.Player.getInstance(window.document.getElementById('broken')), null);
+});
+
+test('destroy restores the markup images and removes the generated blocks', function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"><img src="/a.jpg" title="A" data-object-src="/a.mp4"></div>'),
+        element = window.document.getElementById('player');
+
+    new QooizPlayer.Player(element).destroy();
+
+    assert.strictEqual(element.querySelectorAll('img').length, 1);
+    assert.strictEqual(element.querySelector('video'), null);
+    assert.strictEqual(element.children.length, 1);
+});
+
+test('a pending frame load timeout does not fire after destroy', async function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="book"><img src="/a.jpg" data-object-src="/a.pdf"></div>'),
+        element = window.document.getElementById('player'),
+        player = new QooizPlayer.Player(element, {loadTimeout: 20}),
+        errors = [];
+
+    element.addEventListener('playerMediaError', () => errors.push('error'));
+    assert.ok(element.querySelector('iframe'));
+
+    player.destroy();
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    assert.deepStrictEqual(errors, []);
+});
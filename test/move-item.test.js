@@ -0,0 +1,65 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Создать видеоплеер с тремя элементами
+ *
+ * @returns {{window: Window, player: Object}}
+ */
+function createPlayer() {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"></div>'),
+        player = new QooizPlayer.Player(window.document.getElementById('player'));
+
+    player.load([
+        {thumbnail: '/a.jpg', src: '/a.mp4', title: 'A', name: 'a'},
+        {thumbnail: '/b.jpg', src: '/b.mp4', title: 'B', name: 'b'},
+        {thumbnail: '/c.jpg', src: '/c.mp4', title: 'C', name: 'c'}
+    ]);
+
+    return {window: window, player: player};
+}
+
+test('moveItem reorders the items', function () {
+    const {player} = createPlayer();
+
+    player.moveItem(0, 2);
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['B', 'C', 'A']);
+    assert.deepStrictEqual(Array.from(player.toJSON(), item => item.name), ['b', 'c', 'a']);
+});
+
+test('moveItem clamps the target index and ignores unknown items', function () {
+    const {player} = createPlayer();
+
+    player.moveItem(2, -5);
+    player.moveItem(7, 0);
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['C', 'A', 'B']);
+});
+
+test('moveItem reports the new order', function () {
+    const {player} = createPlayer(),
+        events = [];
+
+    player.on('reorder', event => events.push(event));
+    player.moveItem(1, 0);
+    player.moveItem(1, 1);
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].index, 0);
+    assert.strictEqual(events[0].from, 1);
+    assert.deepStrictEqual(Array.from(events[0].order, item => item.name), ['b', 'a', 'c']);
+});
+
+test('moveItem keeps the current item selected', function () {
+    const {player} = createPlayer();
+
+    player.select(1);
+    player.moveItem(1, 2);
+
+    assert.strictEqual(player.current.title, 'B');
+    assert.strictEqual(player.currentIndex, 2);
+});
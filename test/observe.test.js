@@ -0,0 +1,48 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Дождаться обработки изменений разметки наблюдателем
+ *
+ * @returns {Promise<void>}
+ */
+function mutations() {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+test('an initially empty observed player shows the empty state', function () {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"></div>'),
+        element = window.document.getElementById('player');
+
+    new QooizPlayer.Player(element, {observe: true});
+
+    assert.ok(element.classList.contains('empty'));
+});
+
+test('markup images are added and removed incrementally', async function () {
+    const {window, QooizPlayer} = loadPlayer(
+            '<div id="player" class="video"><img src="/a.jpg" data-object-src="/a.mp4" title="A"></div>'
+        ),
+        element = window.document.getElementById('player'),
+        player = new QooizPlayer.Player(element, {observe: true}),
+        events = [];
+
+    player.on('delete', () => events.push('delete'));
+    player.on('empty', () => events.push('empty'));
+
+    element.insertAdjacentHTML('beforeend', '<img src="/b.jpg" data-object-src="/b.mp4" title="B">');
+    await mutations();
+
+    assert.deepStrictEqual(Array.from(player.items, item => item.title), ['A', 'B']);
+    assert.strictEqual(player.current.title, 'A');
+
+    element.querySelectorAll('img.player-source').forEach(image => image.remove());
+    await mutations();
+
+    assert.strictEqual(player.items.length, 0);
+    assert.ok(element.classList.contains('empty'));
+    assert.deepStrictEqual(events, ['empty']);
+});
@@ -0,0 +1,106 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Создать видеоплеер в непрерывном режиме
+ *
+ * @param {Object} cnf - опции плеера
+ * @param {number} count - количество элементов
+ *
+ * @returns {{window: Window, player: Object}}
+ */
+function createPlayer(cnf, count = 4) {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="video"></div>'),
+        player = new QooizPlayer.Player(window.document.getElementById('player'), Object.assign({continuous: true}, cnf)),
+        items = [];
+
+    for (let i = 0; i < count; i++) {
+        items.push({thumbnail: `/${i}.jpg`, src: `/${i}.mp4`, title: `Item ${i}`});
+    }
+    player.load(items);
+
+    return {window: window, player: player};
+}
+
+/**
+ * Пройти по элементам так, как это делает непрерывный режим
+ *
+ * @param {Object} player
+ * @param {number} limit - наибольшее количество переходов
+ *
+ * @returns {number[]} - индексы воспроизведенных элементов, начиная с текущего
+ */
+function playThrough(player, limit) {
+    const played = [player.currentIndex];
+
+    while (played.length <= limit) {
+        const index = player.nextPlaybackIndex();
+        if (index === -1) {
+            break;
+        }
+
+        player.select(index);
+        played.push(index);
+    }
+
+    return played;
+}
+
+test('without repeat the items play in order and playback stops at the end', function () {
+    const {player} = createPlayer({});
+
+    assert.deepStrictEqual(playThrough(player, 10), [0, 1, 2, 3]);
+});
+
+test('repeat all starts the list again and repeat one keeps the current item', function () {
+    assert.deepStrictEqual(playThrough(createPlayer({repeat: 'all'}).player, 5), [0, 1, 2, 3, 0, 1]);
+    assert.deepStrictEqual(playThrough(createPlayer({repeat: 'one'}).player, 2), [0, 0, 0]);
+});
+
+test('shuffle without repeat plays every item once and then stops', function () {
+    for (let run = 0; run < 20; run++) {
+        const {player} = createPlayer({shuffle: true}, 5),
+            played = playThrough(player, 20);
+
+        assert.deepStrictEqual(played.slice().sort(), [0, 1, 2, 3, 4]);
+    }
+});
+
+test('shuffle with repeat all keeps playing in rounds that cover every item', function () {
+    const {player} = createPlayer({shuffle: true, repeat: 'all'}, 4),
+        played = playThrough(player, 12);
+
+    assert.strictEqual(played.length, 13);
+    assert.deepStrictEqual(played.slice(0, 4).sort(), [0, 1, 2, 3]);
+    assert.deepStrictEqual(new Set(played.slice(4, 7)).size, 3);
+});
+
+test('the next item of a shuffle does not change until playback moves on', function () {
+    const {player} = createPlayer({shuffle: true}, 6),
+        next = player.nextPlaybackIndex();
+
+    assert.notStrictEqual(next, player.currentIndex);
+    assert.strictEqual(player.nextPlaybackIndex(), next);
+    assert.strictEqual(player.nextPlaybackIndex(), next);
+});
+
+test('resume restores the saved position once when returning to an item', function () {
+    const {window, player} = createPlayer({resume: true}, 2),
+        video = player.media;
+
+    video.currentTime = 42;
+    player.select(1);
+    video.currentTime = 0;
+    player.select(0);
+    video.dispatchEvent(new window.Event('loadedmetadata'));
+    assert.strictEqual(video.currentTime, 42);
+
+    // повторный выбор текущего элемента не возвращает видео к сохраненной позиции
+    video.currentTime = 50;
+    player.select(0);
+    video.dispatchEvent(new window.Event('loadedmetadata'));
+    assert.strictEqual(video.currentTime, 50);
+});
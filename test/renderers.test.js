@@ -0,0 +1,65 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Рендерер для проверки: создает блок с атрибутом src и запоминает созданные элементы
+ *
+ * @param {Object} QooizPlayer
+ * @param {Window} window
+ *
+ * @returns {Object}
+ */
+function modelRenderer(QooizPlayer, window) {
+    class ModelRenderer extends QooizPlayer.Renderer {
+        constructor() {
+            super();
+            this.selector = '.model-view';
+            this.created = [];
+        }
+
+        create(mainWrapper, curImage) {
+            const element = window.document.createElement('div');
+            element.className = 'model-view';
+            element.setAttribute('src', this.source(curImage));
+            mainWrapper.appendChild(element);
+            this.created.push(element);
+
+            return element;
+        }
+    }
+
+    return new ModelRenderer();
+}
+
+test('registerRenderer makes a renderer available by name', function () {
+    const {window, QooizPlayer} = loadPlayer(),
+        renderer = modelRenderer(QooizPlayer, window);
+
+    QooizPlayer.Player.registerRenderer('model', renderer);
+
+    assert.strictEqual(QooizPlayer.Player.getRenderer('model'), renderer);
+    assert.strictEqual(QooizPlayer.Player.getRenderer('missing'), null);
+    assert.ok(QooizPlayer.Player.getRenderer('video') instanceof QooizPlayer.VideoRenderer);
+    assert.ok(QooizPlayer.Player.getRenderer('image') instanceof QooizPlayer.ImageRenderer);
+    assert.ok(QooizPlayer.Player.getRenderer('book') instanceof QooizPlayer.BookRenderer);
+});
+
+test('a player with the renderer class shows its items through the registered renderer', function () {
+    const {window, QooizPlayer} = loadPlayer(
+            '<div id="player" class="model">' +
+            '<img src="/a.jpg" title="A" data-object-src="/a.glb">' +
+            '<img src="/b.jpg" title="B" data-object-src="/b.glb">' +
+            '</div>'
+        ),
+        renderer = modelRenderer(QooizPlayer, window);
+
+    QooizPlayer.Player.registerRenderer('model', renderer);
+    const player = new QooizPlayer.Player(window.document.getElementById('player'));
+
+    assert.ok(player);
+    assert.deepStrictEqual(renderer.created.map(element => element.getAttribute('src')), ['/a.glb']);
+    assert.ok(window.document.querySelector('#player .model-view[src="/a.glb"]'));
+});
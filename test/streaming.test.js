@@ -0,0 +1,118 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Адаптер для проверки: читает манифест из локальных файлов и запоминает подключения и отключения
+ *
+ * @param {Object} log - журнал вызовов
+ * @param {boolean} supported - поддерживается ли адаптер
+ *
+ * @returns {Object}
+ */
+function fixtureAdapter(log, supported = true) {
+    return {
+        isSupported: () => supported,
+        attach(video, src) {
+            const file = path.join(__dirname, '..', new URL(src, 'http://localhost/').pathname);
+
+            video.manifest = fs.readFileSync(file, 'utf8');
+            log.push(['attach', src, video]);
+        },
+        detach(video) {
+            log.push(['detach', video.dataset.src, video]);
+        }
+    };
+}
+
+/**
+ * Создать видеоплеер с манифестами из test/fixtures и обычным видео
+ *
+ * @param {boolean} supported - поддерживаются ли адаптеры
+ *
+ * @returns {{window: Window, player: Object, log: Array}}
+ */
+function createPlayer(supported = true) {
+    const {window, QooizPlayer} = loadPlayer(
+            '<div id="player" class="video">' +
+            '<img src="/hls.jpg" title="HLS" data-object-src="/test/fixtures/stream.m3u8">' +
+            '<img src="/dash.jpg" title="DASH" data-object-src="/test/fixtures/stream.mpd?token=1" data-type="application/dash+xml">' +
+            '<img src="/plain.jpg" title="MP4" data-object-src="/plain.mp4">' +
+            '</div>'
+        ),
+        videoRenderer = QooizPlayer.Player.getRenderer('video'),
+        log = [];
+
+    videoRenderer.registerAdapter('m3u8', fixtureAdapter(log, supported));
+    videoRenderer.registerAdapter('mpd', fixtureAdapter(log, supported));
+
+    return {window: window, player: new QooizPlayer.Player(window.document.getElementById('player')), log: log};
+}
+
+test('manifestFormat recognises manifests by extension and by data-type', function () {
+    const {QooizPlayer} = loadPlayer(),
+        manifestFormat = QooizPlayer.VideoRenderer.manifestFormat;
+
+    assert.strictEqual(manifestFormat('/test/fixtures/stream.m3u8'), 'm3u8');
+    assert.strictEqual(manifestFormat('/test/fixtures/STREAM.MPD?token=1#t=5'), 'mpd');
+    assert.strictEqual(manifestFormat('/stream', 'm3u8'), 'm3u8');
+    assert.strictEqual(manifestFormat('/stream', 'application/x-mpegURL'), 'm3u8');
+    assert.strictEqual(manifestFormat('/stream', 'application/vnd.apple.mpegurl'), 'm3u8');
+    assert.strictEqual(manifestFormat('/stream', 'application/dash+xml'), 'mpd');
+    assert.strictEqual(manifestFormat('/video.mp4'), '');
+    assert.strictEqual(manifestFormat('/video.mp4', 'video/mp4'), '');
+});
+
+test('manifests are attached through the registered adapters', function () {
+    const {player, log} = createPlayer(),
+        hls = log.find(entry => entry[0] === 'attach' && entry[1] === '/test/fixtures/stream.m3u8');
+
+    assert.ok(hls);
+    assert.match(hls[2].manifest, /^#EXTM3U/);
+    assert.strictEqual(hls[2].getAttribute('src'), null);
+
+    player.select(1);
+    const dash = log.find(entry => entry[0] === 'attach' && entry[1] === '/test/fixtures/stream.mpd?token=1');
+
+    assert.ok(dash);
+    assert.match(dash[2].manifest, /<MPD /);
+    assert.strictEqual(dash[2].getAttribute('src'), null);
+
+    player.select(2);
+    assert.ok(!log.some(entry => entry[1] === '/plain.mp4'));
+    assert.strictEqual(player.currentElement.getAttribute('src'), '/plain.mp4');
+});
+
+test('unsupported adapters fall back to native playback of the manifest', function () {
+    const {player, log} = createPlayer(false);
+
+    assert.deepStrictEqual(log, []);
+    assert.strictEqual(player.currentElement.getAttribute('src'), '/test/fixtures/stream.m3u8');
+});
+
+test('deleteItem detaches the adapter from the item video', function () {
+    const {player, log} = createPlayer(),
+        video = log.find(entry => entry[1] === '/test/fixtures/stream.m3u8')[2];
+
+    player.deleteItem(player.images[0]);
+
+    assert.ok(log.some(entry => entry[0] === 'detach' && entry[2] === video));
+    assert.ok(!video.isConnected);
+});
+
+test('destroy detaches the adapters of all rendered videos', function () {
+    const {player, log} = createPlayer();
+
+    player.select(1);
+    const attached = log.filter(entry => entry[0] === 'attach').map(entry => entry[2]);
+
+    player.destroy();
+
+    attached.forEach(function (video) {
+        assert.ok(log.some(entry => entry[0] === 'detach' && entry[2] === video));
+    });
+});
@@ -0,0 +1,45 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+test('srtToVtt adds the WebVTT header and converts timestamps', function () {
+    const {QooizPlayer} = loadPlayer(),
+        srt = '\uFEFF1\r\n00:00:01,500 --> 00:00:04,000\r\nHello, world\r\n\r\n2\r\n01:02:03,004 --> 01:02:05,250\r\nBye\r\n';
+
+    assert.strictEqual(
+        QooizPlayer.VideoRenderer.srtToVtt(srt),
+        'WEBVTT\n\n1\n00:00:01.500 --> 00:00:04.000\nHello, world\n\n2\n01:02:03.004 --> 01:02:05.250\nBye\n'
+    );
+});
+
+test('imageToItem reads tracks and sources and ignores malformed JSON', function () {
+    const {window, QooizPlayer} = loadPlayer(
+            '<img id="valid" src="/a.jpg" data-object-src="/a.mp4" ' +
+            'data-tracks=\'[{"src": "/a.vtt", "language": "en"}]\' data-sources=\'[{"src": "/a-720.mp4", "quality": "720p"}]\'>' +
+            '<img id="broken" src="/b.jpg" data-object-src="/b.mp4" data-tracks="[{src:" data-sources="{">'
+        ),
+        valid = QooizPlayer.Player.imageToItem(window.document.getElementById('valid')),
+        broken = QooizPlayer.Player.imageToItem(window.document.getElementById('broken'));
+
+    assert.strictEqual(valid.tracks[0].src, '/a.vtt');
+    assert.strictEqual(valid.sources[0].quality, '720p');
+    assert.strictEqual(broken.tracks, undefined);
+    assert.strictEqual(broken.sources, undefined);
+    assert.strictEqual(broken.src, '/b.mp4');
+});
+
+test('SRT subtitles that fail to load are removed from the video', async function () {
+    const {window, QooizPlayer} = loadPlayer(),
+        video = window.document.createElement('video');
+
+    window.fetch = function () {
+        return Promise.resolve({ok: false, statusText: 'Not Found'});
+    };
+    QooizPlayer.VideoRenderer.addTrack(video, {src: '/missing.srt', language: 'en'});
+    assert.strictEqual(video.querySelectorAll('track').length, 1);
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    assert.strictEqual(video.querySelectorAll('track').length, 0);
+});
@@ -0,0 +1,70 @@
+'use strict';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const {loadPlayer} = require('./helpers');
+
+/**
+ * Создать плеер с загрузчиком: ссылки на файлы и превью подменяются, так как jsdom их не создает
+ *
+ * @param {Function} uploader - загрузчик
+ *
+ * @returns {{window: Window, player: Object, revoked: string[]}}
+ */
+function createPlayer(uploader) {
+    const {window, QooizPlayer} = loadPlayer('<div id="player" class="image"></div>'),
+        revoked = [];
+    let count = 0;
+
+    window.URL.createObjectURL = () => `blob:http://localhost/${++count}`;
+    window.URL.revokeObjectURL = url => revoked.push(url);
+    QooizPlayer.Player.createThumbnail = () => Promise.resolve('data:image/png;base64,');
+
+    const player = new QooizPlayer.Player(window.document.getElementById('player'), {uploader: uploader});
+
+    return {window: window, player: player, revoked: revoked};
+}
+
+/**
+ * Дождаться события плеера
+ *
+ * @param {Object} player
+ * @param {string} type - тип события
+ *
+ * @returns {Promise<Object>}
+ */
+function waitFor(player, type) {
+    return new Promise(resolve => player.on(type, resolve));
+}
+
+test('an uploaded item drops the local copy and shows the uploaded file', async function () {
+    let finish;
+    const {window, player, revoked} = createPlayer(() => new Promise(resolve => finish = resolve)),
+        uploaded = waitFor(player, 'upload'),
+        [span] = await player.addFiles([new window.File(['x'], 'photo.jpg', {type: 'image/jpeg'})]);
+
+    player.select(span);
+    const local = player.currentElement;
+
+    assert.strictEqual(local.dataset.src, 'blob:http://localhost/1');
+
+    finish('/uploads/photo.jpg');
+    await uploaded;
+
+    assert.deepStrictEqual(revoked, ['blob:http://localhost/1']);
+    assert.strictEqual(span.dataset.objectSrc, '/uploads/photo.jpg');
+    assert.ok(!local.isConnected);
+    assert.strictEqual(player.currentElement.dataset.src, '/uploads/photo.jpg');
+});
+
+test('a failed upload keeps the local copy', async function () {
+    const {window, player, revoked} = createPlayer(() => Promise.reject(new Error('offline'))),
+        failed = waitFor(player, 'uploadError'),
+        [span] = await player.addFiles([new window.File(['x'], 'photo.jpg', {type: 'image/jpeg'})]);
+
+    await failed;
+
+    assert.deepStrictEqual(revoked, []);
+    assert.strictEqual(span.dataset.objectSrc, 'blob:http://localhost/1');
+    assert.ok(span.classList.contains('failed'));
+});